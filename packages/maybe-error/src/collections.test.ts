@@ -0,0 +1,225 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import {
+	all,
+	allAsync,
+	any,
+	anyAsync,
+	collectErrors,
+	collectErrorsAsync,
+	partition,
+	partitionAsync,
+	traverse,
+	traverseAsync,
+} from "./collections";
+import { fail, type MaybeError, success } from "./MaybeError";
+
+const parseNumber = (value: string): MaybeError<number, "not-a-number"> => {
+	const number = Number(value);
+	return Number.isNaN(number) ? fail("not-a-number") : success(number);
+};
+
+const parseFlag = (value: string): MaybeError<boolean, "not-a-flag"> =>
+	value === "true" || value === "false"
+		? success(value === "true")
+		: fail("not-a-flag");
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("collections", () => {
+	describe("all()", () => {
+		it("should combine a tuple into a tuple of results", () => {
+			const result = all([parseNumber("1"), parseFlag("true")]);
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, boolean], "not-a-number" | "not-a-flag">
+			>();
+			expect(result).toEqual(success([1, true]));
+		});
+
+		it("should return the first failure", () => {
+			expect(
+				all([parseNumber("1"), parseFlag("maybe"), parseNumber("abc")]),
+			).toEqual(fail("not-a-flag"));
+		});
+
+		it("should combine lists into lists", () => {
+			const result = all(["1", "2"].map(parseNumber));
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<number[], "not-a-number">
+			>();
+			expect(result).toEqual(success([1, 2]));
+			expect(all([])).toEqual(success([]));
+		});
+	});
+
+	describe("collectErrors()", () => {
+		it("should fail with every error", () => {
+			const result = collectErrors([
+				parseNumber("abc"),
+				parseFlag("true"),
+				parseFlag("maybe"),
+			]);
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<
+					[number, boolean, boolean],
+					("not-a-number" | "not-a-flag")[]
+				>
+			>();
+			expect(result).toEqual(fail(["not-a-number", "not-a-flag"]));
+		});
+
+		it("should succeed with every result", () => {
+			expect(collectErrors([parseNumber("1"), parseFlag("false")])).toEqual(
+				success([1, false]),
+			);
+		});
+	});
+
+	describe("any()", () => {
+		it("should return the first success", () => {
+			const result = any([parseNumber("abc"), parseFlag("true")]);
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<number | boolean, ["not-a-number", "not-a-flag"]>
+			>();
+			expect(result).toEqual(success(true));
+		});
+
+		it("should fail with every error when nothing succeeds", () => {
+			expect(any([parseNumber("abc"), parseFlag("maybe")])).toEqual(
+				fail(["not-a-number", "not-a-flag"]),
+			);
+			expect(any([])).toEqual(fail([]));
+		});
+	});
+
+	describe("partition()", () => {
+		it("should split results and errors in order", () => {
+			const partitioned = partition(["1", "abc", "3", "x"].map(parseNumber));
+			expectTypeOf(partitioned).toEqualTypeOf<{
+				successes: number[];
+				errors: "not-a-number"[];
+			}>();
+			expect(partitioned).toEqual({
+				successes: [1, 3],
+				errors: ["not-a-number", "not-a-number"],
+			});
+		});
+	});
+
+	describe("traverse()", () => {
+		it("should map tuples to tuples of results", () => {
+			const result = traverse(["1", "2"], parseNumber);
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, number], "not-a-number">
+			>();
+			expect(result).toEqual(success([1, 2]));
+		});
+
+		it("should stop at the first failure", () => {
+			const seen: number[] = [];
+			const result = traverse(["1", "abc", "3"], (value, index) => {
+				seen.push(index);
+				return parseNumber(value);
+			});
+
+			expect(result).toEqual(fail("not-a-number"));
+			expect(seen).toEqual([0, 1]);
+		});
+	});
+
+	describe("async versions", () => {
+		it("should await promises and keep tuple types", async () => {
+			const result = await allAsync([
+				Promise.resolve(parseNumber("1")),
+				parseFlag("true"),
+			]);
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, boolean], "not-a-number" | "not-a-flag">
+			>();
+			expect(result).toEqual(success([1, true]));
+
+			expect(
+				await collectErrorsAsync([
+					Promise.resolve(parseNumber("abc")),
+					Promise.resolve(parseFlag("maybe")),
+				]),
+			).toEqual(fail(["not-a-number", "not-a-flag"]));
+			expect(
+				await anyAsync([
+					Promise.resolve(parseNumber("abc")),
+					Promise.resolve(parseNumber("2")),
+				]),
+			).toEqual(success(2));
+			expect(
+				await partitionAsync([
+					Promise.resolve(parseNumber("abc")),
+					Promise.resolve(parseNumber("2")),
+				]),
+			).toEqual({ successes: [2], errors: ["not-a-number"] });
+		});
+
+		it("should limit how many calls run at once", async () => {
+			let running = 0;
+			let maxRunning = 0;
+
+			const result = await traverseAsync(
+				["1", "2", "3", "4", "5"],
+				async (value, index) => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await delay(5 - index);
+					running--;
+					return parseNumber(value);
+				},
+				{ concurrency: 2 },
+			);
+
+			expectTypeOf(result).toEqualTypeOf<
+				MaybeError<[number, number, number, number, number], "not-a-number">
+			>();
+			expect(result).toEqual(success([1, 2, 3, 4, 5]));
+			expect(maxRunning).toBe(2);
+		});
+
+		it("should not start calls after a failure", async () => {
+			const started: number[] = [];
+
+			const result = await traverseAsync(
+				["1", "abc", "3", "4"],
+				async (value, index) => {
+					started.push(index);
+					await delay(1);
+					return parseNumber(value);
+				},
+				{ concurrency: 1 },
+			);
+
+			expect(result).toEqual(fail("not-a-number"));
+			expect(started).toEqual([0, 1]);
+		});
+
+		it("should reject concurrency limits that are not positive integers", async () => {
+			const calls: string[] = [];
+			const track = (value: string) => {
+				calls.push(value);
+				return parseNumber(value);
+			};
+
+			for (const concurrency of [Number.NaN, 0, -1, 1.5]) {
+				await expect(
+					traverseAsync(["1"], track, { concurrency }),
+				).rejects.toThrow(
+					new RangeError(
+						`concurrency must be a positive integer or Infinity, got ${concurrency}`,
+					),
+				);
+			}
+			expect(calls).toEqual([]);
+
+			expect(
+				await traverseAsync([], track, {
+					concurrency: Number.POSITIVE_INFINITY,
+				}),
+			).toEqual(success([]));
+		});
+	});
+});
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Helpers for lists of MaybeError values
+ *
+ * Turn the `MaybeError[]` of a batch of validations or parallel calls into one MaybeError
+ * without hand-written loops. Tuples keep their element types, so `all([a, b])` succeeds
+ * with `[A, B]`.
+ *
+ * @example
+ * ```typescript
+ * const rows = traverse(input.rows, validateRow);
+ * const [user, settings] = unwrapOr(all([getUser(id), getSettings(id)]), []);
+ * ```
+ */
+
+import type { AnyMaybeError, ErrorOf, ResultOf } from "./combinators";
+import { type Awaitable, succeed } from "./internal";
+import { type DefiniteError, fail, type MaybeError } from "./MaybeError";
+
+/**
+ * The success values of a list or tuple of MaybeError types, or of promises of them
+ *
+ * @template T - A list or tuple of MaybeError types
+ * @example
+ * ```typescript
+ * type Values = ResultsOf<[MaybeError<User>, Promise<MaybeError<Org>>]>; // [User, Org]
+ * ```
+ */
+export type ResultsOf<T extends readonly unknown[]> = {
+	-readonly [K in keyof T]: ResultOf<Awaited<T[K]>>;
+};
+
+/**
+ * The error types of a list or tuple of MaybeError types, or of promises of them
+ *
+ * @template T - A list or tuple of MaybeError types
+ */
+export type ErrorsOf<T extends readonly unknown[]> = {
+	-readonly [K in keyof T]: ErrorOf<Awaited<T[K]>>;
+};
+
+/**
+ * The successes and errors of a list of MaybeError values, split by {@link partition}
+ */
+export type Partitioned<T extends readonly unknown[]> = {
+	successes: ResultOf<Awaited<T[number]>>[];
+	errors: ErrorOf<Awaited<T[number]>>[];
+};
+
+/**
+ * Options for {@link traverseAsync}
+ */
+export type TraverseOptions = {
+	/**
+	 * How many calls can run at once: a positive integer, or `Infinity` for no limit (the
+	 * default)
+	 */
+	concurrency?: number;
+};
+
+/**
+ * Combines MaybeError values into one success with every result, or the first failure.
+ *
+ * @param maybes - A list or tuple of MaybeError values
+ * @returns A success with the results in order, or the first failure
+ * @example
+ * ```typescript
+ * // MaybeError<[User, Settings], "user-not-found" | "no-settings">
+ * const result = all([getUser(id), getSettings(id)]);
+ * ```
+ */
+export const all = <const T extends readonly AnyMaybeError[]>(
+	maybes: T,
+): MaybeError<ResultsOf<T>, ErrorOf<T[number]>> => {
+	const results: unknown[] = [];
+	for (const maybe of maybes) {
+		if (!maybe.success) {
+			return maybe as MaybeError<ResultsOf<T>, ErrorOf<T[number]>>;
+		}
+		results.push(maybe.result);
+	}
+	return succeed(results as ResultsOf<T>);
+};
+
+/**
+ * Combines MaybeError values like {@link all}, but fails with every error instead of the
+ * first one, such as to report every invalid row of a batch.
+ *
+ * @param maybes - A list or tuple of MaybeError values
+ * @returns A success with the results in order, or a failure with every error in order
+ * @example
+ * ```typescript
+ * const result = collectErrors(rows.map(validateRow));
+ * if (!result.success) {
+ *   console.error(`${result.error.length} invalid rows`, result.error);
+ * }
+ * ```
+ */
+export const collectErrors = <const T extends readonly AnyMaybeError[]>(
+	maybes: T,
+): MaybeError<ResultsOf<T>, ErrorOf<T[number]>[]> => {
+	const results: unknown[] = [];
+	const errors: ErrorOf<T[number]>[] = [];
+	for (const maybe of maybes) {
+		if (maybe.success) {
+			results.push(maybe.result);
+		} else {
+			errors.push(maybe.error as ErrorOf<T[number]>);
+		}
+	}
+	return errors.length > 0 ? fail(errors) : succeed(results as ResultsOf<T>);
+};
+
+/**
+ * Returns the first success, or a failure with every error when none succeeded.
+ *
+ * @param maybes - A list or tuple of MaybeError values
+ * @returns The first success, or a failure with the errors in order
+ * @example
+ * ```typescript
+ * const config = any([readEnvConfig(), readFileConfig(), readDefaultConfig()]);
+ * ```
+ */
+export const any = <const T extends readonly AnyMaybeError[]>(
+	maybes: T,
+): MaybeError<ResultOf<T[number]>, ErrorsOf<T>> => {
+	const errors: unknown[] = [];
+	for (const maybe of maybes) {
+		if (maybe.success) {
+			return maybe as MaybeError<ResultOf<T[number]>, ErrorsOf<T>>;
+		}
+		errors.push(maybe.error);
+	}
+	return fail(errors as ErrorsOf<T>);
+};
+
+/**
+ * Splits MaybeError values into the results of the successes and the errors of the
+ * failures, keeping their order.
+ *
+ * @param maybes - A list of MaybeError values
+ * @returns The results and the errors
+ * @example
+ * ```typescript
+ * const { successes, errors } = partition(rows.map(validateRow));
+ * await insertRows(successes);
+ * ```
+ */
+export const partition = <const T extends readonly AnyMaybeError[]>(
+	maybes: T,
+): Partitioned<T> => {
+	const partitioned: Partitioned<T> = { successes: [], errors: [] };
+	for (const maybe of maybes) {
+		if (maybe.success) {
+			partitioned.successes.push(maybe.result as ResultOf<T[number]>);
+		} else {
+			partitioned.errors.push(maybe.error as ErrorOf<T[number]>);
+		}
+	}
+	return partitioned;
+};
+
+/**
+ * Calls a function that may fail for each item, stopping at the first failure.
+ *
+ * @param items - The items
+ * @param fn - Called with each item and its index
+ * @returns A success with the results in the order of the items, or the first failure
+ * @example
+ * ```typescript
+ * // MaybeError<Row[], RowError>
+ * const rows = traverse(input.rows, validateRow);
+ * ```
+ */
+export const traverse = <
+	const T extends readonly unknown[],
+	TMaybe extends AnyMaybeError,
+>(
+	items: T,
+	fn: (item: T[number], index: number) => TMaybe,
+): MaybeError<
+	{ -readonly [K in keyof T]: ResultOf<TMaybe> },
+	ErrorOf<TMaybe>
+> => {
+	const results: unknown[] = [];
+	for (let index = 0; index < items.length; index++) {
+		const maybe = fn(items[index], index);
+		if (!maybe.success) {
+			return maybe as DefiniteError<ErrorOf<TMaybe>>;
+		}
+		results.push(maybe.result);
+	}
+	return succeed(results as { -readonly [K in keyof T]: ResultOf<TMaybe> });
+};
+
+/**
+ * The async version of {@link all}, for MaybeError values and promises of them. Every
+ * promise is awaited, and the first failure in the order of the list wins.
+ *
+ * @param maybes - A list or tuple of MaybeError values or promises
+ * @returns A promise of a success with the results in order, or of the first failure
+ * @example
+ * ```typescript
+ * const result = await allAsync([fetchUser(id), fetchSettings(id)]);
+ * ```
+ */
+export const allAsync = async <
+	const T extends readonly Awaitable<AnyMaybeError>[],
+>(
+	maybes: T,
+): Promise<MaybeError<ResultsOf<T>, ErrorOf<Awaited<T[number]>>>> =>
+	all(await Promise.all(maybes)) as MaybeError<
+		ResultsOf<T>,
+		ErrorOf<Awaited<T[number]>>
+	>;
+
+/**
+ * The async version of {@link collectErrors}, for MaybeError values and promises of them
+ *
+ * @param maybes - A list or tuple of MaybeError values or promises
+ * @returns A promise of a success with the results, or of a failure with every error
+ * @example
+ * ```typescript
+ * const result = await collectErrorsAsync(emails.map(sendEmail));
+ * ```
+ */
+export const collectErrorsAsync = async <
+	const T extends readonly Awaitable<AnyMaybeError>[],
+>(
+	maybes: T,
+): Promise<MaybeError<ResultsOf<T>, ErrorOf<Awaited<T[number]>>[]>> =>
+	collectErrors(await Promise.all(maybes)) as MaybeError<
+		ResultsOf<T>,
+		ErrorOf<Awaited<T[number]>>[]
+	>;
+
+/**
+ * The async version of {@link any}, for MaybeError values and promises of them. Every
+ * promise is awaited, and the first success in the order of the list wins.
+ *
+ * @param maybes - A list or tuple of MaybeError values or promises
+ * @returns A promise of the first success, or of a failure with every error
+ * @example
+ * ```typescript
+ * const avatar = await anyAsync([fetchFromCdn(id), fetchFromOrigin(id)]);
+ * ```
+ */
+export const anyAsync = async <
+	const T extends readonly Awaitable<AnyMaybeError>[],
+>(
+	maybes: T,
+): Promise<MaybeError<ResultOf<Awaited<T[number]>>, ErrorsOf<T>>> =>
+	any(await Promise.all(maybes)) as MaybeError<
+		ResultOf<Awaited<T[number]>>,
+		ErrorsOf<T>
+	>;
+
+/**
+ * The async version of {@link partition}, for MaybeError values and promises of them
+ *
+ * @param maybes - A list of MaybeError values or promises
+ * @returns A promise of the results and the errors
+ * @example
+ * ```typescript
+ * const { successes, errors } = await partitionAsync(ids.map(fetchUser));
+ * ```
+ */
+export const partitionAsync = async <
+	const T extends readonly Awaitable<AnyMaybeError>[],
+>(
+	maybes: T,
+): Promise<Partitioned<T>> =>
+	partition(await Promise.all(maybes)) as Partitioned<T>;
+
+/**
+ * The async version of {@link traverse}, with an optional limit on how many calls run at
+ * once.
+ *
+ * No calls are started after a failure, and the calls already running are awaited before
+ * the failure is returned. With several failures in flight, the first one to complete
+ * wins.
+ *
+ * @param items - The items
+ * @param fn - Called with each item and its index
+ * @param options - The concurrency limit
+ * @returns A promise of a success with the results in the order of the items, or of the
+ * first failure
+ * @throws {RangeError} When `concurrency` is not a positive integer or `Infinity`
+ * @example
+ * ```typescript
+ * const uploads = await traverseAsync(files, uploadFile, { concurrency: 3 });
+ * ```
+ */
+export const traverseAsync = async <
+	const T extends readonly unknown[],
+	TMaybe extends AnyMaybeError,
+>(
+	items: T,
+	fn: (item: T[number], index: number) => Awaitable<TMaybe>,
+	{ concurrency = Number.POSITIVE_INFINITY }: TraverseOptions = {},
+): Promise<
+	MaybeError<{ -readonly [K in keyof T]: ResultOf<TMaybe> }, ErrorOf<TMaybe>>
+> => {
+	if (
+		concurrency !== Number.POSITIVE_INFINITY &&
+		!(Number.isInteger(concurrency) && concurrency > 0)
+	) {
+		throw new RangeError(
+			`concurrency must be a positive integer or Infinity, got ${concurrency}`,
+		);
+	}
+
+	const results: unknown[] = new Array(items.length);
+	let failure: DefiniteError<ErrorOf<TMaybe>> | undefined;
+	let nextIndex = 0;
+
+	const worker = async () => {
+		while (failure === undefined && nextIndex < items.length) {
+			const index = nextIndex++;
+			const maybe = await fn(items[index], index);
+			if (!maybe.success) {
+				if (failure === undefined) {
+					failure = maybe as DefiniteError<ErrorOf<TMaybe>>;
+				}
+				return;
+			}
+			results[index] = maybe.result;
+		}
+	};
+
+	const workerCount = Math.min(concurrency, items.length);
+	await Promise.all(Array.from({ length: workerCount }, worker));
+
+	return (
+		failure ??
+		succeed(results as { -readonly [K in keyof T]: ResultOf<TMaybe> })
+	);
+};
@@ -0,0 +1,204 @@
+import { describe, expect, expectTypeOf, it, mock } from "bun:test";
+import {
+	andThen,
+	andThenAsync,
+	flatMap,
+	flatMapAsync,
+	map,
+	mapAsync,
+	mapError,
+	mapErrorAsync,
+	match,
+	matchAsync,
+	orElse,
+	orElseAsync,
+	tap,
+	tapAsync,
+	tapError,
+	tapErrorAsync,
+	unwrapOr,
+	unwrapOrAsync,
+	unwrapOrElse,
+	unwrapOrElseAsync,
+} from "./combinators";
+import {
+	type DefiniteSuccess,
+	fail,
+	type MaybeError,
+	success,
+} from "./MaybeError";
+
+const parseNumber = (value: string): MaybeError<number, "not-a-number"> => {
+	const number = Number(value);
+	return Number.isNaN(number) ? fail("not-a-number") : success(number);
+};
+
+const sqrt = (value: number): MaybeError<number, "negative"> =>
+	value < 0 ? fail("negative") : success(Math.sqrt(value));
+
+describe("combinators", () => {
+	describe("map()", () => {
+		it("should transform successes and keep failures", () => {
+			const doubled = map(parseNumber("2"), (n) => n * 2);
+			expectTypeOf(doubled).toEqualTypeOf<MaybeError<number, "not-a-number">>();
+			expect(doubled).toEqual(success(4));
+
+			expect(map(parseNumber("abc"), (n) => n * 2)).toEqual(
+				fail("not-a-number"),
+			);
+		});
+
+		it("should keep the optional result of successes without a value", () => {
+			const done = map(parseNumber("1"), () => undefined);
+			expectTypeOf(done).toEqualTypeOf<MaybeError<undefined, "not-a-number">>();
+
+			if (done.success) {
+				expectTypeOf(done).toEqualTypeOf<DefiniteSuccess<undefined>>();
+			}
+
+			const fromEmpty = map(success(), (result) => {
+				expectTypeOf(result).toEqualTypeOf<undefined>();
+				return "done";
+			});
+			expect(fromEmpty).toEqual(success("done"));
+		});
+	});
+
+	describe("mapError()", () => {
+		it("should transform failures and keep successes", () => {
+			const mapped = mapError(parseNumber("abc"), (error) => ({
+				code: 400,
+				error,
+			}));
+			expectTypeOf(mapped).toEqualTypeOf<
+				MaybeError<number, { code: number; error: "not-a-number" }>
+			>();
+			expect(mapped).toEqual(fail({ code: 400, error: "not-a-number" }));
+
+			expect(mapError(parseNumber("1"), () => "unused")).toEqual(success(1));
+		});
+	});
+
+	describe("flatMap() and andThen()", () => {
+		it("should chain steps and collect their error types", () => {
+			const root = flatMap(parseNumber("16"), sqrt);
+			expectTypeOf(root).toEqualTypeOf<
+				MaybeError<number, "not-a-number" | "negative">
+			>();
+			expect(root).toEqual(success(4));
+
+			expect(andThen(parseNumber("-4"), sqrt)).toEqual(fail("negative"));
+			expect(andThen(parseNumber("abc"), sqrt)).toEqual(fail("not-a-number"));
+		});
+	});
+
+	describe("orElse()", () => {
+		it("should recover from failures", () => {
+			const recovered = orElse(parseNumber("abc"), () => parseNumber("0"));
+			expectTypeOf(recovered).toEqualTypeOf<
+				MaybeError<number, "not-a-number">
+			>();
+			expect(recovered).toEqual(success(0));
+
+			const fallback = mock(() => success(0));
+			expect(orElse(parseNumber("5"), fallback)).toEqual(success(5));
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("match()", () => {
+		it("should call the handler for the outcome", () => {
+			const describe = (value: string) =>
+				match(parseNumber(value), {
+					success: (n) => `number ${n}`,
+					fail: (error) => error.length,
+				});
+
+			expectTypeOf(describe("1")).toEqualTypeOf<string | number>();
+			expect(describe("1")).toBe("number 1");
+			expect(describe("abc")).toBe("not-a-number".length);
+		});
+	});
+
+	describe("unwrapOr() and unwrapOrElse()", () => {
+		it("should return the value or a fallback", () => {
+			expect(unwrapOr(parseNumber("3"), null)).toBe(3);
+			expectTypeOf(unwrapOr(parseNumber("abc"), null)).toEqualTypeOf<
+				number | null
+			>();
+			expect(unwrapOr(parseNumber("abc"), null)).toBeNull();
+
+			expect(unwrapOrElse(parseNumber("abc"), (error) => error)).toBe(
+				"not-a-number",
+			);
+		});
+	});
+
+	describe("tap() and tapError()", () => {
+		it("should run side effects for the outcome and return the input", () => {
+			const onSuccess = mock((_n: number) => {});
+			const onError = mock((_error: "not-a-number") => {});
+
+			const ok = parseNumber("1");
+			expect(tapError(tap(ok, onSuccess), onError)).toBe(ok);
+
+			const failed = parseNumber("abc");
+			expect(tapError(tap(failed, onSuccess), onError)).toBe(failed);
+
+			expect(onSuccess.mock.calls).toEqual([[1]]);
+			expect(onError.mock.calls).toEqual([["not-a-number"]]);
+		});
+	});
+
+	describe("async versions", () => {
+		const parseLater = async (value: string) => parseNumber(value);
+
+		it("should accept promises and async callbacks", async () => {
+			const root = await andThenAsync(parseLater("16"), async (n) => sqrt(n));
+			expectTypeOf(root).toEqualTypeOf<
+				MaybeError<number, "not-a-number" | "negative">
+			>();
+			expect(root).toEqual(success(4));
+
+			expect(await flatMapAsync(parseLater("abc"), sqrt)).toEqual(
+				fail("not-a-number"),
+			);
+			expect(await mapAsync(parseLater("2"), async (n) => n * 2)).toEqual(
+				success(4),
+			);
+			expect(
+				await mapErrorAsync(parseLater("abc"), async (error) =>
+					error.toUpperCase(),
+				),
+			).toEqual(fail("NOT-A-NUMBER"));
+			expect(
+				await orElseAsync(parseLater("abc"), async () => success(0)),
+			).toEqual(success(0));
+		});
+
+		it("should match, unwrap and tap promises", async () => {
+			expect(
+				await matchAsync(parseLater("1"), {
+					success: async (n) => n + 1,
+					fail: () => 0,
+				}),
+			).toBe(2);
+			expect(await unwrapOrAsync(parseLater("abc"), 0)).toBe(0);
+			expect(await unwrapOrElseAsync(parseLater("abc"), async () => -1)).toBe(
+				-1,
+			);
+
+			const effects: string[] = [];
+			const result = await tapErrorAsync(
+				tapAsync(parseLater("1"), async (n) => {
+					effects.push(`success ${n}`);
+				}),
+				async (error) => {
+					effects.push(error);
+				},
+			);
+			expect(result).toEqual(success(1));
+			expect(effects).toEqual(["success 1"]);
+		});
+	});
+});
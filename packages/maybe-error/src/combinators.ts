@@ -0,0 +1,404 @@
+/**
+ * @fileoverview Combinators for transforming and chaining MaybeError values
+ *
+ * Every function takes the MaybeError first and returns a new one, so steps can be
+ * chained without `if (!result.success) return result;` checks. The async versions also
+ * accept a `Promise<MaybeError>` and callbacks that return promises.
+ *
+ * @example
+ * ```typescript
+ * const name = unwrapOr(
+ *   map(parseUser(input), (user) => user.name),
+ *   "Anonymous",
+ * );
+ *
+ * const saved = await andThenAsync(validate(input), (data) => saveUser(data));
+ * ```
+ */
+
+import { type Awaitable, succeed } from "./internal";
+import type { DefiniteError, MaybeError } from "./MaybeError";
+
+/**
+ * Any MaybeError, whatever its result and error types
+ */
+export type AnyMaybeError =
+	| { success: true; result?: unknown }
+	| { success: false; error: unknown };
+
+/**
+ * The success value type of a MaybeError type, `undefined` for a `DefiniteSuccess`
+ * without a result
+ *
+ * @template T - A MaybeError type
+ * @example
+ * ```typescript
+ * type User = ResultOf<MaybeError<User, string>>; // User
+ * ```
+ */
+export type ResultOf<T> = T extends { success: true; result: infer TResult }
+	? TResult
+	: T extends { success: true }
+		? undefined
+		: never;
+
+/**
+ * The error type of a MaybeError type
+ *
+ * @template T - A MaybeError type
+ * @example
+ * ```typescript
+ * type Error = ErrorOf<MaybeError<User, "not-found">>; // "not-found"
+ * ```
+ */
+export type ErrorOf<T> = T extends { success: false; error: infer TError }
+	? TError
+	: never;
+
+/**
+ * Transforms the result of a success, leaving failures unchanged.
+ *
+ * @param maybe - The MaybeError to transform
+ * @param fn - Transforms the success value
+ * @returns A success with the transformed value, or the original failure
+ * @example
+ * ```typescript
+ * map(success(2), (n) => n * 2); // success(4)
+ * map(fail("oops"), (n: number) => n * 2); // fail("oops")
+ * ```
+ */
+export const map = <TMaybe extends AnyMaybeError, TResult>(
+	maybe: TMaybe,
+	fn: (result: ResultOf<TMaybe>) => TResult,
+): MaybeError<TResult, ErrorOf<TMaybe>> =>
+	maybe.success
+		? succeed(fn(maybe.result as ResultOf<TMaybe>))
+		: (maybe as DefiniteError<ErrorOf<TMaybe>>);
+
+/**
+ * Transforms the error of a failure, leaving successes unchanged.
+ *
+ * @param maybe - The MaybeError to transform
+ * @param fn - Transforms the error
+ * @returns The original success, or a failure with the transformed error
+ * @example
+ * ```typescript
+ * mapError(fail("not-found"), (error) => ({ code: 404, error })); // fail({ code: 404, ... })
+ * ```
+ */
+export const mapError = <TMaybe extends AnyMaybeError, TError>(
+	maybe: TMaybe,
+	fn: (error: ErrorOf<TMaybe>) => TError,
+): MaybeError<ResultOf<TMaybe>, TError> =>
+	maybe.success
+		? (maybe as unknown as MaybeError<ResultOf<TMaybe>, TError>)
+		: { success: false, error: fn(maybe.error as ErrorOf<TMaybe>) };
+
+/**
+ * Chains a step that may fail after a success. Failures skip the step.
+ *
+ * @param maybe - The MaybeError to continue from
+ * @param fn - The next step, given the success value
+ * @returns The result of the next step, or the original failure
+ * @example
+ * ```typescript
+ * flatMap(parseNumber("16"), sqrt); // success(4)
+ * flatMap(parseNumber("abc"), sqrt); // fail('"abc" is not a valid number')
+ * ```
+ */
+export const flatMap = <
+	TMaybe extends AnyMaybeError,
+	TNext extends AnyMaybeError,
+>(
+	maybe: TMaybe,
+	fn: (result: ResultOf<TMaybe>) => TNext,
+): MaybeError<ResultOf<TNext>, ErrorOf<TMaybe> | ErrorOf<TNext>> =>
+	(maybe.success ? fn(maybe.result as ResultOf<TMaybe>) : maybe) as MaybeError<
+		ResultOf<TNext>,
+		ErrorOf<TMaybe> | ErrorOf<TNext>
+	>;
+
+/**
+ * Alias of {@link flatMap}
+ */
+export const andThen = flatMap;
+
+/**
+ * Recovers from a failure with a step that may fail. Successes skip the step.
+ *
+ * @param maybe - The MaybeError to recover
+ * @param fn - The recovery step, given the error
+ * @returns The original success, or the result of the recovery step
+ * @example
+ * ```typescript
+ * orElse(readCache(key), () => fetchFresh(key));
+ * ```
+ */
+export const orElse = <
+	TMaybe extends AnyMaybeError,
+	TNext extends AnyMaybeError,
+>(
+	maybe: TMaybe,
+	fn: (error: ErrorOf<TMaybe>) => TNext,
+): MaybeError<ResultOf<TMaybe> | ResultOf<TNext>, ErrorOf<TNext>> =>
+	(maybe.success ? maybe : fn(maybe.error as ErrorOf<TMaybe>)) as MaybeError<
+		ResultOf<TMaybe> | ResultOf<TNext>,
+		ErrorOf<TNext>
+	>;
+
+/**
+ * Handlers for {@link match}
+ */
+export type MatchHandlers<TMaybe, TSuccessOutput, TFailOutput> = {
+	success: (result: ResultOf<TMaybe>) => TSuccessOutput;
+	fail: (error: ErrorOf<TMaybe>) => TFailOutput;
+};
+
+/**
+ * Handles both outcomes of a MaybeError, returning the value of the matching handler.
+ *
+ * @param maybe - The MaybeError to handle
+ * @param handlers - The handlers for a success and a failure
+ * @returns The value returned by the handler
+ * @example
+ * ```typescript
+ * const message = match(result, {
+ *   success: (user) => `Welcome, ${user.name}`,
+ *   fail: (error) => `Could not sign in: ${error}`,
+ * });
+ * ```
+ */
+export const match = <
+	TMaybe extends AnyMaybeError,
+	TSuccessOutput,
+	TFailOutput = TSuccessOutput,
+>(
+	maybe: TMaybe,
+	handlers: MatchHandlers<TMaybe, TSuccessOutput, TFailOutput>,
+): TSuccessOutput | TFailOutput =>
+	maybe.success
+		? handlers.success(maybe.result as ResultOf<TMaybe>)
+		: handlers.fail(maybe.error as ErrorOf<TMaybe>);
+
+/**
+ * Returns the success value, or a fallback for a failure.
+ *
+ * @param maybe - The MaybeError to unwrap
+ * @param fallback - The value to return for a failure
+ * @returns The success value or the fallback
+ * @example
+ * ```typescript
+ * unwrapOr(parseNumber("abc"), 0); // 0
+ * ```
+ */
+export const unwrapOr = <TMaybe extends AnyMaybeError, TFallback>(
+	maybe: TMaybe,
+	fallback: TFallback,
+): ResultOf<TMaybe> | TFallback =>
+	maybe.success ? (maybe.result as ResultOf<TMaybe>) : fallback;
+
+/**
+ * Returns the success value, or computes a fallback from the error of a failure.
+ *
+ * @param maybe - The MaybeError to unwrap
+ * @param fn - Computes the fallback from the error
+ * @returns The success value or the fallback
+ * @example
+ * ```typescript
+ * unwrapOrElse(loadSettings(), (error) => {
+ *   console.warn(error);
+ *   return defaultSettings;
+ * });
+ * ```
+ */
+export const unwrapOrElse = <TMaybe extends AnyMaybeError, TFallback>(
+	maybe: TMaybe,
+	fn: (error: ErrorOf<TMaybe>) => TFallback,
+): ResultOf<TMaybe> | TFallback =>
+	maybe.success
+		? (maybe.result as ResultOf<TMaybe>)
+		: fn(maybe.error as ErrorOf<TMaybe>);
+
+/**
+ * Runs a side effect with the value of a success, such as logging.
+ *
+ * @param maybe - The MaybeError to inspect
+ * @param fn - The side effect
+ * @returns The MaybeError, unchanged
+ * @example
+ * ```typescript
+ * tap(result, (user) => console.log("Loaded", user.id));
+ * ```
+ */
+export const tap = <TMaybe extends AnyMaybeError>(
+	maybe: TMaybe,
+	fn: (result: ResultOf<TMaybe>) => void,
+): TMaybe => {
+	if (maybe.success) {
+		fn(maybe.result as ResultOf<TMaybe>);
+	}
+	return maybe;
+};
+
+/**
+ * Runs a side effect with the error of a failure, such as reporting it.
+ *
+ * @param maybe - The MaybeError to inspect
+ * @param fn - The side effect
+ * @returns The MaybeError, unchanged
+ * @example
+ * ```typescript
+ * tapError(result, (error) => reportError(error));
+ * ```
+ */
+export const tapError = <TMaybe extends AnyMaybeError>(
+	maybe: TMaybe,
+	fn: (error: ErrorOf<TMaybe>) => void,
+): TMaybe => {
+	if (!maybe.success) {
+		fn(maybe.error as ErrorOf<TMaybe>);
+	}
+	return maybe;
+};
+
+/**
+ * Async version of {@link map}, accepting a promise and an async transform
+ */
+export const mapAsync = async <TMaybe extends AnyMaybeError, TResult>(
+	maybe: Awaitable<TMaybe>,
+	fn: (result: ResultOf<TMaybe>) => Awaitable<TResult>,
+): Promise<MaybeError<TResult, ErrorOf<TMaybe>>> => {
+	const awaited = await maybe;
+	return awaited.success
+		? succeed(await fn(awaited.result as ResultOf<TMaybe>))
+		: (awaited as DefiniteError<ErrorOf<TMaybe>>);
+};
+
+/**
+ * Async version of {@link mapError}, accepting a promise and an async transform
+ */
+export const mapErrorAsync = async <TMaybe extends AnyMaybeError, TError>(
+	maybe: Awaitable<TMaybe>,
+	fn: (error: ErrorOf<TMaybe>) => Awaitable<TError>,
+): Promise<MaybeError<ResultOf<TMaybe>, TError>> => {
+	const awaited = await maybe;
+	return awaited.success
+		? (awaited as unknown as MaybeError<ResultOf<TMaybe>, TError>)
+		: { success: false, error: await fn(awaited.error as ErrorOf<TMaybe>) };
+};
+
+/**
+ * Async version of {@link flatMap}, accepting a promise and an async step
+ *
+ * @example
+ * ```typescript
+ * const saved = await flatMapAsync(validate(input), (data) => saveUser(data));
+ * ```
+ */
+export const flatMapAsync = async <
+	TMaybe extends AnyMaybeError,
+	TNext extends AnyMaybeError,
+>(
+	maybe: Awaitable<TMaybe>,
+	fn: (result: ResultOf<TMaybe>) => Awaitable<TNext>,
+): Promise<MaybeError<ResultOf<TNext>, ErrorOf<TMaybe> | ErrorOf<TNext>>> => {
+	const awaited = await maybe;
+	return (
+		awaited.success ? await fn(awaited.result as ResultOf<TMaybe>) : awaited
+	) as MaybeError<ResultOf<TNext>, ErrorOf<TMaybe> | ErrorOf<TNext>>;
+};
+
+/**
+ * Alias of {@link flatMapAsync}
+ */
+export const andThenAsync = flatMapAsync;
+
+/**
+ * Async version of {@link orElse}, accepting a promise and an async recovery step
+ */
+export const orElseAsync = async <
+	TMaybe extends AnyMaybeError,
+	TNext extends AnyMaybeError,
+>(
+	maybe: Awaitable<TMaybe>,
+	fn: (error: ErrorOf<TMaybe>) => Awaitable<TNext>,
+): Promise<MaybeError<ResultOf<TMaybe> | ResultOf<TNext>, ErrorOf<TNext>>> => {
+	const awaited = await maybe;
+	return (
+		awaited.success ? awaited : await fn(awaited.error as ErrorOf<TMaybe>)
+	) as MaybeError<ResultOf<TMaybe> | ResultOf<TNext>, ErrorOf<TNext>>;
+};
+
+/**
+ * Async version of {@link match}, accepting a promise and async handlers
+ */
+export const matchAsync = async <
+	TMaybe extends AnyMaybeError,
+	TSuccessOutput,
+	TFailOutput = TSuccessOutput,
+>(
+	maybe: Awaitable<TMaybe>,
+	handlers: MatchHandlers<
+		TMaybe,
+		Awaitable<TSuccessOutput>,
+		Awaitable<TFailOutput>
+	>,
+): Promise<TSuccessOutput | TFailOutput> => {
+	const awaited = await maybe;
+	return awaited.success
+		? handlers.success(awaited.result as ResultOf<TMaybe>)
+		: handlers.fail(awaited.error as ErrorOf<TMaybe>);
+};
+
+/**
+ * Async version of {@link unwrapOr}, accepting a promise
+ */
+export const unwrapOrAsync = async <TMaybe extends AnyMaybeError, TFallback>(
+	maybe: Awaitable<TMaybe>,
+	fallback: TFallback,
+): Promise<ResultOf<TMaybe> | TFallback> => unwrapOr(await maybe, fallback);
+
+/**
+ * Async version of {@link unwrapOrElse}, accepting a promise and an async fallback
+ */
+export const unwrapOrElseAsync = async <
+	TMaybe extends AnyMaybeError,
+	TFallback,
+>(
+	maybe: Awaitable<TMaybe>,
+	fn: (error: ErrorOf<TMaybe>) => Awaitable<TFallback>,
+): Promise<ResultOf<TMaybe> | TFallback> => {
+	const awaited = await maybe;
+	return awaited.success
+		? (awaited.result as ResultOf<TMaybe>)
+		: fn(awaited.error as ErrorOf<TMaybe>);
+};
+
+/**
+ * Async version of {@link tap}, accepting a promise and waiting for an async side effect
+ */
+export const tapAsync = async <TMaybe extends AnyMaybeError>(
+	maybe: Awaitable<TMaybe>,
+	fn: (result: ResultOf<TMaybe>) => Awaitable<void>,
+): Promise<TMaybe> => {
+	const awaited = await maybe;
+	if (awaited.success) {
+		await fn(awaited.result as ResultOf<TMaybe>);
+	}
+	return awaited;
+};
+
+/**
+ * Async version of {@link tapError}, accepting a promise and waiting for an async side
+ * effect
+ */
+export const tapErrorAsync = async <TMaybe extends AnyMaybeError>(
+	maybe: Awaitable<TMaybe>,
+	fn: (error: ErrorOf<TMaybe>) => Awaitable<void>,
+): Promise<TMaybe> => {
+	const awaited = await maybe;
+	if (!awaited.success) {
+		await fn(awaited.error as ErrorOf<TMaybe>);
+	}
+	return awaited;
+};
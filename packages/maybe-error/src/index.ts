@@ -6,4 +6,73 @@ export {
 	type DefiniteError,
 	type DefiniteSuccess,
 } from "./MaybeError";
+export {
+	type AnyMaybeError,
+	type ErrorOf,
+	type MatchHandlers,
+	type ResultOf,
+	andThen,
+	andThenAsync,
+	flatMap,
+	flatMapAsync,
+	map,
+	mapAsync,
+	mapError,
+	mapErrorAsync,
+	match,
+	matchAsync,
+	orElse,
+	orElseAsync,
+	tap,
+	tapAsync,
+	tapError,
+	tapErrorAsync,
+	unwrapOr,
+	unwrapOrAsync,
+	unwrapOrElse,
+	unwrapOrElseAsync,
+} from "./combinators";
+export {
+	type ErrorsOf,
+	type Partitioned,
+	type ResultsOf,
+	type TraverseOptions,
+	all,
+	allAsync,
+	any,
+	anyAsync,
+	collectErrors,
+	collectErrorsAsync,
+	partition,
+	partitionAsync,
+	traverse,
+	traverseAsync,
+} from "./collections";
 export { exhaustiveGuard } from "./exhaustiveGuard";
+export {
+	type ErrorMapper,
+	fromPromise,
+	fromThrowable,
+	type NormalizedError,
+	normalizeError,
+	type SafeFunction,
+	safe,
+} from "./safe";
+export {
+	causeChain,
+	type DefinedErrors,
+	defineErrors,
+	type ErrorSchema,
+	type MatchErrorHandlers,
+	matchError,
+	type TaggedError,
+	type TaggedErrorConstructor,
+	type TaggedErrorOf,
+	type TaggedErrorOptions,
+} from "./taggedErrors";
+export {
+	bind,
+	type TryChainResult,
+	tryChain,
+	tryChainAsync,
+} from "./tryChain";
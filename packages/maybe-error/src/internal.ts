@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Helpers shared by the modules of this package, not part of its public API
+ */
+
+import { type DefiniteSuccess, type MaybeError, success } from "./MaybeError";
+
+/**
+ * A value, or a promise of it
+ */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * Calls {@link success} with a result of a generic type, typed as a MaybeError with the
+ * given error type. `success()` can't tell whether such a type is undefined, so it would
+ * not accept the result otherwise.
+ */
+export const succeed = <T, TError>(result: T): MaybeError<T, TError> =>
+	(success as (result: T) => DefiniteSuccess<T>)(result);
@@ -0,0 +1,141 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import {
+	fromPromise,
+	fromThrowable,
+	type NormalizedError,
+	normalizeError,
+	safe,
+} from "./safe";
+
+describe("normalizeError()", () => {
+	it("should keep the details of errors", () => {
+		const cause = new Error("root cause");
+		const error = Object.assign(new TypeError("oops"), { cause });
+
+		expect(normalizeError(error)).toEqual({
+			name: "TypeError",
+			message: "oops",
+			cause,
+			stack: error.stack as string,
+		});
+	});
+
+	it("should read error-like objects", () => {
+		expect(normalizeError({ name: "AbortError", message: "aborted" })).toEqual({
+			name: "AbortError",
+			message: "aborted",
+		});
+		expect(normalizeError({ message: "no name" })).toEqual({
+			name: "Error",
+			message: "no name",
+		});
+	});
+
+	it("should wrap other thrown values", () => {
+		expect(normalizeError("oops")).toEqual({
+			name: "Error",
+			message: "oops",
+			cause: "oops",
+		});
+		expect(normalizeError(42)).toEqual({
+			name: "Error",
+			message: "42",
+			cause: 42,
+		});
+
+		const bare = Object.create(null);
+		expect(normalizeError(bare)).toEqual({
+			name: "Error",
+			message: "[object Object]",
+			cause: bare,
+		});
+	});
+});
+
+describe("fromThrowable()", () => {
+	it("should return the result as a success", () => {
+		const result = fromThrowable(() => JSON.parse('{"a":1}') as { a: number });
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<{ a: number }, NormalizedError>
+		>();
+		expect(result).toEqual(success({ a: 1 }));
+	});
+
+	it("should return what was thrown as a normalized failure", () => {
+		const result = fromThrowable(() => JSON.parse("{"));
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.name).toBe("SyntaxError");
+		}
+	});
+
+	it("should map errors with a custom mapper", () => {
+		const result = fromThrowable(
+			() => {
+				throw new Error("boom");
+			},
+			(error) => `Failed: ${normalizeError(error).message}`,
+		);
+		expectTypeOf(result).toEqualTypeOf<MaybeError<never, string>>();
+		expect(result).toEqual(fail("Failed: boom"));
+	});
+});
+
+describe("fromPromise()", () => {
+	it("should return the resolved value as a success", async () => {
+		const result = await fromPromise(Promise.resolve(1));
+		expectTypeOf(result).toEqualTypeOf<MaybeError<number, NormalizedError>>();
+		expect(result).toEqual(success(1));
+	});
+
+	it("should return the rejection as a failure", async () => {
+		expect(await fromPromise(Promise.reject("nope"))).toEqual(
+			fail({ name: "Error", message: "nope", cause: "nope" }),
+		);
+		expect(
+			await fromPromise(Promise.reject(new Error("nope")), () => "failed"),
+		).toEqual(fail("failed"));
+	});
+});
+
+describe("safe()", () => {
+	it("should wrap sync functions", () => {
+		const divide = safe((a: number, b: number) => {
+			if (b === 0) {
+				throw new RangeError("Division by zero");
+			}
+			return a / b;
+		});
+
+		expectTypeOf(divide).toEqualTypeOf<
+			(a: number, b: number) => MaybeError<number, NormalizedError>
+		>();
+		expect(divide(6, 3)).toEqual(success(2));
+
+		const result = divide(1, 0);
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.name).toBe("RangeError");
+			expect(result.error.message).toBe("Division by zero");
+		}
+	});
+
+	it("should wrap async functions", async () => {
+		const load = safe(
+			async (id: string) => {
+				if (id === "missing") {
+					throw new Error("Not found");
+				}
+				return { id };
+			},
+			(error) => normalizeError(error).message,
+		);
+
+		expectTypeOf(load).toEqualTypeOf<
+			(id: string) => Promise<MaybeError<{ id: string }, string>>
+		>();
+		expect(await load("1")).toEqual(success({ id: "1" }));
+		expect(await load("missing")).toEqual(fail("Not found"));
+	});
+});
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Converting thrown errors and rejected promises into MaybeError values
+ *
+ * Replaces `try { ... } catch (e) { return fail(e instanceof Error ? e.message : String(e)); }`
+ * blocks. Thrown values are normalized into a {@link NormalizedError}, or mapped with a
+ * custom function.
+ *
+ * @example
+ * ```typescript
+ * const config = fromThrowable(() => JSON.parse(text));
+ * const response = await fromPromise(fetch(url));
+ * const readFileSafely = safe(readFile);
+ * ```
+ */
+
+import { succeed } from "./internal";
+import { fail, type MaybeError } from "./MaybeError";
+
+/**
+ * A thrown value normalized by {@link normalizeError}
+ */
+export type NormalizedError = {
+	/**
+	 * The name of the error, such as `"TypeError"`, or `"Error"` for thrown values that are
+	 * not errors
+	 */
+	name: string;
+	message: string;
+	/**
+	 * The `cause` of an error, or the thrown value itself when it is not an error
+	 */
+	cause?: unknown;
+	stack?: string;
+};
+
+/**
+ * Maps a thrown value or rejection reason to an error type
+ */
+export type ErrorMapper<TError> = (error: unknown) => TError;
+
+const messageOf = (error: unknown) => {
+	try {
+		return String(error);
+	} catch {
+		// Objects without a prototype have no toString
+		return Object.prototype.toString.call(error);
+	}
+};
+
+/**
+ * Normalizes any thrown value into a {@link NormalizedError}.
+ *
+ * Errors, and objects with a string `message` such as DOMExceptions from other realms,
+ * keep their name, message, cause and stack. Other values become an `"Error"` with the
+ * value as its message and cause.
+ *
+ * @param error - The thrown value
+ * @returns The normalized error
+ * @example
+ * ```typescript
+ * normalizeError(new TypeError("oops")); // { name: "TypeError", message: "oops", stack: "..." }
+ * normalizeError("oops"); // { name: "Error", message: "oops", cause: "oops" }
+ * ```
+ */
+export const normalizeError = (error: unknown): NormalizedError => {
+	if (
+		typeof error === "object" &&
+		error !== null &&
+		typeof (error as { message?: unknown }).message === "string"
+	) {
+		const { name, message, cause, stack } = error as {
+			name?: unknown;
+			message: string;
+			cause?: unknown;
+			stack?: unknown;
+		};
+
+		const normalized: NormalizedError = {
+			name: typeof name === "string" ? name : "Error",
+			message,
+		};
+		if (cause !== undefined) {
+			normalized.cause = cause;
+		}
+		if (typeof stack === "string") {
+			normalized.stack = stack;
+		}
+		return normalized;
+	}
+
+	return { name: "Error", message: messageOf(error), cause: error };
+};
+
+/**
+ * Calls a function that may throw, returning its result as a success or what it threw as
+ * a failure.
+ *
+ * @param fn - The function to call
+ * @param mapError - Maps the thrown value to the error (defaults to {@link normalizeError})
+ * @returns The result of the function, or the mapped error
+ * @example
+ * ```typescript
+ * // MaybeError<unknown, NormalizedError>
+ * const parsed = fromThrowable(() => JSON.parse(text));
+ *
+ * // MaybeError<unknown, string>
+ * const parsedWithMessage = fromThrowable(
+ *   () => JSON.parse(text),
+ *   (error) => `Invalid JSON: ${normalizeError(error).message}`,
+ * );
+ * ```
+ */
+export const fromThrowable = <TResult, TError = NormalizedError>(
+	fn: () => TResult,
+	mapError: ErrorMapper<TError> = normalizeError as ErrorMapper<TError>,
+): MaybeError<TResult, TError> => {
+	let result: TResult;
+	try {
+		result = fn();
+	} catch (error) {
+		return fail(mapError(error));
+	}
+	return succeed<TResult, TError>(result);
+};
+
+/**
+ * Awaits a promise, returning its value as a success or its rejection reason as a
+ * failure.
+ *
+ * @param promise - The promise to await
+ * @param mapError - Maps the rejection reason to the error (defaults to
+ * {@link normalizeError})
+ * @returns A promise of the value, or of the mapped error
+ * @example
+ * ```typescript
+ * const response = await fromPromise(fetch(url));
+ * if (!response.success) {
+ *   console.error("Request failed:", response.error.message);
+ * }
+ * ```
+ */
+export const fromPromise = async <TResult, TError = NormalizedError>(
+	promise: PromiseLike<TResult>,
+	mapError: ErrorMapper<TError> = normalizeError as ErrorMapper<TError>,
+): Promise<MaybeError<TResult, TError>> => {
+	let result: TResult;
+	try {
+		result = await promise;
+	} catch (error) {
+		return fail(mapError(error));
+	}
+	return succeed<TResult, TError>(result);
+};
+
+/**
+ * The function returned by {@link safe}: the same parameters, returning a MaybeError, or
+ * a promise of one for async functions
+ */
+export type SafeFunction<TArgs extends unknown[], TResult, TError> = (
+	...args: TArgs
+) => TResult extends PromiseLike<infer TValue>
+	? Promise<MaybeError<TValue, TError>>
+	: MaybeError<TResult, TError>;
+
+/**
+ * Wraps a function that may throw into one that returns a MaybeError instead.
+ *
+ * Functions that return a promise, such as async functions, return a promise of a
+ * MaybeError, with rejections as failures.
+ *
+ * @param fn - The function to wrap
+ * @param mapError - Maps thrown values and rejections to the error (defaults to
+ * {@link normalizeError})
+ * @returns The wrapped function
+ * @example
+ * ```typescript
+ * const parseJson = safe(JSON.parse);
+ * const result = parseJson(text); // MaybeError<any, NormalizedError>
+ *
+ * const fetchUser = safe(async (id: string) => {
+ *   const response = await fetch(`/api/users/${id}`);
+ *   return (await response.json()) as User;
+ * });
+ * const user = await fetchUser("1"); // MaybeError<User, NormalizedError>
+ * ```
+ */
+export const safe = <
+	TArgs extends unknown[],
+	TResult,
+	TError = NormalizedError,
+>(
+	fn: (...args: TArgs) => TResult,
+	mapError: ErrorMapper<TError> = normalizeError as ErrorMapper<TError>,
+): SafeFunction<TArgs, TResult, TError> =>
+	((...args: TArgs) => {
+		const maybe = fromThrowable(() => fn(...args), mapError);
+		if (
+			maybe.success &&
+			typeof (maybe.result as { then?: unknown } | null)?.then === "function"
+		) {
+			return fromPromise(maybe.result as PromiseLike<unknown>, mapError);
+		}
+		return maybe;
+	}) as SafeFunction<TArgs, TResult, TError>;
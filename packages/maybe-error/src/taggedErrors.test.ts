@@ -0,0 +1,176 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { type DefiniteError, fail, type MaybeError } from "./MaybeError";
+import {
+	causeChain,
+	defineErrors,
+	type ErrorSchema,
+	matchError,
+	type TaggedError,
+	type TaggedErrorOf,
+} from "./taggedErrors";
+
+// A minimal Standard Schema, standing in for a Zod or Valibot schema
+const schema = <TOutput>(
+	check: (value: unknown) => string | undefined,
+	transform: (value: unknown) => TOutput = (value) => value as TOutput,
+): ErrorSchema<TOutput> & {
+	"~standard": { types: { input: TOutput; output: TOutput } };
+} => ({
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value) => {
+			const message = check(value);
+			return message === undefined
+				? { value: transform(value) }
+				: { issues: [{ message, path: ["id"] }] };
+		},
+		types: undefined as unknown as { input: TOutput; output: TOutput },
+	},
+});
+
+const AppErrors = defineErrors({
+	NotFound: schema<{ id: string }>((value) =>
+		typeof (value as { id?: unknown }).id === "string"
+			? undefined
+			: "Expected a string",
+	),
+	Conflict: schema<{ version: number }>(() => undefined),
+});
+
+type AppError = TaggedErrorOf<typeof AppErrors>;
+
+describe("defineErrors()", () => {
+	it("should create errors tagged with their type", () => {
+		const error = AppErrors.NotFound({ id: "1" });
+
+		expectTypeOf(error).toEqualTypeOf<
+			TaggedError<"NotFound", { id: string }>
+		>();
+		expect(error).toEqual({ type: "NotFound", data: { id: "1" } });
+	});
+
+	it("should keep the output of the schema", () => {
+		const Errors = defineErrors({
+			Trimmed: schema<{ id: string }>(
+				() => undefined,
+				(value) => ({ id: (value as { id: string }).id.trim() }),
+			),
+		});
+
+		expect(Errors.Trimmed({ id: " 1 " }).data).toEqual({ id: "1" });
+	});
+
+	it("should throw for invalid data", () => {
+		expect(() =>
+			AppErrors.NotFound({ id: 1 } as unknown as { id: string }),
+		).toThrow('Invalid data for the "NotFound" error: id: Expected a string');
+	});
+
+	it("should throw for schemas that validate asynchronously", () => {
+		const Errors = defineErrors({
+			Async: {
+				"~standard": {
+					version: 1,
+					vendor: "test",
+					validate: async (value: unknown) => ({ value }),
+				},
+			},
+		});
+
+		expect(() => Errors.Async({})).toThrow(
+			'The schema of the "Async" error must validate synchronously',
+		);
+	});
+
+	it("should keep the failure that caused an error", () => {
+		const lowLevel = fail("ECONNRESET" as const);
+		const error = AppErrors.Conflict({ version: 2 }, { cause: lowLevel });
+
+		expectTypeOf(error.cause).toEqualTypeOf<DefiniteError<"ECONNRESET">>();
+		expect(error).toEqual({
+			type: "Conflict",
+			data: { version: 2 },
+			cause: lowLevel,
+		});
+
+		const result: MaybeError<number, AppError> = fail(error);
+		expect(result.success).toBe(false);
+	});
+
+	it("should check for defined errors with is()", () => {
+		const value: unknown = AppErrors.NotFound({ id: "1" });
+
+		expect(AppErrors.is(value)).toBe(true);
+		expect(AppErrors.is(value, "NotFound")).toBe(true);
+		expect(AppErrors.is(value, "Conflict")).toBe(false);
+		expect(AppErrors.is({ type: "Other", data: {} })).toBe(false);
+		expect(AppErrors.is({ type: "toString", data: {} })).toBe(false);
+		expect(AppErrors.is("NotFound")).toBe(false);
+
+		if (AppErrors.is(value, "NotFound")) {
+			expectTypeOf(value.data).toEqualTypeOf<{ id: string }>();
+		}
+	});
+});
+
+describe("matchError()", () => {
+	const statusOf = (error: AppError) =>
+		matchError(error, {
+			NotFound: ({ data }) => `missing ${data.id}`,
+			Conflict: ({ data }) => data.version,
+		});
+
+	it("should call the handler for the type of the error", () => {
+		expectTypeOf(statusOf).returns.toEqualTypeOf<string | number>();
+		expect(statusOf(AppErrors.NotFound({ id: "1" }))).toBe("missing 1");
+		expect(statusOf(AppErrors.Conflict({ version: 3 }))).toBe(3);
+	});
+
+	it("should match any error union with a type", () => {
+		type FormError =
+			| { type: "validation"; error: string[] }
+			| { type: "handler"; error: string }
+			| { type: "unknown" };
+
+		const message = (error: FormError) =>
+			matchError(error, {
+				validation: ({ error }) => error.join(", "),
+				handler: ({ error }) => error,
+				unknown: () => "Something went wrong",
+			});
+
+		expect(message({ type: "validation", error: ["a", "b"] })).toBe("a, b");
+		expect(message({ type: "unknown" })).toBe("Something went wrong");
+	});
+
+	it("should require a handler for every type", () => {
+		const error = AppErrors.Conflict({ version: 1 }) as AppError;
+
+		expect(() =>
+			// @ts-expect-error Conflict is not handled
+			matchError(error, { NotFound: () => 404 }),
+		).toThrow("Exhaustive guard triggered with value: Conflict");
+	});
+
+	it("should not call Object.prototype members for unknown types", () => {
+		const handlers = { NotFound: () => 404, Conflict: () => 409 };
+
+		for (const type of ["toString", "constructor", "__proto__"]) {
+			expect(() =>
+				matchError({ type } as unknown as AppError, handlers),
+			).toThrow(`Exhaustive guard triggered with value: ${type}`);
+		}
+	});
+});
+
+describe("causeChain()", () => {
+	it("should list the failures that caused an error", () => {
+		const root = fail("ECONNRESET");
+		const middle = fail(AppErrors.Conflict({ version: 1 }, { cause: root }));
+		const error = AppErrors.NotFound({ id: "1" }, { cause: middle });
+
+		expect(causeChain(error)).toEqual([middle, root]);
+		expect(causeChain(AppErrors.NotFound({ id: "2" }))).toEqual([]);
+	});
+});
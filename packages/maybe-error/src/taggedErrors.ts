@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Structured errors tagged with a `type`, with causes and exhaustive matching
+ *
+ * {@link defineErrors} turns a map of payload schemas into constructors and type guards for
+ * errors like `{ type: "NotFound", data: { id: "1" } }`. Any schema that implements
+ * Standard Schema works, such as Zod, Valibot or ArkType schemas, so this package needs
+ * none of them. {@link matchError} handles every type of an error union, including the
+ * `{ type: "validation" }` errors of formAction.
+ *
+ * @example
+ * ```typescript
+ * const AppErrors = defineErrors({
+ *   NotFound: z.object({ id: z.string() }),
+ *   Conflict: z.object({ version: z.number() }),
+ * });
+ *
+ * const result = fail(AppErrors.NotFound({ id: "1" }));
+ * ```
+ */
+
+import { exhaustiveGuard } from "./exhaustiveGuard";
+import type { DefiniteError } from "./MaybeError";
+
+/**
+ * A schema that implements Standard Schema, such as a Zod, Valibot or ArkType schema
+ *
+ * @template TOutput - The type of the validated value
+ */
+export type ErrorSchema<TOutput = unknown> = {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => ErrorSchemaResult<TOutput> | PromiseLike<ErrorSchemaResult<TOutput>>;
+		readonly types?: {
+			readonly input: unknown;
+			readonly output: TOutput;
+		};
+	};
+};
+
+type ErrorSchemaResult<TOutput> =
+	| { readonly value: TOutput; readonly issues?: undefined }
+	| {
+			readonly issues: ReadonlyArray<{
+				readonly message: string;
+				readonly path?: ReadonlyArray<
+					PropertyKey | { readonly key: PropertyKey }
+				>;
+			}>;
+	  };
+
+type ErrorSchemaInput<TSchema extends ErrorSchema> = NonNullable<
+	TSchema["~standard"]["types"]
+>["input"];
+
+type ErrorSchemaOutput<TSchema extends ErrorSchema> = NonNullable<
+	TSchema["~standard"]["types"]
+>["output"];
+
+/**
+ * An error tagged with its `type`, with a payload and an optional cause
+ *
+ * @template TType - The tag of the error
+ * @template TData - The payload of the error
+ * @template TCause - The failure that caused the error, if any
+ * @example
+ * ```typescript
+ * const error: TaggedError<"NotFound", { id: string }> = {
+ *   type: "NotFound",
+ *   data: { id: "1" },
+ * };
+ * ```
+ */
+export type TaggedError<
+	TType extends string = string,
+	TData = unknown,
+	TCause extends DefiniteError<unknown> | undefined = undefined,
+> = {
+	type: TType;
+	data: TData;
+} & ([TCause] extends [undefined]
+	? { cause?: DefiniteError<unknown> }
+	: { cause: TCause });
+
+/**
+ * Options for the constructors of {@link defineErrors}
+ *
+ * @template TCause - The failure that caused the error
+ */
+export type TaggedErrorOptions<TCause extends DefiniteError<unknown>> = {
+	/**
+	 * The lower-level failure that caused the error
+	 */
+	cause: TCause;
+};
+
+/**
+ * Creates a {@link TaggedError} from its payload, validated by the error's schema
+ */
+export type TaggedErrorConstructor<
+	TType extends string,
+	TSchema extends ErrorSchema,
+> = {
+	(
+		data: ErrorSchemaInput<TSchema>,
+	): TaggedError<TType, ErrorSchemaOutput<TSchema>>;
+	<TCause extends DefiniteError<unknown>>(
+		data: ErrorSchemaInput<TSchema>,
+		options: TaggedErrorOptions<TCause>,
+	): TaggedError<TType, ErrorSchemaOutput<TSchema>, TCause>;
+};
+
+type ErrorUnion<TSchemas extends Record<string, ErrorSchema>> = {
+	[TType in keyof TSchemas & string]: TaggedError<
+		TType,
+		ErrorSchemaOutput<TSchemas[TType]>
+	>;
+}[keyof TSchemas & string];
+
+/**
+ * The constructors and type guard returned by {@link defineErrors}
+ */
+export type DefinedErrors<TSchemas extends Record<string, ErrorSchema>> = {
+	[TType in keyof TSchemas & string]: TaggedErrorConstructor<
+		TType,
+		TSchemas[TType]
+	>;
+} & {
+	/**
+	 * Checks whether a value is one of the defined errors, or an error of the given type
+	 */
+	is: {
+		(value: unknown): value is ErrorUnion<TSchemas>;
+		<TType extends keyof TSchemas & string>(
+			value: unknown,
+			type: TType,
+		): value is Extract<ErrorUnion<TSchemas>, { type: TType }>;
+	};
+	/**
+	 * The schemas the errors were defined with
+	 */
+	schemas: TSchemas;
+};
+
+/**
+ * The union of the errors created by {@link defineErrors}
+ *
+ * @template TErrors - The type of the value returned by defineErrors
+ * @example
+ * ```typescript
+ * type AppError = TaggedErrorOf<typeof AppErrors>;
+ * ```
+ */
+export type TaggedErrorOf<
+	TErrors extends { schemas: Record<string, ErrorSchema> },
+> = ErrorUnion<TErrors["schemas"]>;
+
+const formatIssues = (
+	issues: Extract<ErrorSchemaResult<unknown>, { issues: unknown }>["issues"],
+) =>
+	issues
+		.map(({ message, path }) => {
+			const keys = path?.map((segment) =>
+				String(typeof segment === "object" ? segment.key : segment),
+			);
+			return keys && keys.length > 0
+				? `${keys.join(".")}: ${message}`
+				: message;
+		})
+		.join("; ");
+
+/**
+ * Defines tagged errors from a map of payload schemas.
+ *
+ * Each key becomes a constructor that validates its payload against the schema and
+ * returns `{ type, data }`, with `data` being the schema's output. An invalid payload, or
+ * a schema that only validates asynchronously, throws a TypeError, as it is a bug in the
+ * code creating the error. The second argument can pass the lower-level failure that
+ * caused the error, which is kept as `cause` with its type.
+ *
+ * `is` checks whether a value is one of the defined errors by its `type`, such as for
+ * errors received from a fetcher. `is` and `schemas` can't be used as error types.
+ *
+ * @param schemas - A schema for the payload of each error type
+ * @returns The constructors of the errors, and the `is` type guard
+ * @example
+ * ```typescript
+ * const AppErrors = defineErrors({
+ *   NotFound: z.object({ id: z.string() }),
+ *   Conflict: z.object({ version: z.number() }),
+ * });
+ * type AppError = TaggedErrorOf<typeof AppErrors>;
+ *
+ * const saveUser = (user: User): MaybeError<User, AppError> => {
+ *   const saved = writeUser(user);
+ *   if (!saved.success) {
+ *     return fail(AppErrors.Conflict({ version: user.version }, { cause: saved }));
+ *   }
+ *   return success(user);
+ * };
+ *
+ * if (AppErrors.is(error, "NotFound")) {
+ *   console.log(error.data.id);
+ * }
+ * ```
+ */
+export const defineErrors = <
+	const TSchemas extends Record<string, ErrorSchema> & {
+		// Taken by the type guard and the schemas
+		is?: never;
+		schemas?: never;
+	},
+>(
+	schemas: TSchemas,
+): DefinedErrors<TSchemas> => {
+	const constructors: Record<string, unknown> = {};
+
+	for (const [type, schema] of Object.entries(schemas)) {
+		constructors[type] = (
+			data: unknown,
+			options?: TaggedErrorOptions<DefiniteError<unknown>>,
+		) => {
+			const validated = schema["~standard"].validate(data);
+			if ("then" in validated) {
+				throw new TypeError(
+					`The schema of the "${type}" error must validate synchronously`,
+				);
+			}
+			if (validated.issues) {
+				throw new TypeError(
+					`Invalid data for the "${type}" error: ${formatIssues(validated.issues)}`,
+				);
+			}
+
+			return options
+				? { type, data: validated.value, cause: options.cause }
+				: { type, data: validated.value };
+		};
+	}
+
+	const types = Object.keys(schemas);
+	const is = (value: unknown, type?: string) => {
+		if (typeof value !== "object" || value === null || !("data" in value)) {
+			return false;
+		}
+		const { type: valueType } = value as { type?: unknown };
+		return (
+			typeof valueType === "string" &&
+			types.includes(valueType) &&
+			(type === undefined || valueType === type)
+		);
+	};
+
+	return Object.assign(constructors, {
+		is,
+		schemas,
+	}) as DefinedErrors<TSchemas>;
+};
+
+/**
+ * A handler for each type of an error union, for {@link matchError}
+ *
+ * @template TError - A union of errors with a string `type`
+ */
+export type MatchErrorHandlers<TError extends { type: string }> = {
+	[TType in TError["type"]]: (
+		error: Extract<TError, { type: TType }>,
+	) => unknown;
+};
+
+/**
+ * Calls the handler for the `type` of an error and returns its value.
+ *
+ * Every type of the union needs a handler, so adding an error type is a compile error
+ * until it is handled. Errors with a type that has no handler at runtime, such as data
+ * from an older server, throw through {@link exhaustiveGuard}.
+ *
+ * @param error - An error with a string `type`, such as a {@link TaggedError} or a
+ * formAction error
+ * @param handlers - A handler for each type
+ * @returns The value returned by the handler
+ * @example
+ * ```typescript
+ * const status = matchError(error, {
+ *   NotFound: ({ data }) => 404,
+ *   Conflict: ({ data, cause }) => 409,
+ * });
+ * ```
+ */
+export const matchError = <
+	TError extends { type: string },
+	THandlers extends MatchErrorHandlers<TError>,
+>(
+	error: TError,
+	handlers: THandlers,
+): ReturnType<THandlers[keyof THandlers]> => {
+	// Own handlers only, so a type such as "toString" does not call an Object.prototype member
+	if (!Object.keys(handlers).includes(error.type)) {
+		return exhaustiveGuard(error.type as never);
+	}
+	const handler = (
+		handlers as unknown as Record<string, (error: TError) => unknown>
+	)[error.type];
+	return handler(error) as ReturnType<THandlers[keyof THandlers]>;
+};
+
+/**
+ * Returns the chain of failures that caused an error, from the closest to the root cause.
+ *
+ * Each cause is a failure whose error can have a `cause` of its own.
+ *
+ * @param error - An error with an optional `cause`, such as a {@link TaggedError}
+ * @returns The failures in the cause chain
+ * @example
+ * ```typescript
+ * const root = causeChain(error).pop()?.error;
+ * ```
+ */
+export const causeChain = (error: {
+	cause?: DefiniteError<unknown>;
+}): DefiniteError<unknown>[] => {
+	const chain: DefiniteError<unknown>[] = [];
+	let cause = error.cause;
+	while (cause && !chain.includes(cause)) {
+		chain.push(cause);
+		cause = (
+			cause.error as { cause?: DefiniteError<unknown> } | null | undefined
+		)?.cause;
+	}
+	return chain;
+};
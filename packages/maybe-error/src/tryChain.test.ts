@@ -0,0 +1,109 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "./MaybeError";
+import { bind, tryChain, tryChainAsync } from "./tryChain";
+
+type User = { id: string; orgId: string };
+type Org = { id: string; name: string };
+
+const getUser = (id: string): MaybeError<User, "user-not-found"> =>
+	id === "missing" ? fail("user-not-found") : success({ id, orgId: "acme" });
+
+const getOrg = (id: string): MaybeError<Org, { code: 404 }> =>
+	id === "acme" ? success({ id, name: "Acme" }) : fail({ code: 404 });
+
+describe("tryChain()", () => {
+	it("should return the generator's result when every step succeeds", () => {
+		const result = tryChain(function* () {
+			const user = yield* bind(getUser("1"));
+			const org = yield* bind(getOrg(user.orgId));
+			return success({ user, org });
+		});
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<{ user: User; org: Org }, "user-not-found" | { code: 404 }>
+		>();
+		expect(result).toEqual(
+			success({
+				user: { id: "1", orgId: "acme" },
+				org: { id: "acme", name: "Acme" },
+			}),
+		);
+	});
+
+	it("should stop at the first failure", () => {
+		const steps: string[] = [];
+
+		const result = tryChain(function* () {
+			steps.push("start");
+			const user = yield* bind(getUser("missing"));
+			steps.push("after user");
+			const org = yield* bind(getOrg(user.orgId));
+			return success(org);
+		});
+
+		expect(result).toEqual(fail("user-not-found"));
+		expect(steps).toEqual(["start"]);
+	});
+
+	it("should include the errors of the returned MaybeError", () => {
+		const result = tryChain(function* () {
+			const user = yield* bind(getUser("1"));
+			if (user.orgId !== "acme") {
+				return fail("wrong-org" as const);
+			}
+			return success();
+		});
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<undefined, "user-not-found" | "wrong-org">
+		>();
+		expect(result).toEqual(success());
+	});
+
+	it("should run finally blocks when a failure stops the generator", () => {
+		let cleanedUp = false;
+
+		const result = tryChain(function* () {
+			try {
+				yield* bind(getOrg("unknown"));
+				return success();
+			} finally {
+				cleanedUp = true;
+			}
+		});
+
+		expect(result).toEqual(fail({ code: 404 }));
+		expect(cleanedUp).toBe(true);
+	});
+});
+
+describe("tryChainAsync()", () => {
+	const fetchUser = async (id: string) => getUser(id);
+	const fetchOrg = async (id: string) => getOrg(id);
+
+	it("should await between steps", async () => {
+		const result = await tryChainAsync(async function* () {
+			const user = yield* bind(await fetchUser("1"));
+			const org = yield* bind(await fetchOrg(user.orgId));
+			return success(org.name);
+		});
+
+		expectTypeOf(result).toEqualTypeOf<
+			MaybeError<string, "user-not-found" | { code: 404 }>
+		>();
+		expect(result).toEqual(success("Acme"));
+	});
+
+	it("should stop at the first failure", async () => {
+		let reachedOrg = false;
+
+		const result = await tryChainAsync(async function* () {
+			const user = yield* bind(await fetchUser("missing"));
+			reachedOrg = true;
+			return fetchOrg(user.orgId);
+		});
+
+		expect(result).toEqual(fail("user-not-found"));
+		expect(reachedOrg).toBe(false);
+	});
+});
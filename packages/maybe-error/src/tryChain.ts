@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Generator-based chaining of MaybeError values
+ *
+ * Inside a {@link tryChain} generator, `yield* bind(maybe)` gives the result of a
+ * success, and a failure ends the chain as its result. This reads like code that throws,
+ * without an `if (!result.success) return result;` check after every step.
+ *
+ * @example
+ * ```typescript
+ * const result = tryChain(function* () {
+ *   const user = yield* bind(getUser(id));
+ *   const org = yield* bind(getOrg(user.orgId));
+ *   return success({ user, org });
+ * });
+ * ```
+ */
+
+import type { AnyMaybeError, ErrorOf, ResultOf } from "./combinators";
+import type { DefiniteError, MaybeError } from "./MaybeError";
+
+/**
+ * Unwraps a MaybeError inside a {@link tryChain} or {@link tryChainAsync} generator.
+ *
+ * `yield* bind(maybe)` evaluates to the result of a success. A failure is yielded to the
+ * chain, which stops the generator and returns the failure.
+ *
+ * @param maybe - The MaybeError to unwrap
+ * @returns A generator to delegate to with `yield*`
+ * @example
+ * ```typescript
+ * const user = yield* bind(getUser(id));
+ * ```
+ */
+export const bind = function* <TMaybe extends AnyMaybeError>(
+	maybe: TMaybe,
+): Generator<DefiniteError<ErrorOf<TMaybe>>, ResultOf<TMaybe>, unknown> {
+	if (!maybe.success) {
+		yield maybe as DefiniteError<ErrorOf<TMaybe>>;
+		// tryChain never resumes a generator after a failure
+		throw new Error("A tryChain generator was resumed after a failure");
+	}
+	return maybe.result as ResultOf<TMaybe>;
+};
+
+/**
+ * The MaybeError returned by a {@link tryChain} generator: the result of its returned
+ * MaybeError, and the errors of every step and of its returned MaybeError
+ */
+export type TryChainResult<TYield, TReturn> = MaybeError<
+	ResultOf<TReturn>,
+	ErrorOf<TYield> | ErrorOf<TReturn>
+>;
+
+/**
+ * Runs a generator that unwraps MaybeError values with `yield* bind(...)`, stopping at
+ * the first failure.
+ *
+ * The result is the MaybeError the generator returns, or the first failure. Its error
+ * type is the union of the error types of every step. `finally` blocks in the generator
+ * run when a failure stops it.
+ *
+ * @param body - A generator function that returns a MaybeError
+ * @returns The returned MaybeError, or the first failure
+ * @example
+ * ```typescript
+ * // MaybeError<{ user: User; org: Org }, "user-not-found" | "org-not-found">
+ * const result = tryChain(function* () {
+ *   const user = yield* bind(getUser(id));
+ *   const org = yield* bind(getOrg(user.orgId));
+ *   return success({ user, org });
+ * });
+ * ```
+ */
+export const tryChain = <
+	TYield extends DefiniteError<unknown>,
+	TReturn extends AnyMaybeError,
+>(
+	body: () => Generator<TYield, TReturn, unknown>,
+): TryChainResult<TYield, TReturn> => {
+	const generator = body();
+	const step = generator.next();
+	if (!step.done) {
+		generator.return(undefined as unknown as TReturn);
+	}
+	return step.value as TryChainResult<TYield, TReturn>;
+};
+
+/**
+ * The async version of {@link tryChain}, for an async generator that can `await`
+ * between steps.
+ *
+ * @param body - An async generator function that returns a MaybeError
+ * @returns A promise of the returned MaybeError, or of the first failure
+ * @example
+ * ```typescript
+ * const result = await tryChainAsync(async function* () {
+ *   const user = yield* bind(await fetchUser(id));
+ *   const org = yield* bind(await fetchOrg(user.orgId));
+ *   return success({ user, org });
+ * });
+ * ```
+ */
+export const tryChainAsync = async <
+	TYield extends DefiniteError<unknown>,
+	TReturn extends AnyMaybeError,
+>(
+	body: () => AsyncGenerator<TYield, TReturn, unknown>,
+): Promise<TryChainResult<TYield, TReturn>> => {
+	const generator = body();
+	const step = await generator.next();
+	if (!step.done) {
+		await generator.return(undefined as unknown as TReturn);
+	}
+	return step.value as TryChainResult<TYield, TReturn>;
+};
@@ -0,0 +1,157 @@
+import { type ReactNode, use, useContext, useState } from "react";
+import {
+	createFetchCache,
+	type DehydratedFetchCache,
+	FetchCacheContext,
+	type FetchCacheOptions,
+	useFetchCache,
+} from "./fetchCache";
+import {
+	FetchCacheServerRenderContext,
+	fetchCacheScriptId,
+	readFetchCacheScript,
+	serializeFetchCache,
+} from "./fetchCacheServerRender";
+import {
+	type RouteLoaderBuild,
+	type RouteLoaderFetchArgs,
+	routeLoaderFetch,
+} from "./routeLoaderFetch";
+
+/**
+ * The server build and incoming request, for loading data while rendering on the server
+ */
+export type FetchCacheServerOptions = RouteLoaderFetchArgs & {
+	/**
+	 * The server build, such as `virtual:react-router/server-build`
+	 */
+	build: RouteLoaderBuild;
+};
+
+/**
+ * Props for FetchCacheProvider
+ */
+export type FetchCacheProviderProps = FetchCacheOptions & {
+	/**
+	 * On the server, makes useCachedFetch call the route loaders of cache misses with
+	 * {@link routeLoaderFetch} while rendering, instead of rendering the loading state
+	 */
+	server?: FetchCacheServerOptions;
+	children: ReactNode;
+};
+
+/**
+ * Provides a fetch cache created when the provider mounts.
+ *
+ * Render it in the root route so that each server render gets its own cache, instead of
+ * sharing the default cache between requests, while the browser keeps a single cache.
+ *
+ * To render useCachedFetch data on the server, render it around `ServerRouter` in
+ * `entry.server.tsx` with the `server` option, and around `HydratedRouter` in
+ * `entry.client.tsx`. Server renders then wait for the loaders of cache misses, and
+ * {@link FetchCacheScript} sends their data to the browser cache.
+ *
+ * @example
+ * ```tsx
+ * // app/root.tsx
+ * export default function App() {
+ *   return (
+ *     <FetchCacheProvider maxEntries={500}>
+ *       <Outlet />
+ *     </FetchCacheProvider>
+ *   );
+ * }
+ * ```
+ */
+export const FetchCacheProvider = ({
+	children,
+	server,
+	...options
+}: FetchCacheProviderProps) => {
+	const [cache] = useState(() => {
+		if (server) {
+			return createFetchCache({
+				...options,
+				load: routeLoaderFetch(server.build, server),
+			});
+		}
+
+		const cache = createFetchCache(options);
+		const rendered = readFetchCacheScript();
+		if (rendered) {
+			cache.hydrate(JSON.parse(rendered) as DehydratedFetchCache);
+		}
+		return cache;
+	});
+
+	return (
+		<FetchCacheContext.Provider value={cache}>
+			<FetchCacheServerRenderContext.Provider value={server !== undefined}>
+				{children}
+			</FetchCacheServerRenderContext.Provider>
+		</FetchCacheContext.Provider>
+	);
+};
+
+/**
+ * Sends the data loaded by a server render of {@link FetchCacheProvider} to the browser,
+ * where the provider adds it to its cache before hydrating.
+ *
+ * Render it at the end of the document body, after the components that use
+ * useCachedFetch: it waits for the data they are loading, and data loaded after it was
+ * rendered is not sent. The data is sent as JSON, so it must not contain values like
+ * `Date` or `Map` that JSON does not preserve. Outside of server renders of the provider,
+ * it renders nothing.
+ *
+ * @example
+ * ```tsx
+ * // app/root.tsx
+ * export function Layout({ children }: { children: React.ReactNode }) {
+ *   return (
+ *     <html lang="en">
+ *       <body>
+ *         {children}
+ *         <ScrollRestoration />
+ *         <Scripts />
+ *         <FetchCacheScript />
+ *       </body>
+ *     </html>
+ *   );
+ * }
+ * ```
+ */
+export const FetchCacheScript = () => {
+	const cache = useFetchCache();
+	const serverRender = useContext(FetchCacheServerRenderContext);
+
+	// In the browser, render the element rendered on the server, so hydration keeps it
+	const [rendered] = useState(() =>
+		serverRender ? undefined : readFetchCacheScript(),
+	);
+
+	let json = rendered;
+	if (serverRender) {
+		const fetching = cache
+			.entries()
+			.filter(({ entry }) => entry.isFetching)
+			.map(({ key }) => cache.fetch(key));
+		// Rendered again once they are loaded, which may start more fetches
+		if (fetching.length > 0) {
+			use(Promise.all(fetching));
+		}
+		json = serializeFetchCache(cache.dehydrate());
+	}
+
+	if (json === undefined) {
+		return null;
+	}
+
+	return (
+		<script
+			id={fetchCacheScriptId}
+			type="application/json"
+			suppressHydrationWarning
+			dangerouslySetInnerHTML={{ __html: json }}
+		/>
+	);
+};
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { fail } from "@firtoz/maybe-error";
+import {
+	act,
+	cleanup,
+	fireEvent,
+	render,
+	screen,
+} from "@testing-library/react";
+import * as ReactRouter from "react-router";
+
+type Fetcher = ReturnType<typeof ReactRouter.useFetchers>[number];
+
+let fetchers: Fetcher[] = [];
+const mockSubmit = mock(() => Promise.resolve());
+
+mock.module("react-router", () => ({
+	...ReactRouter,
+	useFetchers: () => fetchers,
+	useSubmit: () => mockSubmit,
+}));
+
+// Import after mocking
+import { RouterToolkitDevtools } from "./devtools";
+import { clearActionLog } from "./devtoolsActionLog";
+import { createFetchCache, FetchCacheContext } from "./fetchCache";
+
+const idle = (key: string, data?: unknown) =>
+	({ key, state: "idle", data }) as Fetcher;
+
+const submitting = (key: string, formData: FormData) =>
+	({
+		key,
+		state: "submitting",
+		formMethod: "POST",
+		formAction: "/todos",
+		formEncType: "multipart/form-data",
+		formData,
+	}) as Fetcher;
+
+const devtools = (cache = createFetchCache()) => (
+	<FetchCacheContext.Provider value={cache}>
+		<RouterToolkitDevtools initialIsOpen />
+	</FetchCacheContext.Provider>
+);
+
+const renderDevtools = (cache?: ReturnType<typeof createFetchCache>) =>
+	render(devtools(cache));
+
+describe("RouterToolkitDevtools", () => {
+	afterEach(() => {
+		cleanup();
+		clearActionLog();
+		fetchers = [];
+		mockSubmit.mockClear();
+	});
+
+	it("should toggle the panel", () => {
+		render(<RouterToolkitDevtools />);
+
+		expect(screen.queryByLabelText("Router toolkit devtools")).toBeNull();
+
+		fireEvent.click(screen.getByText("Router toolkit"));
+		expect(screen.getByLabelText("Router toolkit devtools")).toBeDefined();
+
+		fireEvent.click(screen.getByText("Close router toolkit"));
+		expect(screen.queryByLabelText("Router toolkit devtools")).toBeNull();
+	});
+
+	it("should list fetchers by key and state", () => {
+		fetchers = [
+			{ key: "fetcher-/users", state: "loading" } as Fetcher,
+			idle("submitter-/users/1"),
+		];
+
+		renderDevtools();
+
+		expect(screen.getByText("Fetchers (2)")).toBeDefined();
+		expect(screen.getByText("fetcher-/users").parentElement?.textContent).toBe(
+			"fetcher-/usersfetcherloading",
+		);
+		expect(
+			screen.getByText("submitter-/users/1").parentElement?.textContent,
+		).toBe("submitter-/users/1submitteridle");
+	});
+
+	it("should list cache entries and invalidate or refetch them", async () => {
+		const load = mock(async (url: string) => ({ url }));
+		const cache = createFetchCache({ load });
+		await cache.fetch("/users");
+
+		renderDevtools(cache);
+
+		const row = screen.getByText("/users").parentElement as HTMLElement;
+		expect(row.textContent).toContain("0s");
+		expect(row.textContent).toContain(
+			`${JSON.stringify({ url: "/users" }).length} B`,
+		);
+		expect(row.textContent).toContain("fresh");
+
+		fireEvent.click(screen.getByText("Invalidate"));
+		expect(cache.get("/users")?.isInvalidated).toBe(true);
+		expect(row.textContent).toContain("invalidated");
+
+		await act(async () => {
+			fireEvent.click(screen.getByText("Refetch"));
+		});
+		expect(load).toHaveBeenCalledTimes(2);
+		expect(cache.get("/users")?.isInvalidated).toBe(false);
+	});
+
+	it("should record fetcher submissions and replay them", () => {
+		const cache = createFetchCache();
+		const { rerender } = render(devtools(cache));
+		expect(screen.getByText("No submissions yet")).toBeDefined();
+
+		const formData = new FormData();
+		formData.set("title", "");
+		const failure = fail({ type: "validation", error: { errors: [] } });
+
+		// Fetchers are first listed once they submit
+		fetchers = [submitting("submitter-/todos", formData)];
+		rerender(devtools(cache));
+		expect(screen.getByText("pending")).toBeDefined();
+
+		fetchers = [
+			{
+				...submitting("submitter-/todos", formData),
+				state: "loading",
+				data: failure,
+			},
+		];
+		rerender(devtools(cache));
+		expect(screen.getByText("pending")).toBeDefined();
+
+		fetchers = [idle("submitter-/todos", failure)];
+		rerender(devtools(cache));
+
+		expect(screen.getByText("Submissions (1)")).toBeDefined();
+		expect(screen.getByText("error: validation")).toBeDefined();
+
+		fireEvent.click(screen.getByText("Replay"));
+		expect(mockSubmit).toHaveBeenCalledWith(formData, {
+			action: "/todos",
+			method: "POST",
+			encType: "multipart/form-data",
+			navigate: false,
+			fetcherKey: "submitter-/todos",
+		});
+
+		fireEvent.click(screen.getByText("Clear"));
+		expect(screen.getByText("No submissions yet")).toBeDefined();
+	});
+
+	it("should complete submissions of fetchers removed after unmounting", () => {
+		const cache = createFetchCache();
+		const { rerender } = render(devtools(cache));
+
+		fetchers = [submitting("fetcher-1", new FormData())];
+		rerender(devtools(cache));
+
+		fetchers = [
+			{
+				...submitting("fetcher-1", new FormData()),
+				state: "loading",
+				data: { saved: true },
+			},
+		];
+		rerender(devtools(cache));
+
+		fetchers = [];
+		rerender(devtools(cache));
+		expect(screen.getByText("success")).toBeDefined();
+	});
+});
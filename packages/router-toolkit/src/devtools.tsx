@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Devtools panel, imported from `@firtoz/router-toolkit/devtools`
+ *
+ * The devtools are not exported from the package's main entry point, so they are only
+ * bundled by the apps that import them.
+ */
+
+import {
+	type CSSProperties,
+	useEffect,
+	useReducer,
+	useState,
+	useSyncExternalStore,
+} from "react";
+import { type SubmitTarget, useFetchers, useSubmit } from "react-router";
+import {
+	clearActionLog,
+	type DevtoolsActionRecord,
+	getActionLog,
+	subscribeToActionLog,
+	useActionLogRecorder,
+} from "./devtoolsActionLog";
+import { useFetchCache } from "./fetchCache";
+
+/**
+ * Props for RouterToolkitDevtools
+ */
+export type RouterToolkitDevtoolsProps = {
+	/**
+	 * Whether the panel starts open (defaults to false)
+	 */
+	initialIsOpen?: boolean;
+	/**
+	 * The corner of the window the toggle button is in (defaults to `"bottom-right"`)
+	 */
+	position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+	/**
+	 * How often the open panel rereads the fetch cache and updates ages, in milliseconds
+	 * (defaults to 1000)
+	 */
+	refreshInterval?: number;
+};
+
+const formatAge = (since: number, now: number) => {
+	const seconds = Math.floor((now - since) / 1000);
+	if (seconds < 60) {
+		return `${seconds}s`;
+	}
+	if (seconds < 3600) {
+		return `${Math.floor(seconds / 60)}m`;
+	}
+	return `${Math.floor(seconds / 3600)}h`;
+};
+
+// The size of data as JSON, which is only an estimate of single fetch payloads
+const formatSize = (data: unknown) => {
+	let json: string | undefined;
+	try {
+		json = JSON.stringify(data);
+	} catch {
+		return "?";
+	}
+	if (json === undefined) {
+		return "-";
+	}
+
+	const bytes = new TextEncoder().encode(json).length;
+	return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+};
+
+const fetcherKind = (key: string) =>
+	key.startsWith("submitter-")
+		? "submitter"
+		: key.startsWith("fetcher-")
+			? "fetcher"
+			: "other";
+
+const styles = {
+	panel: {
+		position: "fixed",
+		left: 0,
+		right: 0,
+		maxHeight: "50vh",
+		overflow: "auto",
+		zIndex: 99999,
+		padding: 12,
+		background: "#111827",
+		color: "#e5e7eb",
+		font: "12px/1.5 ui-monospace, monospace",
+		boxShadow: "0 0 12px rgba(0, 0, 0, 0.4)",
+	},
+	toggle: {
+		position: "fixed",
+		zIndex: 100000,
+		padding: "4px 8px",
+		border: "none",
+		borderRadius: 4,
+		background: "#111827",
+		color: "#e5e7eb",
+		font: "12px ui-monospace, monospace",
+		cursor: "pointer",
+	},
+	heading: { margin: "12px 0 4px", fontSize: 13 },
+	table: { width: "100%", borderCollapse: "collapse" },
+	cell: {
+		padding: "2px 8px 2px 0",
+		textAlign: "left",
+		verticalAlign: "top",
+		whiteSpace: "nowrap",
+	},
+	button: {
+		marginRight: 4,
+		padding: "0 6px",
+		border: "1px solid #4b5563",
+		borderRadius: 3,
+		background: "transparent",
+		color: "inherit",
+		font: "inherit",
+		cursor: "pointer",
+	},
+	empty: { color: "#9ca3af" },
+	error: { color: "#f87171" },
+	success: { color: "#34d399" },
+} satisfies Record<string, CSSProperties>;
+
+const Table = ({
+	columns,
+	children,
+}: {
+	columns: string[];
+	children: React.ReactNode;
+}) => (
+	<table style={styles.table}>
+		<thead>
+			<tr>
+				{columns.map((column) => (
+					<th key={column} style={styles.cell}>
+						{column}
+					</th>
+				))}
+			</tr>
+		</thead>
+		<tbody>{children}</tbody>
+	</table>
+);
+
+const actionStatus = (record: DevtoolsActionRecord) => {
+	switch (record.status) {
+		case "pending":
+			return <span>pending</span>;
+		case "success":
+			return <span style={styles.success}>success</span>;
+		case "error":
+			return (
+				<span style={styles.error}>
+					error{record.errorType ? `: ${record.errorType}` : ""}
+				</span>
+			);
+	}
+};
+
+/**
+ * A devtools panel for the fetchers, fetch cache and submissions of the app.
+ *
+ * It lists the active fetchers by key and state, the entries of the {@link useFetchCache}
+ * cache with their age and approximate size, and the recent fetcher submissions with
+ * their result, including the type of a FormActionError. Cache entries can be invalidated or refetched, and submissions
+ * replayed.
+ *
+ * Submissions are recorded from `useFetchers()` while the devtools are mounted, so they
+ * include every fetcher submission, such as those of useDynamicSubmitter or `useFetcher`,
+ * but not navigation submissions of `<Form>` or `useSubmit`, nor the `submit()` calls of
+ * useQueuedSubmitter, which are sent with `fetch`. Render them in the root route, inside
+ * the {@link FetchCacheProvider} if there is one, and leave them out of production builds.
+ *
+ * @example
+ * ```tsx
+ * // app/root.tsx
+ * import { RouterToolkitDevtools } from "@firtoz/router-toolkit/devtools";
+ *
+ * export default function App() {
+ *   return (
+ *     <FetchCacheProvider>
+ *       <Outlet />
+ *       {import.meta.env.DEV && <RouterToolkitDevtools />}
+ *     </FetchCacheProvider>
+ *   );
+ * }
+ * ```
+ */
+export const RouterToolkitDevtools = ({
+	initialIsOpen = false,
+	position = "bottom-right",
+	refreshInterval = 1000,
+}: RouterToolkitDevtoolsProps) => {
+	const [isOpen, setIsOpen] = useState(initialIsOpen);
+
+	const fetchers = useFetchers();
+	const cache = useFetchCache();
+	const submit = useSubmit();
+
+	useActionLogRecorder(fetchers);
+	const actions = useSyncExternalStore(
+		subscribeToActionLog,
+		getActionLog,
+		getActionLog,
+	);
+
+	// The cache has no change events for every entry, so the open panel rereads it
+	const [, refresh] = useReducer((count: number) => count + 1, 0);
+	useEffect(() => {
+		if (!isOpen) {
+			return;
+		}
+		const interval = setInterval(refresh, refreshInterval);
+		return () => {
+			clearInterval(interval);
+		};
+	}, [isOpen, refreshInterval]);
+
+	const [vertical, horizontal] = position.split("-") as [
+		"top" | "bottom",
+		"left" | "right",
+	];
+
+	const toggle = (
+		<button
+			type="button"
+			style={{ ...styles.toggle, [vertical]: 8, [horizontal]: 8 }}
+			onClick={() => setIsOpen((open) => !open)}
+		>
+			{isOpen ? "Close router toolkit" : "Router toolkit"}
+		</button>
+	);
+
+	if (!isOpen) {
+		return toggle;
+	}
+
+	const now = Date.now();
+	const cacheEntries = cache.entries();
+
+	const replay = (record: DevtoolsActionRecord) => {
+		submit((record.body ?? null) as SubmitTarget, {
+			action: record.url,
+			method: record.method as "POST",
+			encType: record.encType as "multipart/form-data",
+			navigate: false,
+			fetcherKey: record.key,
+		});
+	};
+
+	return (
+		<>
+			<section
+				aria-label="Router toolkit devtools"
+				style={{ ...styles.panel, [vertical]: 0 }}
+			>
+				<h2 style={styles.heading}>Fetchers ({fetchers.length})</h2>
+				{fetchers.length === 0 ? (
+					<div style={styles.empty}>No active fetchers</div>
+				) : (
+					<Table columns={["Key", "Kind", "State"]}>
+						{fetchers.map((fetcher) => (
+							<tr key={fetcher.key}>
+								<td style={styles.cell}>{fetcher.key}</td>
+								<td style={styles.cell}>{fetcherKind(fetcher.key)}</td>
+								<td style={styles.cell}>{fetcher.state}</td>
+							</tr>
+						))}
+					</Table>
+				)}
+
+				<h2 style={styles.heading}>Cache ({cacheEntries.length})</h2>
+				{cacheEntries.length === 0 ? (
+					<div style={styles.empty}>No cached data</div>
+				) : (
+					<Table columns={["URL", "Age", "Size", "Subscribers", "Status", ""]}>
+						{cacheEntries.map(({ key, entry, subscribers }) => (
+							<tr key={key}>
+								<td style={styles.cell}>{key}</td>
+								<td style={styles.cell}>
+									{entry.updatedAt === 0
+										? "-"
+										: formatAge(entry.updatedAt, now)}
+								</td>
+								<td style={styles.cell}>{formatSize(entry.data)}</td>
+								<td style={styles.cell}>{subscribers}</td>
+								<td style={styles.cell}>
+									{entry.isFetching ? (
+										"fetching"
+									) : entry.error ? (
+										<span style={styles.error}>{entry.error.message}</span>
+									) : entry.isInvalidated ? (
+										"invalidated"
+									) : (
+										"fresh"
+									)}
+								</td>
+								<td style={styles.cell}>
+									<button
+										type="button"
+										style={styles.button}
+										onClick={() => {
+											cache.invalidateKey(key);
+											refresh();
+										}}
+									>
+										Invalidate
+									</button>
+									<button
+										type="button"
+										style={styles.button}
+										onClick={() => {
+											cache.fetch(key).finally(refresh);
+											refresh();
+										}}
+									>
+										Refetch
+									</button>
+								</td>
+							</tr>
+						))}
+					</Table>
+				)}
+
+				<h2 style={styles.heading}>
+					Submissions ({actions.length}){" "}
+					{actions.length > 0 && (
+						<button
+							type="button"
+							style={styles.button}
+							onClick={clearActionLog}
+						>
+							Clear
+						</button>
+					)}
+				</h2>
+				{actions.length === 0 ? (
+					<div style={styles.empty}>No submissions yet</div>
+				) : (
+					<Table columns={["Method", "URL", "Result", "Duration", "Age", ""]}>
+						{actions.map((record) => (
+							<tr key={record.id}>
+								<td style={styles.cell}>{record.method}</td>
+								<td style={styles.cell}>{record.url}</td>
+								<td style={styles.cell}>{actionStatus(record)}</td>
+								<td style={styles.cell}>
+									{record.settledAt === undefined
+										? "-"
+										: `${record.settledAt - record.startedAt}ms`}
+								</td>
+								<td style={styles.cell}>{formatAge(record.startedAt, now)}</td>
+								<td style={styles.cell}>
+									<button
+										type="button"
+										style={styles.button}
+										onClick={() => replay(record)}
+									>
+										Replay
+									</button>
+								</td>
+							</tr>
+						))}
+					</Table>
+				)}
+			</section>
+			{toggle}
+		</>
+	);
+};
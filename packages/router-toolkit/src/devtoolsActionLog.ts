@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Recent submissions shown by the devtools panel
+ *
+ * The panel records fetcher submissions from `useFetchers()` while it is mounted, and
+ * reads them back through a subscription. Nothing outside the devtools entry point
+ * imports this module, so apps that do not render the devtools do not record anything.
+ */
+
+import { useEffect, useRef } from "react";
+import type { useFetchers } from "react-router";
+import { isMaybeError } from "./isMaybeError";
+
+/**
+ * A submission recorded for the devtools
+ */
+export type DevtoolsActionRecord = {
+	id: number;
+	/**
+	 * The key of the fetcher that submitted it
+	 */
+	key: string;
+	url: string;
+	method: string;
+	encType: string;
+	/**
+	 * The submitted data, kept to replay the submission
+	 */
+	body: FormData | unknown;
+	startedAt: number;
+	/**
+	 * When the submission completed, including the revalidation after it
+	 */
+	settledAt: number | undefined;
+	status: "pending" | "success" | "error";
+	/**
+	 * The `type` of a MaybeError failure, such as a FormActionError's `"validation"`
+	 */
+	errorType: string | undefined;
+	data: unknown;
+};
+
+// How many submissions to keep, newest first
+const maxRecords = 50;
+
+let records: readonly DevtoolsActionRecord[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const setRecords = (next: readonly DevtoolsActionRecord[]) => {
+	records = next;
+	for (const listener of listeners) {
+		listener();
+	}
+};
+
+/**
+ * Calls the listener whenever the log changes
+ *
+ * @returns A function that removes the listener
+ */
+export const subscribeToActionLog = (listener: () => void) => {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+};
+
+/**
+ * Returns the recorded submissions, newest first
+ */
+export const getActionLog = () => records;
+
+/**
+ * Removes every recorded submission
+ */
+export const clearActionLog = () => {
+	setRecords([]);
+};
+
+const errorTypeOf = (error: unknown) => {
+	const type = (error as { type?: unknown } | null | undefined)?.type;
+	return typeof type === "string" ? type : undefined;
+};
+
+const settleRecord = (id: number, data: unknown) => {
+	const failed = isMaybeError(data) && !data.success;
+	setRecords(
+		records.map((record) =>
+			record.id === id
+				? {
+						...record,
+						settledAt: Date.now(),
+						status: failed ? "error" : "success",
+						errorType: failed ? errorTypeOf(data.error) : undefined,
+						data,
+					}
+				: record,
+		),
+	);
+};
+
+type RecordedFetcher = ReturnType<typeof useFetchers>[number];
+
+/**
+ * Records the submissions of the fetchers, as returned by `useFetchers()`.
+ *
+ * A submission starts when a fetcher is submitting, including the first time it is seen,
+ * and completes when the fetcher returns to idle or is removed after its component
+ * unmounts, with the action's data.
+ *
+ * @param fetchers - The fetchers of the app
+ */
+export const useActionLogRecorder = (fetchers: readonly RecordedFetcher[]) => {
+	// The last state and data of each fetcher, and the submission it is running
+	const trackedRef = useRef(
+		new Map<
+			string,
+			{ state: RecordedFetcher["state"]; data: unknown; id?: number }
+		>(),
+	);
+
+	useEffect(() => {
+		const tracked = trackedRef.current;
+		const seen = new Set<string>();
+
+		for (const fetcher of fetchers) {
+			seen.add(fetcher.key);
+			const last = tracked.get(fetcher.key);
+			let id = last?.id;
+
+			if (fetcher.state === "submitting" && last?.state !== "submitting") {
+				// A submission made while the last one was revalidating replaces it
+				if (id !== undefined) {
+					settleRecord(id, last?.data);
+				}
+				id = nextId++;
+				setRecords(
+					[
+						{
+							id,
+							key: fetcher.key,
+							url: fetcher.formAction ?? "",
+							method: fetcher.formMethod ?? "POST",
+							encType: fetcher.formEncType ?? "multipart/form-data",
+							body: fetcher.formData ?? fetcher.json,
+							startedAt: Date.now(),
+							settledAt: undefined,
+							status: "pending" as const,
+							errorType: undefined,
+							data: undefined,
+						},
+						...records,
+					].slice(0, maxRecords),
+				);
+			} else if (fetcher.state === "idle" && id !== undefined) {
+				settleRecord(id, fetcher.data);
+				id = undefined;
+			}
+
+			tracked.set(fetcher.key, {
+				state: fetcher.state,
+				data: fetcher.data,
+				id,
+			});
+		}
+
+		// Fetchers are removed once idle after their component unmounts
+		for (const [key, { data, id }] of tracked) {
+			if (!seen.has(key)) {
+				if (id !== undefined) {
+					settleRecord(id, data);
+				}
+				tracked.delete(key);
+			}
+		}
+	}, [fetchers]);
+};
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { createFetchCache, type FetchCacheEntry } from "./fetchCache";
+
+const mockFetch = mock((url: string, _init?: RequestInit) =>
+	Promise.resolve(Response.json({ url })),
+);
+
+const originalFetch = globalThis.fetch;
+
+describe("createFetchCache", () => {
+	beforeEach(() => {
+		globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+		mockFetch.mockClear();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("should store fetched data and errors", async () => {
+		const cache = createFetchCache();
+
+		await cache.fetch("/users");
+
+		expect(cache.get("/users")).toMatchObject({
+			data: { url: "/users.data" },
+			error: undefined,
+			isFetching: false,
+		});
+		expect(cache.isStale("/users", 1000)).toBe(false);
+		expect(cache.isStale("/users", -1)).toBe(true);
+
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response(null, { status: 500 })),
+		);
+		await cache.fetch("/users");
+
+		// The previous data is kept
+		expect(cache.get("/users")).toMatchObject({
+			data: { url: "/users.data" },
+			error: new Error("HTTP error! Status: 500"),
+		});
+	});
+
+	it("should evict the least recently used entries that are not in use", async () => {
+		const cache = createFetchCache({ maxEntries: 2 });
+		const unsubscribe = cache.subscribe("/a", () => {}, 1000);
+
+		await cache.fetch("/a");
+		await cache.fetch("/b");
+		await cache.fetch("/c");
+
+		// "/a" is in use, so "/b" is evicted instead
+		expect(cache.get("/a")).toBeDefined();
+		expect(cache.get("/b")).toBeUndefined();
+		expect(cache.get("/c")).toBeDefined();
+
+		unsubscribe();
+		await cache.fetch("/d");
+
+		expect(cache.get("/a")).toBeUndefined();
+		expect(cache.get("/c")).toBeDefined();
+	});
+
+	it("should garbage collect entries once unused for gcTime", async () => {
+		const cache = createFetchCache();
+		const unsubscribe = cache.subscribe("/users", () => {}, 10);
+		await cache.fetch("/users");
+
+		unsubscribe();
+		expect(cache.get("/users")).toBeDefined();
+
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(cache.get("/users")).toBeUndefined();
+	});
+
+	it("should invalidate by prefix and refetch entries in use", async () => {
+		const cache = createFetchCache();
+		const unsubscribe = cache.subscribe("/users/1", () => {}, 1000);
+
+		await Promise.all(
+			["/users", "/users/1", "/users?page=2", "/users-archive"].map((url) =>
+				cache.fetch(url),
+			),
+		);
+		mockFetch.mockClear();
+
+		cache.invalidatePrefix("/users");
+
+		expect(cache.get("/users")?.isInvalidated).toBe(true);
+		expect(cache.get("/users?page=2")?.isInvalidated).toBe(true);
+		expect(cache.get("/users-archive")?.isInvalidated).toBe(false);
+
+		// Only the entry in use is refetched
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(mockFetch).toHaveBeenCalledWith("/users/1.data", {
+			signal: expect.any(AbortSignal),
+		});
+
+		unsubscribe();
+	});
+
+	it("should list entries and invalidate them by URL", async () => {
+		const cache = createFetchCache();
+		const unsubscribe = cache.subscribe("/users", () => {}, 1000);
+
+		await cache.fetch("/users");
+		await cache.fetch("/users?page=2");
+
+		expect(cache.entries()).toEqual([
+			{ key: "/users", entry: expect.any(Object), subscribers: 1 },
+			{ key: "/users?page=2", entry: expect.any(Object), subscribers: 0 },
+		]);
+		expect(cache.entries()[0].entry).toEqual(
+			cache.get("/users") as FetchCacheEntry,
+		);
+
+		cache.invalidateKey("/users?page=2");
+		cache.invalidateKey("/missing");
+
+		expect(cache.get("/users")?.isInvalidated).toBe(false);
+		expect(cache.get("/users?page=2")?.isInvalidated).toBe(true);
+		expect(cache.get("/missing")).toBeUndefined();
+
+		unsubscribe();
+	});
+
+	it("should notify subscribers and invalidate exact routes", async () => {
+		const cache = createFetchCache();
+		const listener = mock(() => {});
+		const unsubscribe = cache.subscribe("/users", listener, 1000);
+
+		await cache.fetch("/users");
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		cache.invalidate("/users");
+		expect(cache.get("/users")?.isFetching).toBe(true);
+
+		unsubscribe();
+		cache.clear();
+		expect(cache.get("/users")).toBeUndefined();
+	});
+
+	it("should dehydrate fetched data and hydrate it unless newer data is cached", async () => {
+		const server = createFetchCache();
+		await server.fetch("/users");
+		mockFetch.mockImplementationOnce(() => Promise.reject(new Error("Down")));
+		await server.fetch("/config");
+
+		const state = server.dehydrate();
+		expect(state).toEqual({
+			"/users": { data: { url: "/users.data" }, updatedAt: expect.any(Number) },
+		});
+
+		const client = createFetchCache();
+		client.hydrate(state);
+		expect(client.get("/users")).toMatchObject({
+			data: { url: "/users.data" },
+			updatedAt: state["/users"].updatedAt,
+		});
+		expect(client.isStale("/users", 60_000)).toBe(false);
+
+		client.hydrate({ "/users": { data: "older", updatedAt: 1 } });
+		expect(client.get("/users")?.data).toEqual({ url: "/users.data" });
+	});
+
+	it("should load data with a custom load function", async () => {
+		const load = mock(
+			(url: string, _options: { signal: AbortSignal; routeId?: string }) =>
+				Promise.resolve({ loaded: url }),
+		);
+		const cache = createFetchCache({ load });
+
+		await cache.fetch("/users", { routeId: "routes/users" });
+
+		expect(load).toHaveBeenCalledWith("/users", {
+			signal: expect.any(AbortSignal),
+			routeId: "routes/users",
+		});
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(cache.get("/users")?.data).toEqual({ loaded: "/users" });
+	});
+
+	describe("requests in flight", () => {
+		// Responds to each request when resolved, and rejects it when aborted unless the
+		// server ignores the signal
+		const deferFetches = ({ ignoreAbort = false } = {}) => {
+			const requests: {
+				url: string;
+				signal: AbortSignal;
+				respond: (data: unknown) => void;
+			}[] = [];
+
+			mockFetch.mockImplementation(
+				(url: string, init?: RequestInit) =>
+					new Promise<Response>((resolve, reject) => {
+						const signal = init?.signal as AbortSignal;
+						if (!ignoreAbort) {
+							signal.addEventListener("abort", () => reject(signal.reason));
+						}
+						requests.push({
+							url,
+							signal,
+							respond: (data) => resolve(Response.json(data)),
+						});
+					}),
+			);
+
+			return requests;
+		};
+
+		it("should share one request between concurrent fetches", async () => {
+			const requests = deferFetches();
+			const cache = createFetchCache();
+
+			const first = cache.fetch("/users");
+			const second = cache.fetch("/users");
+
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+			expect(second).toBe(first);
+
+			requests[0].respond({ page: 1 });
+			await Promise.all([first, second]);
+
+			expect(cache.get("/users")?.data).toEqual({ page: 1 });
+		});
+
+		it("should abort the request once the last subscriber leaves", async () => {
+			const requests = deferFetches();
+			const cache = createFetchCache();
+			const unsubscribeFirst = cache.subscribe("/users", () => {}, 1000);
+			const unsubscribeSecond = cache.subscribe("/users", () => {}, 1000);
+
+			const fetching = cache.fetch("/users");
+
+			unsubscribeFirst();
+			expect(requests[0].signal.aborted).toBe(false);
+
+			unsubscribeSecond();
+			expect(requests[0].signal.aborted).toBe(true);
+
+			await fetching;
+			expect(cache.get("/users")).toMatchObject({
+				data: undefined,
+				error: undefined,
+				isFetching: false,
+			});
+		});
+
+		it("should ignore the response of a replaced request", async () => {
+			const requests = deferFetches({ ignoreAbort: true });
+			const cache = createFetchCache();
+			const unsubscribe = cache.subscribe("/users", () => {}, 1000);
+
+			const first = cache.fetch("/users");
+			// Invalidating replaces the request in flight
+			cache.invalidate("/users");
+			const second = cache.fetch("/users");
+
+			expect(requests).toHaveLength(2);
+			expect(requests[0].signal.aborted).toBe(true);
+
+			requests[1].respond({ version: 2 });
+			// The replaced request responds last
+			requests[0].respond({ version: 1 });
+			await Promise.all([first, second]);
+
+			expect(cache.get("/users")).toMatchObject({
+				data: { version: 2 },
+				error: undefined,
+				isFetching: false,
+			});
+
+			unsubscribe();
+		});
+	});
+});
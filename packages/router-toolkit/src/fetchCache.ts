@@ -0,0 +1,476 @@
+/**
+ * @fileoverview Cache used by useCachedFetch
+ *
+ * Entries are keyed by URL and kept in least-recently-used order. An entry is garbage
+ * collected once it has had no subscribers for its `gcTime`, and the least recently used
+ * entries without subscribers are evicted when the cache grows past `maxEntries`.
+ *
+ * Concurrent fetches of a URL share one request, which is aborted once no component is
+ * subscribed to the URL anymore. Responses of aborted or replaced requests are ignored.
+ *
+ * @example
+ * ```typescript
+ * const cache = useFetchCache();
+ *
+ * // Refetch one user, or every cached URL under /users
+ * cache.invalidate("/users/:id", { id: "1" });
+ * cache.invalidatePrefix("/users");
+ * ```
+ */
+
+import { createContext, useContext, useEffect, useRef } from "react";
+import { href } from "react-router";
+import { singleFetchLoad } from "./singleFetch";
+import type { HrefArgs } from "./types/HrefArgs";
+import type { RegisterPages } from "./types/RegisterPages";
+
+/**
+ * The cached state of a URL
+ */
+export type FetchCacheEntry = {
+	/**
+	 * The last successfully fetched data, kept while refetching and after errors
+	 */
+	data: unknown;
+	/**
+	 * The error of the last fetch, if it failed
+	 */
+	error: Error | undefined;
+	/**
+	 * When the data was last fetched, in milliseconds since the epoch (0 if never)
+	 */
+	updatedAt: number;
+	isFetching: boolean;
+	/**
+	 * Whether the data was invalidated since it was fetched
+	 */
+	isInvalidated: boolean;
+};
+
+/**
+ * A cache of fetched loader data shared by useCachedFetch hooks
+ */
+export type FetchCache = {
+	get: (key: string) => FetchCacheEntry | undefined;
+	/**
+	 * Fetches a URL and stores the result. While a request for the URL is in flight, its
+	 * promise is returned instead of starting another one.
+	 *
+	 * The route ID, when given, is remembered for refetches of the URL.
+	 */
+	fetch: (key: string, options?: FetchCacheFetchOptions) => Promise<void>;
+	/**
+	 * Whether a URL has no data, was invalidated, or was fetched more than `staleTime` ago
+	 */
+	isStale: (key: string, staleTime: number) => boolean;
+	/**
+	 * Calls the listener whenever the entry for a URL changes. The entry is kept while it
+	 * has subscribers, and for `gcTime` milliseconds after the last one unsubscribes, which
+	 * also aborts the request in flight.
+	 *
+	 * @returns A function that removes the listener
+	 */
+	subscribe: (key: string, listener: () => void, gcTime: number) => () => void;
+	/**
+	 * Marks the data of a route as stale, and refetches it if it is in use
+	 */
+	invalidate: <TPath extends keyof RegisterPages>(
+		path: TPath,
+		...args: HrefArgs<TPath>
+	) => void;
+	/**
+	 * Invalidates every cached URL that starts with the prefix, such as `"/users"` for
+	 * `"/users"`, `"/users/1"` and `"/users?page=2"`
+	 */
+	invalidatePrefix: (prefix: string) => void;
+	/**
+	 * Invalidates the entry of a URL, as returned by href
+	 */
+	invalidateKey: (key: string) => void;
+	/**
+	 * Returns every entry with its URL and number of subscribers, least recently used
+	 * first, for inspecting the cache
+	 */
+	entries: () => FetchCacheEntryInfo[];
+	/**
+	 * Removes every entry that has no subscribers
+	 */
+	clear: () => void;
+	/**
+	 * Returns the successfully fetched data of every entry, to send to the client
+	 */
+	dehydrate: () => DehydratedFetchCache;
+	/**
+	 * Adds dehydrated entries, unless the cache already has newer data for them
+	 */
+	hydrate: (state: DehydratedFetchCache) => void;
+};
+
+/**
+ * An entry with its URL, as returned by `FetchCache.entries()`
+ */
+export type FetchCacheEntryInfo = {
+	key: string;
+	entry: FetchCacheEntry;
+	/**
+	 * How many useCachedFetch hooks are subscribed to the URL
+	 */
+	subscribers: number;
+};
+
+/**
+ * Fetched data by URL, as returned by `FetchCache.dehydrate()`
+ */
+export type DehydratedFetchCache = Record<
+	string,
+	{ data: unknown; updatedAt: number }
+>;
+
+/**
+ * Options for FetchCache.fetch
+ */
+export type FetchCacheFetchOptions = {
+	/**
+	 * The ID of the route the URL belongs to, so only its loader is called
+	 */
+	routeId?: string;
+};
+
+/**
+ * Loads the data of a URL. Fetch errors should be thrown.
+ */
+export type FetchCacheLoad = (
+	url: string,
+	options: FetchCacheFetchOptions & { signal: AbortSignal },
+) => Promise<unknown>;
+
+/**
+ * Options for createFetchCache
+ */
+export type FetchCacheOptions = {
+	/**
+	 * How many entries to keep before evicting the least recently used ones that are not
+	 * in use (defaults to 100)
+	 */
+	maxEntries?: number;
+	/**
+	 * Loads the data of a URL (defaults to {@link singleFetchLoad}, which decodes the
+	 * route's `.data` URL). On the server, use {@link routeLoaderFetch} to call route
+	 * loaders directly.
+	 */
+	load?: FetchCacheLoad;
+};
+
+const emptyEntry: FetchCacheEntry = {
+	data: undefined,
+	error: undefined,
+	updatedAt: 0,
+	isFetching: false,
+	isInvalidated: false,
+};
+
+const matchesPrefix = (key: string, prefix: string) => {
+	if (!key.startsWith(prefix)) {
+		return false;
+	}
+	if (prefix.endsWith("/") || key.length === prefix.length) {
+		return true;
+	}
+	// Do not match "/users-archive" for "/users"
+	return ["/", "?", "#"].includes(key[prefix.length]);
+};
+
+/**
+ * Creates a fetch cache.
+ *
+ * @param options - The cache size
+ * @returns A fetch cache
+ */
+export const createFetchCache = ({
+	maxEntries = 100,
+	load = singleFetchLoad,
+}: FetchCacheOptions = {}): FetchCache => {
+	// Map iteration order is insertion order, so the first entries are the least recently used
+	const entries = new Map<string, FetchCacheEntry>();
+	const listeners = new Map<string, Set<() => void>>();
+	const gcTimes = new Map<string, number>();
+	const gcTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+	const routeIds = new Map<string, string>();
+
+	const isInUse = (key: string) => (listeners.get(key)?.size ?? 0) > 0;
+
+	const remove = (key: string) => {
+		entries.delete(key);
+		routeIds.delete(key);
+		gcTimes.delete(key);
+		clearTimeout(gcTimeouts.get(key));
+		gcTimeouts.delete(key);
+	};
+
+	const evict = () => {
+		for (const [key, entry] of entries) {
+			if (entries.size <= maxEntries) {
+				return;
+			}
+			if (!isInUse(key) && !entry.isFetching) {
+				remove(key);
+			}
+		}
+	};
+
+	const update = (key: string, changes: Partial<FetchCacheEntry>) => {
+		const entry = { ...(entries.get(key) ?? emptyEntry), ...changes };
+		entries.delete(key);
+		entries.set(key, entry);
+		evict();
+
+		for (const listener of listeners.get(key) ?? []) {
+			listener();
+		}
+	};
+
+	// At most one request per key is in flight; responses of replaced requests are ignored
+	const inFlight = new Map<
+		string,
+		{ controller: AbortController; promise: Promise<void> }
+	>();
+
+	const abort = (key: string) => {
+		const request = inFlight.get(key);
+		if (request) {
+			inFlight.delete(key);
+			request.controller.abort();
+		}
+	};
+
+	const startFetch = (key: string) => {
+		abort(key);
+
+		const controller = new AbortController();
+		const isCurrent = () => inFlight.get(key)?.controller === controller;
+
+		update(key, { isFetching: true });
+
+		const promise = (async () => {
+			try {
+				const data = await load(key, {
+					signal: controller.signal,
+					routeId: routeIds.get(key),
+				});
+
+				if (!isCurrent()) {
+					return;
+				}
+				inFlight.delete(key);
+
+				update(key, {
+					data,
+					error: undefined,
+					updatedAt: Date.now(),
+					isFetching: false,
+					isInvalidated: false,
+				});
+			} catch (err) {
+				// Aborted or replaced by a newer request
+				if (!isCurrent()) {
+					return;
+				}
+				inFlight.delete(key);
+
+				update(key, {
+					error: err instanceof Error ? err : new Error(String(err)),
+					isFetching: false,
+				});
+			}
+		})();
+
+		inFlight.set(key, { controller, promise });
+		return promise;
+	};
+
+	const fetchEntry = (
+		key: string,
+		{ routeId }: FetchCacheFetchOptions = {},
+	) => {
+		if (routeId) {
+			routeIds.set(key, routeId);
+		}
+		return inFlight.get(key)?.promise ?? startFetch(key);
+	};
+
+	const invalidateKey = (key: string) => {
+		update(key, { isInvalidated: true });
+		// A request in flight may have started before the change that caused the invalidation
+		if (isInUse(key)) {
+			startFetch(key);
+		}
+	};
+
+	return {
+		get: (key) => entries.get(key),
+		fetch: fetchEntry,
+		isStale: (key, staleTime) => {
+			const entry = entries.get(key);
+			return (
+				!entry ||
+				entry.isInvalidated ||
+				entry.updatedAt === 0 ||
+				Date.now() - entry.updatedAt > staleTime
+			);
+		},
+		subscribe: (key, listener, gcTime) => {
+			let keyListeners = listeners.get(key);
+			if (!keyListeners) {
+				keyListeners = new Set();
+				listeners.set(key, keyListeners);
+			}
+			keyListeners.add(listener);
+
+			// Entries are kept for the longest gcTime of their subscribers
+			gcTimes.set(key, Math.max(gcTimes.get(key) ?? 0, gcTime));
+			clearTimeout(gcTimeouts.get(key));
+			gcTimeouts.delete(key);
+
+			return () => {
+				keyListeners.delete(listener);
+				if (keyListeners.size > 0) {
+					return;
+				}
+
+				listeners.delete(key);
+
+				// Nothing is waiting for the request anymore
+				if (inFlight.has(key)) {
+					abort(key);
+					update(key, { isFetching: false });
+				}
+
+				const keyGcTime = gcTimes.get(key) ?? 0;
+				gcTimes.delete(key);
+				if (Number.isFinite(keyGcTime)) {
+					gcTimeouts.set(
+						key,
+						setTimeout(() => remove(key), keyGcTime),
+					);
+				}
+			};
+		},
+		invalidate: (path, ...args) => {
+			// biome-ignore lint/suspicious/noExplicitAny: Intentional
+			const key = href(path, ...(args as any));
+			if (entries.has(key)) {
+				invalidateKey(key);
+			}
+		},
+		invalidatePrefix: (prefix) => {
+			for (const key of Array.from(entries.keys())) {
+				if (matchesPrefix(key, prefix)) {
+					invalidateKey(key);
+				}
+			}
+		},
+		invalidateKey: (key) => {
+			if (entries.has(key)) {
+				invalidateKey(key);
+			}
+		},
+		entries: () =>
+			Array.from(entries, ([key, entry]) => ({
+				key,
+				entry,
+				subscribers: listeners.get(key)?.size ?? 0,
+			})),
+		clear: () => {
+			for (const key of Array.from(entries.keys())) {
+				if (!isInUse(key)) {
+					remove(key);
+				}
+			}
+		},
+		dehydrate: () => {
+			const state: DehydratedFetchCache = {};
+			for (const [key, { data, updatedAt }] of entries) {
+				if (updatedAt > 0) {
+					state[key] = { data, updatedAt };
+				}
+			}
+			return state;
+		},
+		hydrate: (state) => {
+			for (const [key, { data, updatedAt }] of Object.entries(state)) {
+				if ((entries.get(key)?.updatedAt ?? 0) < updatedAt) {
+					update(key, {
+						data,
+						error: undefined,
+						updatedAt,
+						isInvalidated: false,
+					});
+				}
+			}
+		},
+	};
+};
+
+/**
+ * The cache used when no FetchCacheContext is provided
+ */
+export const defaultFetchCache = createFetchCache();
+
+/**
+ * Provides the cache used by useCachedFetch, such as a separate cache per test. When
+ * rendering on the server, use {@link FetchCacheProvider} for a cache per request.
+ */
+export const FetchCacheContext = createContext<FetchCache>(defaultFetchCache);
+
+/**
+ * Returns the fetch cache of the current context, to invalidate cached data.
+ */
+export const useFetchCache = () => useContext(FetchCacheContext);
+
+/**
+ * Adds server-fetched data to the fetch cache of the current context, such as the
+ * dehydrated cache returned by a loader.
+ *
+ * Data for URLs missing from the cache is added while rendering, so the server render
+ * and the first client render both use it. Newer data for URLs already cached is added
+ * after rendering.
+ *
+ * @example
+ * ```tsx
+ * export const loader = async (args: Route.LoaderArgs) => {
+ *   const cache = createFetchCache({ load: routeLoaderFetch(build, args) });
+ *   await cache.fetch(href("/config"));
+ *   return { fetchCache: cache.dehydrate() };
+ * };
+ *
+ * export default function Dashboard({ loaderData }: Route.ComponentProps) {
+ *   useHydrateFetchCache(loaderData.fetchCache);
+ *   // Rendered with data on the server, without fetching again on the client
+ *   const { data } = useCachedFetch<typeof import("./config")>("/config");
+ * }
+ * ```
+ *
+ * @param state - The dehydrated cache
+ */
+export const useHydrateFetchCache = (
+	state: DehydratedFetchCache | undefined,
+) => {
+	const cache = useFetchCache();
+	const hydratedRef = useRef<DehydratedFetchCache | undefined>(undefined);
+
+	// Components may be subscribed to URLs already cached, so only missing URLs are added here
+	if (state && hydratedRef.current !== state) {
+		hydratedRef.current = state;
+		cache.hydrate(
+			Object.fromEntries(
+				Object.entries(state).filter(([key]) => !cache.get(key)),
+			),
+		);
+	}
+
+	useEffect(() => {
+		if (state) {
+			cache.hydrate(state);
+		}
+	}, [cache, state]);
+};
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Server rendering state of the fetch cache
+ *
+ * Shared by FetchCacheProvider, FetchCacheScript and useCachedFetch: whether the cache
+ * loads missing data while rendering on the server, and how the server-rendered cache is
+ * carried to the browser.
+ */
+
+import { createContext } from "react";
+import type { DehydratedFetchCache } from "./fetchCache";
+
+/**
+ * Whether useCachedFetch loads cache misses while rendering, set by FetchCacheProvider
+ * when it is given the server build
+ */
+export const FetchCacheServerRenderContext = createContext(false);
+
+/**
+ * The ID of the script element rendered by FetchCacheScript
+ */
+export const fetchCacheScriptId = "router-toolkit-fetch-cache";
+
+/**
+ * Serializes a dehydrated cache as JSON that can be embedded in a script element
+ */
+export const serializeFetchCache = (state: DehydratedFetchCache) =>
+	JSON.stringify(state).replace(/</g, "\\u003c");
+
+/**
+ * Returns the content of the script element rendered on the server, in the browser
+ */
+export const readFetchCacheScript = () =>
+	typeof document === "undefined"
+		? undefined
+		: (document.getElementById(fetchCacheScriptId)?.textContent ?? undefined);
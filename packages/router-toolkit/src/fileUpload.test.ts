@@ -0,0 +1,228 @@
+import { describe, expect, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import { z } from "zod";
+import { formAction } from "./formAction";
+import { type FileUpload, memoryUploadHandler } from "./fileUpload";
+import { actionArgs } from "../test-utils";
+
+const postForm = (fields: [string, string | File][]) => {
+	const body = new FormData();
+	for (const [key, value] of fields) {
+		body.append(key, value);
+	}
+	return new Request("http://localhost/upload", { method: "POST", body });
+};
+
+const png = (name: string, size: number) =>
+	new File([new Uint8Array(size)], name, { type: "image/png" });
+
+describe("formAction file uploads", () => {
+	const schema = z.object({
+		title: z.string().min(3),
+		images: z.array(z.instanceof(File)),
+	});
+
+	const action = formAction({
+		schema,
+		files: {
+			images: { maxSize: 100, accept: ["image/*"], maxFiles: 2 },
+		},
+		handler: async (_args, data) =>
+			success({
+				title: data.title,
+				images: data.images.map((file) => [file.name, file.size, file.type]),
+			}),
+	});
+
+	it("should store files within their limits", async () => {
+		const result = await action(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["images", png("a.png", 10)],
+					["images", png("b.png", 100)],
+				]),
+			),
+		);
+
+		expect(result).toEqual(
+			success({
+				title: "Holiday",
+				images: [
+					["a.png", 10, "image/png"],
+					["b.png", 100, "image/png"],
+				],
+			}),
+		);
+	});
+
+	it("should report limit violations as validation errors on the field", async () => {
+		const tooLarge = await action(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["images", png("a.png", 101)],
+				]),
+			),
+		);
+		const wrongType = await action(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["images", new File(["hi"], "a.txt", { type: "text/plain" })],
+				]),
+			),
+		);
+		const tooMany = await action(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["images", png("a.png", 1)],
+					["images", png("b.png", 1)],
+					["images", png("c.png", 1)],
+				]),
+			),
+		);
+
+		const fieldError = (message: string) =>
+			fail({
+				type: "validation" as const,
+				error: {
+					errors: [],
+					properties: { images: { errors: [message] } },
+				},
+			});
+
+		expect(tooLarge).toEqual(fieldError("File must be at most 100 bytes"));
+		expect(wrongType).toEqual(
+			fieldError(
+				"File type text/plain;charset=utf-8 is not allowed, expected image/*",
+			),
+		);
+		expect(tooMany).toEqual(fieldError("Too many files: expected at most 2"));
+	});
+
+	it("should merge file violations with schema errors", async () => {
+		const result = await action(
+			actionArgs(
+				postForm([
+					["title", "Hi"],
+					["images", png("a.png", 101)],
+				]),
+			),
+		);
+
+		expect(result).toEqual(
+			fail({
+				type: "validation" as const,
+				error: {
+					errors: [],
+					properties: {
+						title: {
+							errors: ["Too small: expected string to have >=3 characters"],
+						},
+						images: { errors: ["File must be at most 100 bytes"] },
+					},
+				},
+			}),
+		);
+	});
+
+	it("should skip files for fields without limits", async () => {
+		const result = await formAction({
+			schema: z.object({ title: z.string(), other: z.any() }),
+			files: {},
+			handler: async (_args, data) => success(data),
+		})(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["other", png("a.png", 10)],
+				]),
+			),
+		);
+
+		expect(result).toEqual(success({ title: "Holiday", other: undefined }));
+	});
+
+	it("should skip files for fields named like Object.prototype members", async () => {
+		const uploads: string[] = [];
+
+		const result = await formAction({
+			schema: z.object({ title: z.string() }).passthrough(),
+			files: { images: { maxSize: 100 } },
+			uploadHandler: async ({ fieldName, ...upload }) => {
+				uploads.push(fieldName);
+				return memoryUploadHandler()({ fieldName, ...upload });
+			},
+			handler: async (_args, data) => success(Object.keys(data)),
+		})(
+			actionArgs(
+				postForm([
+					["title", "Holiday"],
+					["constructor", png("a.png", 1000)],
+					["toString", png("b.png", 1000)],
+					["__proto__", png("c.png", 1000)],
+				]),
+			),
+		);
+
+		expect(result).toEqual(success(["title"]));
+		expect(uploads).toEqual([]);
+	});
+
+	it("should stream files to a custom upload handler", async () => {
+		const uploads: Omit<FileUpload, "stream">[] = [];
+
+		const result = await formAction({
+			schema: z.object({ document: z.string() }),
+			files: { document: { maxSize: 1024 } },
+			uploadHandler: async ({ stream, ...upload }) => {
+				uploads.push(upload);
+				const file = (await memoryUploadHandler()({
+					stream,
+					...upload,
+				})) as File;
+				return `stored:${await file.text()}`;
+			},
+			handler: async (_args, data) => success(data.document),
+		})(
+			actionArgs(
+				postForm([
+					[
+						"document",
+						new File(["contents"], "doc.txt", { type: "text/plain" }),
+					],
+				]),
+			),
+		);
+
+		expect(result).toEqual(success("stored:contents"));
+		expect(uploads).toEqual([
+			{
+				fieldName: "document",
+				filename: "doc.txt",
+				contentType: "text/plain;charset=utf-8",
+			},
+		]);
+	});
+
+	it("should report malformed multipart bodies as validation errors", async () => {
+		const result = await action(
+			actionArgs(
+				new Request("http://localhost/upload", {
+					method: "POST",
+					body: '--boundary\r\nContent-Disposition: form-data; name="title"\r\n\r\nHi',
+					headers: { "Content-Type": "multipart/form-data; boundary=boundary" },
+				}),
+			),
+		);
+
+		expect(result).toEqual(
+			fail({
+				type: "validation" as const,
+				error: { errors: ["Unexpected end of multipart body"] },
+			}),
+		);
+	});
+});
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview File upload handling for formAction
+ *
+ * Multipart bodies with declared file fields are parsed as a stream: each file is checked
+ * against its field's limits and handed to an upload handler as it arrives, instead of the
+ * whole request being buffered by `request.formData()`.
+ *
+ * @example
+ * ```typescript
+ * export const action = formAction({
+ *   schema: z.object({ title: z.string(), avatar: z.instanceof(File) }),
+ *   files: {
+ *     avatar: { maxSize: 5 * 1024 * 1024, accept: ["image/*"], maxFiles: 1 },
+ *   },
+ *   handler: async (args, data) => success(await saveAvatar(data.avatar)),
+ * });
+ * ```
+ */
+
+import type { z } from "zod";
+import {
+	getMultipartBoundary,
+	MultipartParseError,
+	type MultipartPart,
+	parseMultipart,
+	readMultipartText,
+} from "./parseMultipart";
+
+/**
+ * Limits for the files uploaded through a single form field
+ */
+export type FileFieldLimits = {
+	/**
+	 * Maximum size of each file, in bytes
+	 */
+	maxSize?: number;
+	/**
+	 * Allowed MIME types, such as `"image/png"` or `"image/*"`
+	 */
+	accept?: readonly string[];
+	/**
+	 * Maximum number of files for the field
+	 */
+	maxFiles?: number;
+};
+
+/**
+ * Map of form field name to the limits of the files uploaded through it
+ *
+ * File parts for fields that are not listed are skipped without being read.
+ */
+export type FileFields<TFieldName extends string = string> = {
+	[TField in TFieldName]?: FileFieldLimits;
+};
+
+/**
+ * A file being uploaded, passed to a {@link FileUploadHandler}
+ */
+export type FileUpload = {
+	/**
+	 * The form field name
+	 */
+	fieldName: string;
+	/**
+	 * The file name sent by the client
+	 */
+	filename: string;
+	/**
+	 * The MIME type sent by the client
+	 */
+	contentType: string;
+	/**
+	 * The file contents. The stream errors if the file exceeds its field's `maxSize`.
+	 */
+	stream: ReadableStream<Uint8Array>;
+};
+
+/**
+ * Stores an uploaded file, returning the value to use for the field in the form data.
+ *
+ * Return a `File` to validate the field with `z.instanceof(File)`, or a string such as
+ * a storage key or URL for custom sinks.
+ */
+export type FileUploadHandler = (upload: FileUpload) => Promise<File | string>;
+
+/**
+ * Options for reading a multipart body with file limits
+ */
+export type FileUploadOptions = {
+	/**
+	 * The file fields and their limits
+	 */
+	files: FileFields;
+	/**
+	 * Where to store uploaded files (defaults to {@link memoryUploadHandler})
+	 */
+	uploadHandler?: FileUploadHandler;
+};
+
+/**
+ * Creates an upload handler that keeps uploaded files in memory.
+ *
+ * @returns An upload handler that resolves each upload to a `File`
+ */
+export const memoryUploadHandler =
+	(): FileUploadHandler =>
+	async ({ filename, contentType, stream }) => {
+		const chunks: Uint8Array[] = [];
+		const reader = stream.getReader();
+
+		for (
+			let next = await reader.read();
+			!next.done;
+			next = await reader.read()
+		) {
+			chunks.push(next.value);
+		}
+
+		return new File(chunks as BlobPart[], filename, { type: contentType });
+	};
+
+const acceptsType = (accept: readonly string[], contentType: string) => {
+	const mediaType = contentType.split(";")[0].trim().toLowerCase();
+
+	return accept.some((pattern) => {
+		const normalized = pattern.trim().toLowerCase();
+		return normalized.endsWith("/*")
+			? mediaType.startsWith(normalized.slice(0, -1))
+			: normalized === "*" || normalized === mediaType;
+	});
+};
+
+class FileTooLargeError extends Error {
+	constructor(readonly maxSize: number) {
+		super(`File must be at most ${maxSize} bytes`);
+		this.name = "FileTooLargeError";
+	}
+}
+
+const uploadFile = async (
+	part: MultipartPart & { filename: string },
+	limits: FileFieldLimits,
+	uploadHandler: FileUploadHandler,
+): Promise<File | string | FileTooLargeError> => {
+	const { maxSize = Number.POSITIVE_INFINITY } = limits;
+	let size = 0;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const chunk = await part.read();
+			if (chunk === null) {
+				controller.close();
+				return;
+			}
+
+			size += chunk.byteLength;
+			if (size > maxSize) {
+				controller.error(new FileTooLargeError(maxSize));
+				return;
+			}
+
+			controller.enqueue(chunk);
+		},
+	});
+
+	try {
+		const value = await uploadHandler({
+			fieldName: part.name,
+			filename: part.filename,
+			contentType: part.contentType,
+			stream,
+		});
+
+		return size > maxSize ? new FileTooLargeError(maxSize) : value;
+	} catch (error) {
+		if (error instanceof FileTooLargeError) {
+			return error;
+		}
+		throw error;
+	}
+};
+
+/**
+ * Reads a multipart request body as a stream, applying per-field file limits.
+ *
+ * Files that break a limit are skipped and reported as issues on their field, so they can
+ * be merged into the usual `"validation"` error tree.
+ *
+ * @param request - The incoming `multipart/form-data` request
+ * @param options - The file fields, their limits and the upload handler
+ * @returns The form data with uploaded files, and the issues for files that broke a limit
+ * @throws {MultipartParseError} When the body is not valid multipart
+ */
+export const readMultipartFormData = async (
+	request: Request,
+	{ files, uploadHandler = memoryUploadHandler() }: FileUploadOptions,
+): Promise<{ data: FormData; issues: z.core.$ZodIssue[] }> => {
+	const boundary = getMultipartBoundary(request.headers.get("Content-Type"));
+	if (!boundary || !request.body) {
+		throw new MultipartParseError("Missing multipart boundary or body");
+	}
+
+	// Own keys only, so a part named "constructor" does not get an Object.prototype
+	// member as its limits
+	const fieldLimits = new Map(Object.entries(files));
+	const data = new FormData();
+	// Only the first problem with each field is reported
+	const fieldIssues = new Map<string, string>();
+	const fileCounts = new Map<string, number>();
+
+	for await (const part of parseMultipart(request.body, boundary)) {
+		if (part.filename === undefined) {
+			data.append(part.name, await readMultipartText(part));
+			continue;
+		}
+
+		const limits = fieldLimits.get(part.name);
+		if (!limits) {
+			continue;
+		}
+
+		// Browsers send an empty, unnamed file for file inputs left empty
+		if (part.filename === "") {
+			data.append(
+				part.name,
+				new File([], "", { type: "application/octet-stream" }),
+			);
+			continue;
+		}
+
+		if (fieldIssues.has(part.name)) {
+			continue;
+		}
+
+		const count = (fileCounts.get(part.name) ?? 0) + 1;
+		fileCounts.set(part.name, count);
+
+		if (limits.maxFiles !== undefined && count > limits.maxFiles) {
+			fieldIssues.set(
+				part.name,
+				`Too many files: expected at most ${limits.maxFiles}`,
+			);
+			continue;
+		}
+
+		if (limits.accept && !acceptsType(limits.accept, part.contentType)) {
+			fieldIssues.set(
+				part.name,
+				`File type ${part.contentType} is not allowed, expected ${limits.accept.join(", ")}`,
+			);
+			continue;
+		}
+
+		const value = await uploadFile(
+			{ ...part, filename: part.filename },
+			limits,
+			uploadHandler,
+		);
+		if (value instanceof FileTooLargeError) {
+			fieldIssues.set(part.name, value.message);
+			continue;
+		}
+
+		data.append(part.name, value);
+	}
+
+	return {
+		data,
+		issues: Array.from(fieldIssues, ([field, message]) => ({
+			code: "custom" as const,
+			message,
+			path: [field],
+			input: undefined,
+		})),
+	};
+};
@@ -1,6 +1,9 @@
 import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
 import { z } from "zod";
 import type { $ZodErrorTree } from "zod/v4/core";
+import { formAction } from "./formAction";
+import { actionArgs } from "../test-utils";
 
 function assert(expression: unknown): asserts expression {
 	expect(expression).toBeTruthy();
@@ -75,3 +78,144 @@ describe("z.treeifyError", () => {
 		);
 	});
 });
+
+describe("formAction", () => {
+	const schema = z.object({
+		title: z.string().min(3),
+		count: z.coerce.number(),
+	});
+
+	const action = formAction({
+		schema,
+		handler: async (_args, data) => success(data),
+	});
+
+	const post = (body: BodyInit, contentType?: string) =>
+		new Request("http://localhost/test", {
+			method: "POST",
+			body,
+			headers: contentType ? { "Content-Type": contentType } : undefined,
+		});
+
+	it("should validate multipart form bodies", async () => {
+		const body = new FormData();
+		body.set("title", "Hello");
+		body.set("count", "3");
+
+		const result = await action(actionArgs(post(body)));
+
+		expect(result).toEqual({
+			success: true,
+			result: { title: "Hello", count: 3 },
+		});
+	});
+
+	it("should validate URL-encoded bodies", async () => {
+		const result = await action(
+			actionArgs(
+				post(
+					"title=Hello&count=4",
+					"application/x-www-form-urlencoded;charset=UTF-8",
+				),
+			),
+		);
+
+		expect(result).toEqual({
+			success: true,
+			result: { title: "Hello", count: 4 },
+		});
+	});
+
+	it("should validate JSON bodies", async () => {
+		const result = await action(
+			actionArgs(
+				post(JSON.stringify({ title: "Hello", count: 5 }), "application/json"),
+			),
+		);
+
+		expect(result).toEqual({
+			success: true,
+			result: { title: "Hello", count: 5 },
+		});
+	});
+
+	it("should return the same validation error shape for every encoding", async () => {
+		const expected = fail({
+			type: "validation" as const,
+			error: {
+				errors: [],
+				properties: {
+					title: {
+						errors: ["Too small: expected string to have >=3 characters"],
+					},
+				},
+			},
+		});
+
+		const formBody = new FormData();
+		formBody.set("title", "Hi");
+		formBody.set("count", "1");
+
+		expect(await action(actionArgs(post(formBody)))).toEqual(expected);
+		expect(
+			await action(
+				actionArgs(
+					post("title=Hi&count=1", "application/x-www-form-urlencoded"),
+				),
+			),
+		).toEqual(expected);
+		expect(
+			await action(
+				actionArgs(
+					post(JSON.stringify({ title: "Hi", count: 1 }), "application/json"),
+				),
+			),
+		).toEqual(expected);
+	});
+
+	it("should report malformed JSON as a validation error", async () => {
+		const result = await action(
+			actionArgs(post("{ not json", "application/json")),
+		);
+
+		expect(result).toEqual({
+			success: false,
+			error: {
+				type: "validation",
+				error: { errors: ["Invalid JSON body"] },
+			},
+		});
+	});
+
+	it("should report unsupported content types as a validation error", async () => {
+		const result = await action(actionArgs(post("hello", "text/plain")));
+
+		expect(result).toEqual({
+			success: false,
+			error: {
+				type: "validation",
+				error: { errors: ["Unsupported content type: text/plain"] },
+			},
+		});
+	});
+
+	it("should re-throw Response objects from the handler", async () => {
+		const redirecting = formAction({
+			schema,
+			handler: async () => {
+				throw new Response(null, { status: 302 });
+			},
+		});
+
+		await expect(
+			redirecting(
+				actionArgs(
+					post(
+						JSON.stringify({ title: "Hello", count: 1 }),
+						"application/json",
+					),
+				),
+			),
+		).rejects.toBeInstanceOf(Response);
+	});
+});
@@ -3,6 +3,7 @@
  *
  * This module provides a wrapper for React Router actions that handles form data validation
  * using Zod schemas and provides structured error handling with MaybeError.
+ * JSON, URL-encoded and multipart request bodies are all validated against the same schema.
  *
  * @example
  * ```typescript
@@ -28,21 +29,38 @@
 
 import { fail, type MaybeError } from "@firtoz/maybe-error";
 import type { ActionFunctionArgs } from "react-router";
-import { z } from "zod";
-import { zfd } from "zod-form-data";
+import type { z } from "zod";
+import {
+	type AnyFormActionMiddleware,
+	type FormActionMiddlewareContext,
+	type FormActionMiddlewareError,
+	runFormActionMiddleware,
+	type ValidateFormActionMiddleware,
+} from "./formActionMiddleware";
+import type { FileFields, FileUploadHandler } from "./fileUpload";
+import {
+	parseRequestBody,
+	type RequestBodyValidationError,
+} from "./parseRequestBody";
 
 /**
  * Error types that can be returned by formAction
+ *
+ * The `"middleware"` variant is only present when the action uses middleware.
  */
-export type FormActionError<TError, TSchema extends z.ZodTypeAny> =
-	| {
-			type: "validation";
-			error: ReturnType<typeof z.treeifyError<z.infer<TSchema>>>;
-	  }
+export type FormActionError<
+	TError,
+	TSchema extends z.ZodTypeAny,
+	TMiddlewareError extends { name: string; error: unknown } = never,
+> =
+	| RequestBodyValidationError<TSchema>
 	| {
 			type: "handler";
 			error: TError;
 	  }
+	| ({
+			type: "middleware";
+	  } & TMiddlewareError)
 	| {
 			type: "unknown";
 	  };
@@ -54,46 +72,101 @@ export type FormActionError<TError, TSchema extends z.ZodTypeAny> =
  * @template TResult - The success result type from the handler
  * @template TError - The error type that the handler can return
  * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ * @template TMiddleware - The middleware that runs before the handler (defaults to none)
  */
 export interface FormActionConfig<
 	TSchema extends z.ZodTypeAny,
 	TResult = undefined,
 	TError = string,
 	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+	TMiddleware extends readonly AnyFormActionMiddleware[] = [],
 > {
+	/**
+	 * Middleware to run, in order, before the request body is parsed
+	 */
+	middleware?: TMiddleware;
 	/**
 	 * Zod schema to validate the form data against
 	 */
 	schema: TSchema;
+	/**
+	 * File fields and their limits. When set, multipart bodies are streamed and each
+	 * file is passed to `uploadHandler` instead of buffering the whole request.
+	 */
+	files?: FileFields<keyof z.input<TSchema> & string>;
+	/**
+	 * Where to store uploaded files (defaults to `memoryUploadHandler()`)
+	 */
+	uploadHandler?: FileUploadHandler;
 	/**
 	 * Handler function that processes the validated form data
 	 *
 	 * @param args - The original action function arguments
 	 * @param data - The validated form data (typed according to the schema)
+	 * @param context - The context provided by the middleware
 	 * @returns A promise that resolves to a MaybeError with the result or error
 	 */
 	handler: (
 		args: ActionArgs,
 		data: z.infer<TSchema>,
+		context: FormActionMiddlewareContext<TMiddleware>,
 	) => Promise<MaybeError<TResult, TError>>;
 }
 
+/**
+ * An action function created by {@link formAction}.
+ *
+ * The middleware, schema, file options and handler are exposed as properties, so helpers
+ * such as `methodAction`, `intentAction` and `useDynamicSubmitter` can build on the action
+ * itself.
+ */
+export type FormAction<
+	TSchema extends z.ZodTypeAny,
+	TResult = undefined,
+	TError = string,
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+	TMiddleware extends readonly AnyFormActionMiddleware[] = [],
+	TFiles extends FileFields | undefined = undefined,
+> = ((
+	args: ActionArgs,
+) => Promise<
+	MaybeError<
+		TResult,
+		FormActionError<TError, TSchema, FormActionMiddlewareError<TMiddleware>>
+	>
+>) & {
+	middleware: TMiddleware;
+	schema: TSchema;
+	files: TFiles;
+	uploadHandler: FileUploadHandler | undefined;
+	handler: FormActionConfig<
+		TSchema,
+		TResult,
+		TError,
+		ActionArgs,
+		TMiddleware
+	>["handler"];
+};
+
 /**
  * Creates a type-safe form action handler that validates form data and provides structured error handling.
  *
  * This function wraps a React Router action to:
- * 1. Parse and validate form data using a Zod schema
- * 2. Call the provided handler with validated data
- * 3. Return structured errors for validation failures, handler errors, or unknown errors
- * 4. Preserve React Router Response objects (redirects, etc.) by re-throwing them
+ * 1. Run the configured middleware, in order, collecting the context they provide
+ * 2. Parse the request body based on its `Content-Type` (JSON, URL-encoded or multipart)
+ *    and validate it using a Zod schema, streaming declared `files` through the upload handler
+ * 3. Call the provided handler with validated data and the middleware context
+ * 4. Return structured errors for middleware, validation, handler or unknown errors
+ * 5. Preserve React Router Response objects (redirects, etc.) by re-throwing them
  *
  * @template TSchema - The Zod schema type for form validation
  * @template TResult - The success result type from the handler (defaults to undefined)
  * @template TError - The error type that the handler can return (defaults to string)
  * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ * @template TMiddleware - The middleware that runs before the handler (defaults to none)
  *
- * @param config - Configuration object containing schema and handler
- * @returns An action function that can be used with React Router
+ * @param config - Configuration object containing middleware, schema and handler
+ * @returns An action function that can be used with React Router, with the schema and handler attached
  *
  * @example
  * ```typescript
@@ -132,6 +205,9 @@ export interface FormActionConfig<
  *     case "handler":
  *       // Handle business logic errors - actionData.error.error contains your custom error
  *       break;
+ *     case "middleware":
+ *       // Only present when middleware is used - actionData.error.name tells which one failed
+ *       break;
  *     case "unknown":
  *       // Handle unexpected errors
  *       break;
@@ -144,27 +220,51 @@ export const formAction = <
 	TResult = undefined,
 	TError = string,
 	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+	const TMiddleware extends readonly AnyFormActionMiddleware[] = [],
+	const TFiles extends
+		| FileFields<keyof z.input<TSchema> & string>
+		| undefined = undefined,
 >({
+	middleware: configMiddleware,
 	schema,
+	files,
+	uploadHandler,
 	handler,
-}: FormActionConfig<TSchema, TResult, TError, ActionArgs>) => {
-	return async (
+}: FormActionConfig<TSchema, TResult, TError, ActionArgs, TMiddleware> & {
+	middleware?: ValidateFormActionMiddleware<TMiddleware>;
+	files?: TFiles;
+}): FormAction<TSchema, TResult, TError, ActionArgs, TMiddleware, TFiles> => {
+	const middleware = (configMiddleware ?? []) as TMiddleware;
+
+	const action = async (
 		args: ActionArgs,
-	): Promise<MaybeError<TResult, FormActionError<TError, TSchema>>> => {
+	): Promise<
+		MaybeError<
+			TResult,
+			FormActionError<TError, TSchema, FormActionMiddlewareError<TMiddleware>>
+		>
+	> => {
 		try {
-			const rawFormData = await args.request.formData();
-			const formData = await zfd.formData(schema).safeParseAsync(rawFormData);
+			const context = await runFormActionMiddleware(middleware, args);
+			if (!context.success) {
+				return context;
+			}
+
+			const formData = await parseRequestBody(
+				args.request,
+				schema,
+				files ? { files, uploadHandler } : undefined,
+			);
 
 			if (!formData.success) {
-				return fail({
-					type: "validation" as const,
-					error: z.treeifyError<z.infer<TSchema>>(
-						formData.error as z.core.$ZodError<z.infer<TSchema>>,
-					),
-				});
+				return formData;
 			}
 
-			const handlerResult = await handler(args, formData.data);
+			const handlerResult = await handler(
+				args,
+				formData.result as z.infer<TSchema>,
+				context.result as FormActionMiddlewareContext<TMiddleware>,
+			);
 			if (!handlerResult.success) {
 				return fail({
 					type: "handler" as const,
@@ -185,4 +285,12 @@ export const formAction = <
 			});
 		}
 	};
+
+	return Object.assign(action, {
+		middleware,
+		schema,
+		files: files as TFiles,
+		uploadHandler,
+		handler,
+	});
 };
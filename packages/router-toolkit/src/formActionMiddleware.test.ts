@@ -0,0 +1,222 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import { z } from "zod";
+import { formAction } from "./formAction";
+import {
+	formActionMiddleware,
+	runFormActionMiddleware,
+} from "./formActionMiddleware";
+import { intentAction } from "./intentAction";
+import { actionArgs } from "../test-utils";
+
+type User = { id: number; isAdmin: boolean };
+
+const users: Record<string, User> = {
+	alice: { id: 1, isAdmin: true },
+	bob: { id: 2, isAdmin: false },
+};
+
+const postForm = (fields: Record<string, string>, user?: string) => {
+	const body = new FormData();
+	for (const [key, value] of Object.entries(fields)) {
+		body.set(key, value);
+	}
+	return new Request("http://localhost/todos", {
+		method: "POST",
+		body,
+		headers: user ? { Authorization: user } : undefined,
+	});
+};
+
+const requireUser = formActionMiddleware({
+	name: "auth",
+	handler: async ({ request }) => {
+		const user = users[request.headers.get("Authorization") ?? ""];
+		if (!user) {
+			return fail("unauthenticated" as const);
+		}
+		return success({ user });
+	},
+});
+
+const requireAdmin = formActionMiddleware({
+	name: "admin",
+	handler: async (_args, context: { user: User }) =>
+		context.user.isAdmin ? success() : fail("forbidden" as const),
+});
+
+describe("formActionMiddleware", () => {
+	it("should pass the combined context to the handler", async () => {
+		const action = formAction({
+			middleware: [
+				requireUser,
+				requireAdmin,
+				formActionMiddleware({
+					name: "requestId",
+					handler: async () => success({ requestId: "abc" }),
+				}),
+			],
+			schema: z.object({ title: z.string() }),
+			handler: async (_args, data, context) => {
+				expectTypeOf(context).toEqualTypeOf<
+					{ user: User } & { requestId: string }
+				>();
+				return success({ ...data, ...context });
+			},
+		});
+
+		expect(
+			await action(actionArgs(postForm({ title: "Hello" }, "alice"))),
+		).toEqual(success({ title: "Hello", user: users.alice, requestId: "abc" }));
+	});
+
+	it("should short-circuit with the error of the first failing middleware", async () => {
+		let handlerCalled = false;
+
+		const action = formAction({
+			middleware: [requireUser, requireAdmin],
+			schema: z.object({ title: z.string() }),
+			handler: async () => {
+				handlerCalled = true;
+				return success();
+			},
+		});
+
+		const unauthenticated = await action(
+			actionArgs(postForm({ title: "Hello" })),
+		);
+		expect(unauthenticated).toEqual(
+			fail({
+				type: "middleware" as const,
+				name: "auth" as const,
+				error: "unauthenticated" as const,
+			}),
+		);
+
+		// Middleware runs before the body is validated
+		expect(await action(actionArgs(postForm({}, "bob")))).toEqual(
+			fail({
+				type: "middleware" as const,
+				name: "admin" as const,
+				error: "forbidden" as const,
+			}),
+		);
+
+		expect(handlerCalled).toBe(false);
+
+		if (
+			!unauthenticated.success &&
+			unauthenticated.error.type === "middleware"
+		) {
+			expectTypeOf(unauthenticated.error).toEqualTypeOf<
+				{ type: "middleware" } & (
+					| { name: "auth"; error: "unauthenticated" }
+					| { name: "admin"; error: "forbidden" }
+				)
+			>();
+		}
+	});
+
+	it("should run middleware in order", async () => {
+		const calls: string[] = [];
+		const track = <const TName extends string>(name: TName) =>
+			formActionMiddleware({
+				name,
+				handler: async () => {
+					calls.push(name);
+					return success();
+				},
+			});
+
+		const result = await runFormActionMiddleware(
+			[track("first"), track("second"), track("third")],
+			actionArgs(postForm({})),
+		);
+
+		expect(result).toEqual(success({}));
+		expect(calls).toEqual(["first", "second", "third"]);
+	});
+
+	it("should require middleware dependencies to run first", () => {
+		formAction({
+			// @ts-expect-error requireAdmin needs the user provided by requireUser
+			middleware: [requireAdmin, requireUser],
+			schema: z.object({}),
+			handler: async () => success(),
+		});
+	});
+
+	it("should re-throw Response objects from middleware", async () => {
+		const redirect = new Response(null, {
+			status: 302,
+			headers: { Location: "/login" },
+		});
+
+		const action = formAction({
+			middleware: [
+				formActionMiddleware({
+					name: "redirect",
+					handler: async () => {
+						throw redirect;
+					},
+				}),
+			],
+			schema: z.object({}),
+			handler: async () => success(),
+		});
+
+		await expect(action(actionArgs(postForm({})))).rejects.toBe(redirect);
+	});
+
+	it("should run the middleware of the matching intentAction entry", async () => {
+		const action = intentAction({
+			rename: formAction({
+				schema: z.object({ title: z.string() }),
+				handler: async (_args, data) => success(data.title),
+			}),
+			remove: formAction({
+				middleware: [requireUser, requireAdmin],
+				schema: z.object({}),
+				handler: async (_args, _data, context) => success(context.user.id),
+			}),
+		});
+
+		expect(
+			await action(actionArgs(postForm({ intent: "rename", title: "New" }))),
+		).toEqual({ ...success("New"), intent: "rename" });
+		expect(
+			await action(actionArgs(postForm({ intent: "remove" }, "alice"))),
+		).toEqual({ ...success(1), intent: "remove" });
+		expect(
+			await action(actionArgs(postForm({ intent: "remove" }, "bob"))),
+		).toEqual({
+			...fail({
+				type: "middleware" as const,
+				name: "admin" as const,
+				error: "forbidden" as const,
+			}),
+			intent: "remove" as const,
+		});
+	});
+
+	it("should run intentAction middleware before validating the body", async () => {
+		const action = intentAction({
+			rename: formAction({
+				middleware: [requireUser],
+				schema: z.object({ title: z.string().min(1) }),
+				handler: async (_args, data) => success(data.title),
+			}),
+		});
+
+		expect(
+			await action(actionArgs(postForm({ intent: "rename", title: "" }))),
+		).toEqual({
+			...fail({
+				type: "middleware" as const,
+				name: "auth" as const,
+				error: "unauthenticated" as const,
+			}),
+			intent: "rename" as const,
+		});
+	});
+});
@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Middleware for formAction
+ *
+ * Middleware runs before the request body is parsed, in the order it is listed. Each middleware
+ * can short-circuit the action with a typed error, or extend the context object that is passed
+ * to the handler, so cross-cutting policy such as authentication and rate limiting lives in one place.
+ *
+ * @example
+ * ```typescript
+ * import { formActionMiddleware } from "@firtoz/router-toolkit";
+ * import { fail, success } from "@firtoz/maybe-error";
+ *
+ * export const requireUser = formActionMiddleware({
+ *   name: "auth",
+ *   handler: async ({ request }) => {
+ *     const user = await getUserFromSession(request);
+ *     if (!user) {
+ *       return fail("unauthenticated" as const);
+ *     }
+ *     return success({ user });
+ *   },
+ * });
+ * ```
+ */
+
+import { fail, type MaybeError } from "@firtoz/maybe-error";
+import type { ActionFunctionArgs } from "react-router";
+import { succeed } from "./succeed";
+
+/**
+ * A middleware that runs before a formAction handler.
+ *
+ * @template TName - Literal name of the middleware, reported with its errors
+ * @template TContext - Values added to the handler context (undefined to add nothing)
+ * @template TError - The error type the middleware can fail with
+ * @template TRequires - Context that earlier middleware must have provided
+ * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ */
+export type FormActionMiddleware<
+	TName extends string = string,
+	TContext extends object | undefined = undefined,
+	TError = string,
+	// biome-ignore lint/complexity/noBannedTypes: No context is required by default
+	TRequires extends object = {},
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+> = {
+	/**
+	 * Name of the middleware, reported in `{ type: "middleware" }` errors
+	 */
+	name: TName;
+	/**
+	 * Runs the middleware
+	 *
+	 * @param args - The original action function arguments
+	 * @param context - The context provided by the middleware that ran before this one
+	 * @returns A MaybeError with the values to add to the context, or the error to stop with
+	 */
+	handler: (
+		args: ActionArgs,
+		context: TRequires,
+	) => Promise<MaybeError<TContext, TError>>;
+};
+
+/**
+ * Matches any formAction middleware, regardless of its context, error and requirements.
+ */
+export type AnyFormActionMiddleware = {
+	name: string;
+	handler: (args: never, context: never) => Promise<unknown>;
+};
+
+type ContextOf<TMiddleware> = TMiddleware extends {
+	handler: (...args: never[]) => Promise<infer TResult>;
+}
+	? [Extract<TResult, { success: true }>] extends [
+			{ result: infer TContext extends object },
+		]
+		? TContext
+		: // biome-ignore lint/complexity/noBannedTypes: Middleware that adds nothing
+			{}
+	: // biome-ignore lint/complexity/noBannedTypes: Middleware that adds nothing
+		{};
+
+type RequirementsOf<TMiddleware> = TMiddleware extends {
+	handler: (args: never, context: infer TRequires) => Promise<unknown>;
+}
+	? // A handler without a context parameter requires nothing
+		[TRequires] extends [never]
+		? unknown
+		: TRequires
+	: never;
+
+/**
+ * The context object provided by a list of middleware: the intersection of every
+ * middleware's context.
+ */
+export type FormActionMiddlewareContext<
+	TMiddleware extends readonly AnyFormActionMiddleware[],
+> = TMiddleware extends readonly [
+	infer THead,
+	...infer TTail extends readonly AnyFormActionMiddleware[],
+]
+	? ContextOf<THead> & FormActionMiddlewareContext<TTail>
+	: // biome-ignore lint/complexity/noBannedTypes: An empty list provides no context
+		{};
+
+/**
+ * The errors that a list of middleware can fail with, each tagged with the middleware's name.
+ */
+export type FormActionMiddlewareError<
+	TMiddleware extends readonly AnyFormActionMiddleware[],
+> = {
+	[TIndex in keyof TMiddleware]: TMiddleware[TIndex] extends {
+		name: infer TName;
+		handler: (...args: never[]) => Promise<infer TResult>;
+	}
+		? TResult extends { success: false; error: infer TError }
+			? { name: TName; error: TError }
+			: never
+		: never;
+}[number];
+
+/**
+ * Checks that every middleware's required context is provided by the middleware before it.
+ *
+ * Middleware whose requirements are not met is replaced by `never`, which turns the
+ * ordering mistake into a compile error at the `middleware` option.
+ */
+export type ValidateFormActionMiddleware<
+	TMiddleware extends readonly AnyFormActionMiddleware[],
+	// biome-ignore lint/complexity/noBannedTypes: Nothing is provided before the first middleware
+	TProvided = {},
+> = TMiddleware extends readonly [
+	infer THead,
+	...infer TTail extends readonly AnyFormActionMiddleware[],
+]
+	? readonly [
+			TProvided extends RequirementsOf<THead> ? THead : never,
+			...ValidateFormActionMiddleware<TTail, TProvided & ContextOf<THead>>,
+		]
+	: TMiddleware;
+
+/**
+ * Defines a formAction middleware, preserving its literal name and context types.
+ *
+ * @param middleware - The middleware name and handler
+ * @returns The same middleware, typed for use in the `middleware` option of formAction
+ *
+ * @example
+ * ```typescript
+ * // Middleware can depend on context provided by earlier middleware:
+ * export const requireAdmin = formActionMiddleware({
+ *   name: "admin",
+ *   handler: async (args, context: { user: User }) =>
+ *     context.user.isAdmin ? success() : fail("forbidden" as const),
+ * });
+ *
+ * export const action = formAction({
+ *   middleware: [requireUser, requireAdmin],
+ *   schema,
+ *   handler: async (args, data, context) => {
+ *     // context.user is typed
+ *     return success();
+ *   },
+ * });
+ * ```
+ */
+export const formActionMiddleware = <
+	const TName extends string,
+	TContext extends object | undefined = undefined,
+	TError = string,
+	// biome-ignore lint/complexity/noBannedTypes: No context is required by default
+	TRequires extends object = {},
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+>(
+	middleware: FormActionMiddleware<
+		TName,
+		TContext,
+		TError,
+		TRequires,
+		ActionArgs
+	>,
+) => middleware;
+
+/**
+ * Runs a list of middleware in order, accumulating their context.
+ *
+ * Stops at the first middleware that fails, returning its error tagged with its name.
+ *
+ * @param middleware - The middleware to run
+ * @param args - The action function arguments
+ * @returns The combined context, or the first middleware error
+ */
+export const runFormActionMiddleware = async <
+	const TMiddleware extends readonly AnyFormActionMiddleware[],
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+>(
+	middleware: TMiddleware,
+	args: ActionArgs,
+): Promise<
+	MaybeError<
+		FormActionMiddlewareContext<TMiddleware>,
+		{ type: "middleware" } & FormActionMiddlewareError<TMiddleware>
+	>
+> => {
+	let context: object = {};
+
+	for (const { name, handler } of middleware) {
+		const result = (await (
+			handler as (
+				args: ActionArgs,
+				context: object,
+			) => Promise<MaybeError<object | undefined, unknown>>
+		)(args, context)) as MaybeError<object | undefined, unknown>;
+
+		if (!result.success) {
+			return fail({
+				type: "middleware",
+				name,
+				error: result.error,
+			} as { type: "middleware" } & FormActionMiddlewareError<TMiddleware>);
+		}
+
+		if (result.result) {
+			context = { ...context, ...result.result };
+		}
+	}
+
+	return succeed(context as FormActionMiddlewareContext<TMiddleware>);
+};
@@ -1,7 +1,27 @@
 export * from "./formAction";
+export * from "./formActionMiddleware";
+export * from "./FetchCacheProvider";
+export * from "./fetchCache";
+export * from "./fileUpload";
+export * from "./intentAction";
+export * from "./methodAction";
+export * from "./parseMultipart";
+export * from "./parseRequestBody";
+export * from "./routeClient";
+export * from "./routeLoaderFetch";
+export * from "./searchParams";
+export * from "./singleFetch";
+export * from "./submissionQueue";
+export * from "./typedLoader";
 export * from "./types/index";
 export * from "./useCachedFetch";
 export * from "./useDynamicFetcher";
 export * from "./useDynamicSubmitter";
+export * from "./useFetcherLifecycle";
 export * from "./useFetcherStateChanged";
+export * from "./useFormValidation";
+export * from "./useInfiniteFetcher";
+export * from "./useInvalidateOnSuccess";
+export * from "./useOptimisticSubmission";
+export * from "./useQueuedSubmitter";
 // Test comment to trigger release
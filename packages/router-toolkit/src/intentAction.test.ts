@@ -0,0 +1,167 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import { z } from "zod";
+import { formAction } from "./formAction";
+import { intentAction } from "./intentAction";
+import { actionArgs } from "../test-utils";
+
+const postForm = (fields: Record<string, string>) => {
+	const body = new FormData();
+	for (const [key, value] of Object.entries(fields)) {
+		body.set(key, value);
+	}
+	return new Request("http://localhost/todos/1", { method: "POST", body });
+};
+
+describe("intentAction", () => {
+	const action = intentAction({
+		rename: formAction({
+			schema: z.object({ title: z.string().min(1) }),
+			handler: async (_args, data) => success({ renamed: data.title }),
+		}),
+		archive: formAction({
+			schema: z.object({ reason: z.string().optional() }),
+			handler: async (_args, data) =>
+				data.reason === "locked" ? fail("locked" as const) : success(),
+		}),
+	});
+
+	it("should dispatch to the handler for the submitted intent", async () => {
+		expect(
+			await action(actionArgs(postForm({ intent: "rename", title: "New" }))),
+		).toEqual({ ...success({ renamed: "New" }), intent: "rename" });
+		expect(await action(actionArgs(postForm({ intent: "archive" })))).toEqual({
+			success: true,
+			intent: "archive",
+		});
+	});
+
+	it("should validate with the schema of the submitted intent", async () => {
+		const result = await action(
+			actionArgs(postForm({ intent: "rename", title: "" })),
+		);
+
+		expect(result.intent).toBe("rename");
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error).toEqual({
+				type: "validation",
+				error: {
+					errors: [],
+					properties: {
+						title: {
+							errors: ["Too small: expected string to have >=1 characters"],
+						},
+					},
+				},
+			});
+		}
+	});
+
+	it("should report a missing or unknown intent as a validation error", async () => {
+		const requests: Record<string, string>[] = [
+			{ title: "New" },
+			{ intent: "delete" },
+		];
+
+		for (const fields of requests) {
+			const result = await action(actionArgs(postForm(fields)));
+
+			expect(result.intent).toBeUndefined();
+			expect(result.success).toBe(false);
+			if (result.intent === undefined) {
+				expect(result.error.type).toBe("validation");
+				if (result.error.type === "validation") {
+					expect(result.error.error.properties?.intent).toBeDefined();
+				}
+			}
+		}
+	});
+
+	it("should wrap handler errors with the intent", async () => {
+		expect(
+			await action(
+				actionArgs(postForm({ intent: "archive", reason: "locked" })),
+			),
+		).toEqual({
+			...fail({ type: "handler" as const, error: "locked" as const }),
+			intent: "archive",
+		});
+	});
+
+	it("should support a custom intent field and JSON bodies", async () => {
+		const customAction = intentAction(
+			{
+				rename: formAction({
+					schema: z.object({ title: z.string() }),
+					handler: async (_args, data) => success(data.title),
+				}),
+			},
+			{ field: "_action" },
+		);
+
+		const result = await customAction(
+			actionArgs(
+				new Request("http://localhost/todos/1", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ _action: "rename", title: "New" }),
+				}),
+			),
+		);
+
+		expect(result).toEqual({ ...success("New"), intent: "rename" });
+	});
+
+	it("should type results by intent", async () => {
+		const result = await action(
+			actionArgs(postForm({ intent: "rename", title: "New" })),
+		);
+
+		expectTypeOf(result.intent).toEqualTypeOf<
+			"rename" | "archive" | undefined
+		>();
+
+		if (result.intent === "rename" && result.success) {
+			expectTypeOf(result.result).toEqualTypeOf<{ renamed: string }>();
+		}
+
+		if (result.intent === "archive" && !result.success) {
+			if (result.error.type === "handler") {
+				expectTypeOf(result.error.error).toEqualTypeOf<"locked">();
+			}
+		}
+
+		if (result.intent === undefined) {
+			expectTypeOf(result.success).toEqualTypeOf<false>();
+		}
+	});
+
+	it("should reject intents with file uploads", () => {
+		const upload = formAction({
+			schema: z.object({ avatar: z.instanceof(File) }),
+			files: { avatar: { maxSize: 100 } },
+			handler: async () => success(),
+		});
+
+		expect(() =>
+			intentAction({
+				// @ts-expect-error File limits can't be applied per intent
+				upload,
+			}),
+		).toThrow(
+			'intentAction does not support file uploads, but the "upload" intent declares files',
+		);
+	});
+
+	it("should expose the discriminated union schema", () => {
+		expectTypeOf<z.infer<typeof action.schema>>().toEqualTypeOf<
+			| ({ title: string } & { intent: "rename" })
+			| ({ reason?: string | undefined } & { intent: "archive" })
+		>();
+		expect(
+			action.schema.safeParse({ intent: "rename", title: "New" }).success,
+		).toBe(true);
+		expect(action.schema.safeParse({ intent: "other" }).success).toBe(false);
+	});
+});
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Intent-based multi-action routes for React Router 7
+ *
+ * Pages often have several buttons posting to the same route, told apart by a hidden `intent`
+ * field. `intentAction` validates the body with a Zod discriminated union on that field and
+ * dispatches to the handler of the matching intent.
+ *
+ * @example
+ * ```typescript
+ * import { z } from "zod";
+ * import { formAction, intentAction } from "@firtoz/router-toolkit";
+ * import { success } from "@firtoz/maybe-error";
+ *
+ * export const action = intentAction({
+ *   rename: formAction({
+ *     schema: z.object({ id: z.coerce.number(), title: z.string().min(1) }),
+ *     handler: async (args, data) => success(await renameTodo(data.id, data.title)),
+ *   }),
+ *   archive: formAction({
+ *     schema: z.object({ id: z.coerce.number() }),
+ *     handler: async (args, data) => {
+ *       await archiveTodo(data.id);
+ *       return success();
+ *     },
+ *   }),
+ * });
+ * ```
+ */
+
+import { type DefiniteError, fail, type MaybeError } from "@firtoz/maybe-error";
+import type { ActionFunctionArgs } from "react-router";
+import { z } from "zod";
+import {
+	type AnyFormActionMiddleware,
+	runFormActionMiddleware,
+} from "./formActionMiddleware";
+import {
+	getRequestBodyField,
+	type RequestBodyValidationError,
+	readRequestBody,
+	validateRequestData,
+} from "./parseRequestBody";
+
+/**
+ * Map of intent name to the formAction that handles it
+ *
+ * Each action's schema must be a `z.object`, so it can be extended with the intent field.
+ * Actions can't declare `files`: the intent is only known once the body has been read, too
+ * late to apply its file limits. Use a separate route for uploads.
+ *
+ * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ */
+export type IntentActions<
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+> = Record<
+	string,
+	// Typed loosely so that each formAction infers its own result and error types
+	((args: ActionArgs) => Promise<unknown>) & {
+		middleware: readonly AnyFormActionMiddleware[];
+		schema: z.ZodObject;
+		// File limits depend on the intent, which is only known once the body is read
+		files?: undefined;
+		handler: (
+			args: ActionArgs,
+			data: never,
+			context: never,
+		) => Promise<unknown>;
+	}
+>;
+
+/**
+ * Options for intentAction
+ *
+ * @template TField - The name of the field holding the intent (defaults to "intent")
+ */
+export type IntentActionOptions<TField extends string = "intent"> = {
+	/**
+	 * The name of the field holding the intent
+	 */
+	field?: TField;
+};
+
+/**
+ * The validated data for any of the intents, including the intent field itself.
+ */
+export type IntentActionData<
+	TIntents extends IntentActions<never>,
+	TField extends string = "intent",
+> = {
+	[TIntent in keyof TIntents & string]: z.infer<TIntents[TIntent]["schema"]> & {
+		[Field in TField]: TIntent;
+	};
+}[keyof TIntents & string];
+
+/**
+ * Errors returned before the intent of a request is known, such as a missing or
+ * unrecognized intent field.
+ */
+export type IntentActionUnknownIntentError<TField extends string = "intent"> =
+	| RequestBodyValidationError<z.ZodObject<{ [Field in TField]: z.ZodString }>>
+	| {
+			type: "unknown";
+	  };
+
+/**
+ * The union of results that an intentAction can return.
+ *
+ * Every result carries the `intent` that produced it, so consumers can narrow on both
+ * `intent` and `success`. Results for requests whose intent could not be determined
+ * have `intent: undefined`.
+ */
+export type IntentActionResult<
+	TIntents extends IntentActions<never>,
+	TField extends string = "intent",
+> =
+	| {
+			[TIntent in keyof TIntents & string]: TIntents[TIntent] extends (
+				...args: never[]
+			) => Promise<infer TResult>
+				? TResult & { intent: TIntent }
+				: never;
+	  }[keyof TIntents & string]
+	| (DefiniteError<IntentActionUnknownIntentError<TField>> & {
+			intent: undefined;
+	  });
+
+/**
+ * An action function created by {@link intentAction}.
+ *
+ * The discriminated union schema is exposed as `schema`, so `useDynamicSubmitter`
+ * types the submit target as the union of every intent's data.
+ */
+export type IntentAction<
+	TIntents extends IntentActions<ActionArgs>,
+	TField extends string = "intent",
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+> = ((args: ActionArgs) => Promise<IntentActionResult<TIntents, TField>>) & {
+	schema: z.ZodType<IntentActionData<TIntents, TField>>;
+	intents: TIntents;
+};
+
+/**
+ * Creates an action that dispatches to a different formAction based on an intent field.
+ *
+ * The intent is read from the request body, and the middleware of the matching intent runs
+ * first, as in formAction. The body is then validated against a Zod discriminated union
+ * built from each intent's schema extended with a literal intent field, and the intent's
+ * handler is called with the validated data and the middleware context.
+ *
+ * @template TIntents - Map of intent name to formAction
+ * @template TField - The name of the field holding the intent (defaults to "intent")
+ * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ *
+ * @param intents - The formAction to use for each intent
+ * @param options - Options such as the name of the intent field
+ * @returns An action function that can be used with React Router
+ *
+ * @example
+ * ```typescript
+ * // In your component, narrow on the intent and on success:
+ * const actionData = useActionData<typeof action>();
+ *
+ * if (actionData?.intent === "rename") {
+ *   if (actionData.success) {
+ *     // actionData.result is the rename handler's result
+ *   } else if (actionData.error.type === "validation") {
+ *     // actionData.error.error is the error tree for the rename schema
+ *   }
+ * }
+ * ```
+ */
+export const intentAction = <
+	TIntents extends IntentActions<ActionArgs>,
+	TField extends string = "intent",
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+>(
+	intents: TIntents,
+	{ field = "intent" as TField }: IntentActionOptions<TField> = {},
+): IntentAction<TIntents, TField, ActionArgs> => {
+	const names = Object.keys(intents);
+
+	for (const name of names) {
+		if (intents[name].files) {
+			throw new Error(
+				`intentAction does not support file uploads, but the "${name}" intent declares files`,
+			);
+		}
+	}
+
+	const schema = z.discriminatedUnion(
+		field,
+		names.map((name) =>
+			intents[name].schema.extend({ [field]: z.literal(name) }),
+		) as [z.ZodObject, ...z.ZodObject[]],
+	);
+
+	const action = async (
+		args: ActionArgs,
+	): Promise<IntentActionResult<TIntents, TField>> => {
+		let intent: string | undefined;
+
+		const dispatch = async (): Promise<MaybeError<unknown, unknown>> => {
+			try {
+				const body = await readRequestBody(args.request);
+				if (!body.success) {
+					return body;
+				}
+
+				const rawIntent = getRequestBodyField(body.result, field);
+				if (typeof rawIntent !== "string" || !names.includes(rawIntent)) {
+					// Validating reports the missing or unknown intent on the intent field
+					return validateRequestData(
+						schema,
+						body.result.data,
+						body.result.encoding,
+					);
+				}
+				intent = rawIntent;
+
+				const { middleware, handler } = intents[intent];
+
+				const context = await runFormActionMiddleware(middleware, args);
+				if (!context.success) {
+					return context;
+				}
+
+				const data = await validateRequestData(
+					schema,
+					body.result.data,
+					body.result.encoding,
+				);
+
+				if (!data.success) {
+					return data;
+				}
+
+				const handlerResult = (await handler(
+					args,
+					data.result as never,
+					context.result as never,
+				)) as MaybeError<unknown, unknown>;
+				if (!handlerResult.success) {
+					return fail({
+						type: "handler" as const,
+						error: handlerResult.error,
+					});
+				}
+
+				return handlerResult;
+			} catch (error) {
+				// Re-throw Response objects (redirects, etc.) to preserve React Router behavior
+				if (error instanceof Response) {
+					throw error;
+				}
+
+				console.error("Unexpected error in intentAction:", error);
+				return fail({
+					type: "unknown" as const,
+				});
+			}
+		};
+
+		const result = await dispatch();
+
+		return { ...result, intent } as IntentActionResult<TIntents, TField>;
+	};
+
+	return Object.assign(action, {
+		schema: schema as unknown as z.ZodType<IntentActionData<TIntents, TField>>,
+		intents,
+	});
+};
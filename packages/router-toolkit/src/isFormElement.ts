@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Check for form elements among submit targets
+ */
+
+/**
+ * Checks whether a value, such as a submit target, is a form element. Checks for the
+ * form's members rather than `instanceof HTMLFormElement`, which needs a DOM.
+ */
+export const isFormElement = (target: unknown): target is HTMLFormElement =>
+	typeof target === "object" &&
+	target !== null &&
+	"elements" in target &&
+	"submit" in target;
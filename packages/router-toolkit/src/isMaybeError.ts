@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Check for fetcher data that is a MaybeError
+ */
+
+/**
+ * Checks whether data, such as a fetcher's, is a MaybeError like the result of a `formAction`.
+ */
+export const isMaybeError = (
+	data: unknown,
+): data is { success: boolean; result?: unknown; error?: unknown } =>
+	typeof data === "object" &&
+	data !== null &&
+	typeof (data as { success?: unknown }).success === "boolean";
@@ -0,0 +1,81 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import { z } from "zod";
+import { formAction } from "./formAction";
+import { methodAction } from "./methodAction";
+import { actionArgs } from "../test-utils";
+
+const request = (method: string, body?: unknown) =>
+	new Request("http://localhost/todos", {
+		method,
+		body: body === undefined ? undefined : JSON.stringify(body),
+		headers:
+			body === undefined ? undefined : { "Content-Type": "application/json" },
+	});
+
+describe("methodAction", () => {
+	const action = methodAction({
+		POST: formAction({
+			schema: z.object({ title: z.string().min(1) }),
+			handler: async (_args, data) => success({ created: data.title }),
+		}),
+		DELETE: formAction({
+			schema: z.object({ id: z.number() }),
+			handler: async (_args, data) =>
+				data.id > 0 ? success() : fail("not_found" as const),
+		}),
+	});
+
+	it("should dispatch to the action registered for the request method", async () => {
+		expect(
+			await action(actionArgs(request("POST", { title: "Milk" }))),
+		).toEqual(success({ created: "Milk" }));
+		expect(await action(actionArgs(request("DELETE", { id: 1 })))).toEqual(
+			success(),
+		);
+	});
+
+	it("should validate with the method's own schema", async () => {
+		const result = await action(actionArgs(request("DELETE", { title: "x" })));
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.type).toBe("validation");
+		}
+	});
+
+	it("should wrap handler errors per method", async () => {
+		expect(await action(actionArgs(request("DELETE", { id: 0 })))).toEqual(
+			fail({ type: "handler" as const, error: "not_found" as const }),
+		);
+	});
+
+	it("should return method_not_allowed for unregistered methods", async () => {
+		expect(await action(actionArgs(request("PUT", { title: "x" })))).toEqual(
+			fail({
+				type: "method_not_allowed" as const,
+				method: "PUT",
+				allowed: ["POST", "DELETE"],
+			}),
+		);
+	});
+
+	it("should expose the registered actions as methods", () => {
+		expect(Object.keys(action.methods)).toEqual(["POST", "DELETE"]);
+		expect(action.methods.POST.schema).toBeInstanceOf(z.ZodObject);
+	});
+
+	it("should type the result as a union of every method's result", async () => {
+		const result = await action(actionArgs(request("POST", { title: "Milk" })));
+
+		if (result.success) {
+			expectTypeOf(result.result).toEqualTypeOf<
+				{ created: string } | undefined
+			>();
+		} else {
+			expectTypeOf(result.error.type).toEqualTypeOf<
+				"validation" | "handler" | "unknown" | "method_not_allowed"
+			>();
+		}
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Per-HTTP-method action dispatch for React Router 7
+ *
+ * Resource routes often handle POST, PUT, PATCH and DELETE from a single `action` export.
+ * `methodAction` dispatches the request to a `formAction` registered for its method, so each
+ * method keeps its own schema, handler and result type.
+ *
+ * @example
+ * ```typescript
+ * import { z } from "zod";
+ * import { formAction, methodAction } from "@firtoz/router-toolkit";
+ * import { success } from "@firtoz/maybe-error";
+ *
+ * export const action = methodAction({
+ *   POST: formAction({
+ *     schema: z.object({ title: z.string() }),
+ *     handler: async (args, data) => success(await createTodo(data.title)),
+ *   }),
+ *   DELETE: formAction({
+ *     schema: z.object({ id: z.coerce.number() }),
+ *     handler: async (args, data) => {
+ *       await deleteTodo(data.id);
+ *       return success();
+ *     },
+ *   }),
+ * });
+ * ```
+ */
+
+import { type DefiniteError, fail } from "@firtoz/maybe-error";
+import type { ActionFunctionArgs, FormMethod } from "react-router";
+import type { z } from "zod";
+import type { FormAction } from "./formAction";
+
+/**
+ * HTTP methods that can be handled by an action
+ */
+export type ActionMethod = Exclude<FormMethod, "GET">;
+
+/**
+ * Error returned by methodAction when no action is registered for the request method
+ */
+export type MethodNotAllowedError = {
+	type: "method_not_allowed";
+	method: string;
+	allowed: ActionMethod[];
+};
+
+/**
+ * Map of HTTP method to the formAction that handles it
+ *
+ * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ */
+export type MethodActions<
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+> = {
+	// Typed loosely so that each formAction infers its own result and error types
+	[TMethod in ActionMethod]?: ((args: ActionArgs) => Promise<unknown>) &
+		Pick<FormAction<z.ZodTypeAny>, "schema">;
+};
+
+/**
+ * The union of results that a methodAction can return.
+ *
+ * Includes the result of every registered method's action, plus the `"method_not_allowed"` error.
+ */
+export type MethodActionResult<TActions> =
+	| {
+			[TMethod in keyof TActions]: TActions[TMethod] extends (
+				...args: never[]
+			) => Promise<infer TResult>
+				? TResult
+				: never;
+	  }[keyof TActions]
+	| DefiniteError<MethodNotAllowedError>;
+
+/**
+ * An action function created by {@link methodAction}.
+ *
+ * The registered actions are exposed as `methods`, so `useDynamicSubmitter` can narrow
+ * the submit target to the schema of the method being submitted.
+ */
+export type MethodAction<
+	TActions extends MethodActions<ActionArgs>,
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+> = ((args: ActionArgs) => Promise<MethodActionResult<TActions>>) & {
+	methods: TActions;
+};
+
+/**
+ * Creates an action that dispatches to a different formAction for each HTTP method.
+ *
+ * Each method's request body is validated with that method's own schema. Requests with a
+ * method that has no registered action return a `"method_not_allowed"` error.
+ *
+ * @template TActions - Map of HTTP method to formAction
+ * @template ActionArgs - The action function arguments type (defaults to ActionFunctionArgs)
+ *
+ * @param actions - The formAction to use for each supported method
+ * @returns An action function that can be used with React Router, with the actions attached as `methods`
+ *
+ * @example
+ * ```typescript
+ * // In your component, the submit target is narrowed by method:
+ * const submitter = useDynamicSubmitter<typeof import("./todos")>("/todos");
+ *
+ * submitter.submit({ title: "Buy milk" }, { method: "POST" });
+ * submitter.submit({ id: 1 }, { method: "DELETE" });
+ *
+ * if (submitter.data && !submitter.data.success) {
+ *   switch (submitter.data.error.type) {
+ *     case "method_not_allowed":
+ *       // submitter.data.error.allowed lists the supported methods
+ *       break;
+ *     case "validation":
+ *     case "handler":
+ *     case "unknown":
+ *       break;
+ *   }
+ * }
+ * ```
+ */
+export const methodAction = <
+	TActions extends MethodActions<ActionArgs>,
+	ActionArgs extends ActionFunctionArgs = ActionFunctionArgs,
+>(
+	actions: TActions,
+): MethodAction<TActions, ActionArgs> => {
+	const allowed = (Object.keys(actions) as ActionMethod[]).filter(
+		(method) => actions[method] !== undefined,
+	);
+
+	const action = async (
+		args: ActionArgs,
+	): Promise<MethodActionResult<TActions>> => {
+		const method = args.request.method.toUpperCase();
+		const methodHandler = actions[method as ActionMethod];
+
+		if (!methodHandler) {
+			return fail({
+				type: "method_not_allowed" as const,
+				method,
+				allowed,
+			});
+		}
+
+		return methodHandler(args) as Promise<MethodActionResult<TActions>>;
+	};
+
+	return Object.assign(action, { methods: actions });
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "bun:test";
+import {
+	getMultipartBoundary,
+	MultipartParseError,
+	parseMultipart,
+	readMultipartText,
+} from "./parseMultipart";
+
+const encoder = new TextEncoder();
+
+/**
+ * Streams a body in chunks of the given size, to split delimiters across reads.
+ */
+const chunked = (body: string, chunkSize: number) => {
+	const bytes = encoder.encode(body);
+	let offset = 0;
+
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= bytes.length) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(bytes.slice(offset, offset + chunkSize));
+			offset += chunkSize;
+		},
+	});
+};
+
+const body = [
+	"preamble",
+	"--boundary",
+	'Content-Disposition: form-data; name="title"',
+	"",
+	"Hello\r\nWorld",
+	"--boundary",
+	'Content-Disposition: form-data; name="file"; filename="notes.txt"',
+	"Content-Type: text/plain",
+	"",
+	"-- not a --boundar delimiter",
+	"--boundary--",
+	"epilogue",
+].join("\r\n");
+
+const collect = async (stream: ReadableStream<Uint8Array>) => {
+	const parts: { name: string; filename?: string; content: string }[] = [];
+	for await (const part of parseMultipart(stream, "boundary")) {
+		parts.push({
+			name: part.name,
+			filename: part.filename,
+			content: await readMultipartText(part),
+		});
+	}
+	return parts;
+};
+
+describe("parseMultipart", () => {
+	it("should parse fields and files regardless of chunk size", async () => {
+		const expected = [
+			{ name: "title", filename: undefined, content: "Hello\r\nWorld" },
+			{
+				name: "file",
+				filename: "notes.txt",
+				content: "-- not a --boundar delimiter",
+			},
+		];
+
+		for (const chunkSize of [1, 3, 7, 64, body.length]) {
+			expect(await collect(chunked(body, chunkSize))).toEqual(expected);
+		}
+	});
+
+	it("should skip the content of parts that are not read", async () => {
+		const names: string[] = [];
+		for await (const part of parseMultipart(chunked(body, 5), "boundary")) {
+			names.push(part.name);
+		}
+
+		expect(names).toEqual(["title", "file"]);
+	});
+
+	it("should parse bodies created by FormData", async () => {
+		const formData = new FormData();
+		formData.set("title", "Hello");
+		formData.set("file", new File(["abc"], "a b.txt", { type: "text/csv" }));
+		const request = new Request("http://localhost", {
+			method: "POST",
+			body: formData,
+		});
+
+		const boundary = getMultipartBoundary(request.headers.get("Content-Type"));
+		if (!boundary || !request.body) {
+			throw new Error("Expected a multipart request");
+		}
+
+		const parts = [];
+		for await (const part of parseMultipart(request.body, boundary)) {
+			parts.push({
+				name: part.name,
+				filename: part.filename,
+				contentType: part.contentType,
+				content: await readMultipartText(part),
+			});
+		}
+
+		expect(parts).toEqual([
+			{
+				name: "title",
+				filename: undefined,
+				contentType: "text/plain",
+				content: "Hello",
+			},
+			{
+				name: "file",
+				filename: "a b.txt",
+				contentType: expect.stringMatching(/^text\/csv/),
+				content: "abc",
+			},
+		]);
+	});
+
+	it("should throw when the body ends early", async () => {
+		await expect(
+			collect(chunked(body.slice(0, body.indexOf("--boundary--")), 16)),
+		).rejects.toBeInstanceOf(MultipartParseError);
+	});
+});
+
+describe("getMultipartBoundary", () => {
+	it("should read plain and quoted boundaries", () => {
+		expect(getMultipartBoundary("multipart/form-data; boundary=abc")).toBe(
+			"abc",
+		);
+		expect(
+			getMultipartBoundary(
+				'multipart/form-data; boundary="a b"; charset=utf-8',
+			),
+		).toBe("a b");
+		expect(getMultipartBoundary("multipart/form-data")).toBeUndefined();
+	});
+});
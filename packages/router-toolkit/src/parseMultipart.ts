@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Streaming `multipart/form-data` parser
+ *
+ * Unlike `request.formData()`, parts are read one at a time straight from the request body,
+ * so file contents can be streamed to an upload handler (or discarded) instead of being
+ * buffered in memory.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CRLF = encoder.encode("\r\n");
+const HEADER_END = encoder.encode("\r\n\r\n");
+const MAX_HEADER_SIZE = 16 * 1024;
+
+/**
+ * Error thrown when a request body is not valid `multipart/form-data`.
+ */
+export class MultipartParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "MultipartParseError";
+	}
+}
+
+/**
+ * A single part of a multipart body.
+ *
+ * The part's content must be read with `read()` before moving on to the next part;
+ * any content left unread is skipped.
+ */
+export type MultipartPart = {
+	/**
+	 * The form field name, from the `Content-Disposition` header
+	 */
+	name: string;
+	/**
+	 * The file name, only present for file parts
+	 */
+	filename: string | undefined;
+	/**
+	 * The `Content-Type` of the part (defaults to `text/plain` for fields and
+	 * `application/octet-stream` for files)
+	 */
+	contentType: string;
+	/**
+	 * Reads the next chunk of the part's content
+	 *
+	 * @returns The next chunk, or `null` once the part has been fully read
+	 */
+	read: () => Promise<Uint8Array | null>;
+};
+
+/**
+ * Reads the multipart boundary from a `Content-Type` header.
+ *
+ * @returns The boundary, or `undefined` when the header has none
+ */
+export const getMultipartBoundary = (
+	contentType: string | null,
+): string | undefined => {
+	const match = contentType?.match(/;\s*boundary=(?:"([^"]+)"|([^;]+))/i);
+	return match ? (match[1] ?? match[2]).trim() : undefined;
+};
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array): number => {
+	const last = haystack.length - needle.length;
+
+	outer: for (let i = 0; i <= last; i++) {
+		for (let j = 0; j < needle.length; j++) {
+			if (haystack[i + j] !== needle[j]) {
+				continue outer;
+			}
+		}
+		return i;
+	}
+
+	return -1;
+};
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+	const result = new Uint8Array(a.length + b.length);
+	result.set(a);
+	result.set(b, a.length);
+	return result;
+};
+
+const parseHeaders = (text: string): Map<string, string> => {
+	const headers = new Map<string, string>();
+
+	for (const line of text.split("\r\n")) {
+		const colon = line.indexOf(":");
+		if (colon > 0) {
+			headers.set(
+				line.slice(0, colon).trim().toLowerCase(),
+				line.slice(colon + 1).trim(),
+			);
+		}
+	}
+
+	return headers;
+};
+
+const parseContentDisposition = (
+	value: string,
+): { name: string | undefined; filename: string | undefined } => {
+	const params = new Map<string, string>();
+
+	for (const match of value.matchAll(
+		/;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g,
+	)) {
+		params.set(
+			match[1].toLowerCase(),
+			match[2]?.replace(/\\(.)/g, "$1") ?? match[3].trim(),
+		);
+	}
+
+	const encodedFilename = params.get("filename*")?.match(/^[^']*'[^']*'(.*)$/);
+
+	return {
+		name: params.get("name"),
+		filename: encodedFilename
+			? decodeURIComponent(encodedFilename[1])
+			: params.get("filename"),
+	};
+};
+
+/**
+ * Parses a `multipart/form-data` body as a stream of parts.
+ *
+ * @param body - The request body stream
+ * @param boundary - The boundary from the request's `Content-Type` header
+ * @returns An async iterator over the parts of the body
+ * @throws {MultipartParseError} When the body is malformed or ends early
+ *
+ * @example
+ * ```typescript
+ * const boundary = getMultipartBoundary(request.headers.get("Content-Type"));
+ * for await (const part of parseMultipart(request.body, boundary)) {
+ *   console.log(part.name, part.filename);
+ * }
+ * ```
+ */
+export async function* parseMultipart(
+	body: ReadableStream<Uint8Array>,
+	boundary: string,
+): AsyncGenerator<MultipartPart> {
+	const reader = body.getReader();
+	const delimiter = encoder.encode(`\r\n--${boundary}`);
+
+	// The first delimiter may not be preceded by a line break
+	let buffer: Uint8Array = CRLF;
+	let inPart = true;
+
+	const fill = async (): Promise<void> => {
+		const { done, value } = await reader.read();
+		if (done) {
+			throw new MultipartParseError("Unexpected end of multipart body");
+		}
+		buffer = concat(buffer, value);
+	};
+
+	const readContent = async (): Promise<Uint8Array | null> => {
+		while (inPart) {
+			const index = indexOf(buffer, delimiter);
+
+			if (index === 0) {
+				buffer = buffer.subarray(delimiter.length);
+				inPart = false;
+				break;
+			}
+
+			// Keep enough bytes to recognize a delimiter split across chunks
+			const end = index === -1 ? buffer.length - delimiter.length + 1 : index;
+			if (end > 0) {
+				const chunk = buffer.slice(0, end);
+				buffer = buffer.subarray(end);
+				return chunk;
+			}
+
+			await fill();
+		}
+
+		return null;
+	};
+
+	try {
+		// Skip the preamble before the first delimiter
+		while ((await readContent()) !== null) {}
+
+		while (true) {
+			while (buffer.length < 2) {
+				await fill();
+			}
+
+			if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+				// Closing delimiter, the epilogue is ignored
+				return;
+			}
+
+			// Skip transport padding up to the end of the delimiter line
+			let lineEnd = indexOf(buffer, CRLF);
+			while (lineEnd === -1) {
+				await fill();
+				lineEnd = indexOf(buffer, CRLF);
+			}
+			buffer = buffer.subarray(lineEnd + CRLF.length);
+
+			// Headers end with an empty line. Searching from the previous line break also
+			// finds it when a part has no headers at all.
+			let headerEnd = indexOf(concat(CRLF, buffer), HEADER_END);
+			while (headerEnd === -1) {
+				if (buffer.length > MAX_HEADER_SIZE) {
+					throw new MultipartParseError("Multipart part headers are too large");
+				}
+				await fill();
+				headerEnd = indexOf(concat(CRLF, buffer), HEADER_END);
+			}
+
+			const headers = parseHeaders(
+				decoder.decode(
+					buffer.subarray(0, Math.max(headerEnd - CRLF.length, 0)),
+				),
+			);
+			buffer = buffer.subarray(headerEnd + HEADER_END.length - CRLF.length);
+
+			const { name, filename } = parseContentDisposition(
+				headers.get("content-disposition") ?? "",
+			);
+			if (name === undefined) {
+				throw new MultipartParseError(
+					"Multipart part is missing a Content-Disposition name",
+				);
+			}
+
+			inPart = true;
+			yield {
+				name,
+				filename,
+				contentType:
+					headers.get("content-type") ??
+					(filename === undefined ? "text/plain" : "application/octet-stream"),
+				read: readContent,
+			};
+
+			// Skip whatever the consumer did not read
+			while ((await readContent()) !== null) {}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Reads the remaining content of a part as text.
+ */
+export const readMultipartText = async (
+	part: MultipartPart,
+): Promise<string> => {
+	let text = "";
+	const partDecoder = new TextDecoder();
+
+	for (
+		let chunk = await part.read();
+		chunk !== null;
+		chunk = await part.read()
+	) {
+		text += partDecoder.decode(chunk, { stream: true });
+	}
+
+	return text + partDecoder.decode();
+};
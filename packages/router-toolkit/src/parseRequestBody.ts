@@ -0,0 +1,251 @@
+import { fail, type MaybeError, success } from "@firtoz/maybe-error";
+import { z } from "zod";
+import { zfd } from "zod-form-data";
+import { type FileUploadOptions, readMultipartFormData } from "./fileUpload";
+import { MultipartParseError } from "./parseMultipart";
+import { succeed } from "./succeed";
+
+/**
+ * Validation error returned when a request body does not match its schema.
+ *
+ * The `error` field has the same shape as `z.treeifyError()` output, so field-level
+ * errors can be rendered the same way regardless of how the body was encoded.
+ */
+export type RequestBodyValidationError<TSchema extends z.ZodTypeAny> = {
+	type: "validation";
+	error: ReturnType<typeof z.treeifyError<z.infer<TSchema>>>;
+};
+
+/**
+ * The body encodings understood by {@link parseRequestBody}.
+ */
+export type RequestBodyEncoding = "json" | "urlencoded" | "multipart";
+
+/**
+ * Determines how a request body is encoded from its `Content-Type` header.
+ *
+ * Requests without a `Content-Type` (e.g. a bodiless `DELETE`) are treated as
+ * an empty URL-encoded body.
+ *
+ * @returns The body encoding, or `undefined` when the content type is not supported
+ */
+export const getRequestBodyEncoding = (
+	request: Request,
+): RequestBodyEncoding | undefined => {
+	const contentType = request.headers.get("Content-Type");
+	if (!contentType) {
+		return "urlencoded";
+	}
+
+	const mediaType = contentType.split(";")[0].trim().toLowerCase();
+
+	if (mediaType === "application/json" || mediaType.endsWith("+json")) {
+		return "json";
+	}
+
+	if (mediaType === "application/x-www-form-urlencoded") {
+		return "urlencoded";
+	}
+
+	if (mediaType === "multipart/form-data") {
+		return "multipart";
+	}
+
+	return undefined;
+};
+
+/**
+ * Creates a validation error with a single root-level message, for failures
+ * that happen before the body can be matched against the schema.
+ */
+export const rootValidationError = <TSchema extends z.ZodTypeAny>(
+	message: string,
+): RequestBodyValidationError<TSchema> => ({
+	type: "validation",
+	error: z.treeifyError<z.infer<TSchema>>(
+		new z.ZodError([
+			{
+				code: "custom",
+				message,
+				path: [],
+				input: undefined,
+			},
+		]) as z.core.$ZodError<z.infer<TSchema>>,
+	),
+});
+
+/**
+ * Validates already-decoded body data against a schema.
+ *
+ * Form-encoded data (`FormData`/`URLSearchParams`) is run through `zfd.formData`
+ * so that repeated keys, empty strings and nested field names are handled the
+ * same way as a regular form post. JSON data is validated as-is.
+ *
+ * Issues found while reading the body (such as files over their size limit) are
+ * merged into the error tree, replacing the schema's issues for the same fields.
+ */
+export const validateRequestData = async <TSchema extends z.ZodTypeAny>(
+	schema: TSchema,
+	data: unknown,
+	encoding: RequestBodyEncoding,
+	bodyIssues: z.core.$ZodIssue[] = [],
+): Promise<
+	MaybeError<z.infer<TSchema>, RequestBodyValidationError<TSchema>>
+> => {
+	const parsed =
+		encoding === "json"
+			? await schema.safeParseAsync(data)
+			: await zfd.formData(schema).safeParseAsync(data);
+
+	if (!parsed.success || bodyIssues.length > 0) {
+		const fields = new Set(bodyIssues.map((issue) => issue.path[0]));
+		const issues = [
+			...(parsed.success
+				? []
+				: parsed.error.issues.filter((issue) => !fields.has(issue.path[0]))),
+			...bodyIssues,
+		];
+
+		return fail({
+			type: "validation" as const,
+			error: z.treeifyError<z.infer<TSchema>>(
+				new z.ZodError(issues) as z.core.$ZodError<z.infer<TSchema>>,
+			),
+		});
+	}
+
+	return succeed(parsed.data);
+};
+
+/**
+ * A request body decoded according to its `Content-Type`, before validation.
+ */
+export type RequestBody =
+	| { encoding: "json"; data: unknown }
+	| { encoding: "urlencoded"; data: URLSearchParams }
+	| { encoding: "multipart"; data: FormData; issues: z.core.$ZodIssue[] };
+
+/**
+ * Reads a request body according to its `Content-Type`, without validating it.
+ *
+ * Malformed bodies and unsupported content types are reported as root-level
+ * validation errors rather than thrown.
+ *
+ * @template TSchema - The schema the body will be validated against, used to type the error tree
+ *
+ * @param request - The incoming request
+ * @param fileUploads - When given, multipart bodies are streamed with these file limits
+ */
+export const readRequestBody = async <
+	TSchema extends z.ZodTypeAny = z.ZodNever,
+>(
+	request: Request,
+	fileUploads?: FileUploadOptions,
+): Promise<MaybeError<RequestBody, RequestBodyValidationError<TSchema>>> => {
+	const encoding = getRequestBodyEncoding(request);
+
+	switch (encoding) {
+		case "json": {
+			const text = await request.text();
+			try {
+				return success({ encoding, data: JSON.parse(text) });
+			} catch {
+				return fail(rootValidationError<TSchema>("Invalid JSON body"));
+			}
+		}
+		case "urlencoded":
+			return success({
+				encoding,
+				data: new URLSearchParams(await request.text()),
+			});
+		case "multipart": {
+			if (!fileUploads) {
+				return success({
+					encoding,
+					data: await request.formData(),
+					issues: [],
+				});
+			}
+
+			try {
+				return success({
+					encoding,
+					...(await readMultipartFormData(request, fileUploads)),
+				});
+			} catch (error) {
+				if (error instanceof MultipartParseError) {
+					return fail(rootValidationError<TSchema>(error.message));
+				}
+				throw error;
+			}
+		}
+		case undefined:
+			return fail(
+				rootValidationError<TSchema>(
+					`Unsupported content type: ${request.headers.get("Content-Type")}`,
+				),
+			);
+	}
+};
+
+/**
+ * Reads a single top-level field from a decoded request body.
+ */
+export const getRequestBodyField = (
+	body: RequestBody,
+	field: string,
+): unknown => {
+	if (body.encoding === "json") {
+		return typeof body.data === "object" && body.data !== null
+			? (body.data as Record<string, unknown>)[field]
+			: undefined;
+	}
+
+	return body.data.get(field) ?? undefined;
+};
+
+/**
+ * Reads a request body according to its `Content-Type` and validates it against a Zod schema.
+ *
+ * Supported encodings:
+ * - `application/json` (and `+json` media types) - parsed as JSON
+ * - `application/x-www-form-urlencoded` - parsed into `URLSearchParams`
+ * - `multipart/form-data` - parsed with `request.formData()`, or streamed with
+ *   per-field file limits when `fileUploads` is given
+ *
+ * Malformed bodies and unsupported content types are reported as root-level
+ * validation errors rather than thrown. Files that break their field's limits are
+ * reported as validation errors on that field.
+ *
+ * @param request - The incoming request
+ * @param schema - Zod schema to validate the body against
+ * @param fileUploads - File field limits and upload handler for multipart bodies
+ * @returns The validated data, or a structured validation error
+ *
+ * @example
+ * ```typescript
+ * const result = await parseRequestBody(request, z.object({ title: z.string() }));
+ * if (result.success) {
+ *   console.log(result.result.title);
+ * }
+ * ```
+ */
+export const parseRequestBody = async <TSchema extends z.ZodTypeAny>(
+	request: Request,
+	schema: TSchema,
+	fileUploads?: FileUploadOptions,
+): Promise<
+	MaybeError<z.infer<TSchema>, RequestBodyValidationError<TSchema>>
+> => {
+	const body = await readRequestBody<TSchema>(request, fileUploads);
+	if (!body.success) {
+		return body;
+	}
+
+	return validateRequestData(
+		schema,
+		body.result.data,
+		body.result.encoding,
+		body.result.encoding === "multipart" ? body.result.issues : [],
+	);
+};
@@ -0,0 +1,185 @@
+import { describe, expect, expectTypeOf, it, mock } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import * as ReactRouter from "react-router";
+import { createRequestHandler, redirect, type ServerBuild } from "react-router";
+import { z } from "zod";
+
+// Mock href, as other test files replace it with their own mocks
+const mockHref = mock((path: string, params?: Record<string, string>) =>
+	path.replace(/:(\w+)/g, (_match, name: string) => params?.[name] ?? ""),
+);
+
+mock.module("react-router", () => ({
+	...ReactRouter,
+	href: mockHref,
+}));
+
+// Import after mocking
+import { formAction } from "./formAction";
+import { methodAction } from "./methodAction";
+import { createRouteClient } from "./routeClient";
+
+const todosModule = {
+	loader: () => ({ todos: [{ id: 1, createdAt: new Date(0) }] }),
+	action: methodAction({
+		POST: formAction({
+			schema: z.object({ title: z.string().min(1) }),
+			handler: async (_args, data) => success({ created: data.title }),
+		}),
+		DELETE: formAction({
+			schema: z.object({ id: z.number() }),
+			handler: async (_args, data) =>
+				data.id > 0 ? success() : fail("not_found" as const),
+		}),
+	}),
+};
+
+const todoModule = {
+	loader: ({
+		params,
+		request,
+	}: {
+		params: { id?: string };
+		request: Request;
+	}) => ({
+		id: params.id,
+		fields: new URL(request.url).searchParams.getAll("fields"),
+		authorization: request.headers.get("Authorization"),
+	}),
+};
+
+const privateModule = {
+	loader: (): { secret: string } => {
+		throw redirect("/login");
+	},
+};
+
+type Routes = {
+	"/api/todos": typeof todosModule;
+	"/api/todos/:id": typeof todoModule;
+	"/private": typeof privateModule;
+};
+
+// A minimal server build, so requests are handled by React Router itself
+const build = {
+	entry: { module: { default: () => new Response(null) } },
+	routes: {
+		root: { id: "root", path: "", module: { loader: () => null } },
+		"routes/api.todos": {
+			id: "routes/api.todos",
+			parentId: "root",
+			path: "api/todos",
+			module: todosModule,
+		},
+		"routes/api.todos.$id": {
+			id: "routes/api.todos.$id",
+			parentId: "root",
+			path: "api/todos/:id",
+			module: todoModule,
+		},
+		"routes/private": {
+			id: "routes/private",
+			parentId: "root",
+			path: "private",
+			module: privateModule,
+		},
+	},
+	assets: {
+		routes: {},
+		entry: { module: "", imports: [] },
+		url: "",
+		version: "1",
+	},
+	publicPath: "/",
+	assetsBuildDirectory: "",
+	future: {},
+	ssr: true,
+	isSpaMode: false,
+	prerender: [],
+	routeDiscovery: { mode: "lazy", manifestPath: "/__manifest" },
+} as unknown as ServerBuild;
+
+const handler = createRequestHandler(build);
+
+const mockFetch = mock((url: string | URL | Request, init?: RequestInit) =>
+	handler(new Request(url, init)),
+);
+
+const client = createRouteClient<Routes>({
+	baseUrl: "http://localhost/",
+	headers: () => ({ Authorization: "Bearer token" }),
+	fetch: mockFetch as unknown as typeof fetch,
+});
+
+describe("createRouteClient", () => {
+	it("should return decoded loader data", async () => {
+		const data = await client.get("/api/todos");
+
+		expect(mockFetch).toHaveBeenLastCalledWith(
+			"http://localhost/api/todos.data",
+			expect.objectContaining({ method: "GET" }),
+		);
+		expect(data).toEqual({ todos: [{ id: 1, createdAt: new Date(0) }] });
+		expectTypeOf(data.todos[0].createdAt).toEqualTypeOf<Date>();
+	});
+
+	it("should send params, search params and headers", async () => {
+		const data = await client.get("/api/todos/:id", {
+			params: { id: "7" },
+			search: { fields: ["title", "done"] },
+			headers: { "X-Request-Id": "1" },
+		});
+
+		expect(data).toEqual({
+			id: "7",
+			fields: ["title", "done"],
+			authorization: "Bearer token",
+		});
+		const [, init] = mockFetch.mock.lastCall ?? [];
+		expect(new Headers(init?.headers).get("X-Request-Id")).toBe("1");
+	});
+
+	it("should submit JSON targets and return the action's MaybeError", async () => {
+		const created = await client.post("/api/todos", { title: "Buy milk" });
+		expect(created).toEqual({ success: true, result: { created: "Buy milk" } });
+
+		const invalid = await client.post("/api/todos", { title: "" });
+		expect(invalid.success).toBe(false);
+		if (!invalid.success) {
+			expect(invalid.error.type).toBe("validation");
+		}
+
+		const deleted = await client.delete("/api/todos", { id: 0 });
+		expect(deleted).toEqual({
+			success: false,
+			error: { type: "handler", error: "not_found" },
+		});
+	});
+
+	it("should submit forms as they are", async () => {
+		const form = new URLSearchParams({ title: "Walk the dog" });
+		// Form bodies are not checked against the schema's types
+		const created = await client.post(
+			"/api/todos",
+			form as unknown as { title: string },
+		);
+
+		expect(created).toEqual({
+			success: true,
+			result: { created: "Walk the dog" },
+		});
+	});
+
+	it("should reject on redirects and methods the action does not accept", async () => {
+		await expect(client.get("/private")).rejects.toEqual(
+			new Error("Redirected to /login"),
+		);
+
+		// @ts-expect-error PUT is not registered by the methodAction
+		const result = await client.put("/api/todos", { title: "x" });
+		expect(result).toMatchObject({
+			success: false,
+			error: { type: "method_not_allowed", method: "PUT" },
+		});
+	});
+});
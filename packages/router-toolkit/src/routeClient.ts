@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Imperative, typed client for route loaders and actions
+ *
+ * useDynamicFetcher and useDynamicSubmitter go through React Router's fetchers, so they
+ * only work inside components. A route client calls the same loaders and actions from
+ * anywhere, such as services, event handlers and workers, typed by a registry of route
+ * modules keyed by route path.
+ *
+ * @example
+ * ```typescript
+ * type Routes = {
+ *   "/api/todos": typeof import("./routes/api.todos");
+ *   "/api/todos/:id": typeof import("./routes/api.todos.$id");
+ * };
+ *
+ * const client = createRouteClient<Routes>();
+ *
+ * const todo = await client.get("/api/todos/:id", { params: { id: "1" } });
+ *
+ * const created = await client.post("/api/todos", { title: "Buy milk" });
+ * if (!created.success && created.error.type === "validation") {
+ *   // created.error.error is the validation error tree
+ * }
+ * ```
+ */
+
+import { href, type useFetcher } from "react-router";
+import {
+	type SearchParamsOf,
+	type SearchValues,
+	withSearch,
+} from "./searchParams";
+import {
+	readSingleFetchActionData,
+	readSingleFetchLoaderData,
+	singleFetchUrl,
+} from "./singleFetch";
+import type { Func } from "./types/Func";
+import type { HrefArgs } from "./types/HrefArgs";
+import type { RegisterPages } from "./types/RegisterPages";
+import type { RegisterRouteModules } from "./types/RouteModules";
+import type { RouteParamsOption } from "./types/RouteParamsOption";
+import type { SubmitMethodFor, SubmitTargetFor } from "./useDynamicSubmitter";
+
+/**
+ * Route modules by route path, such as `typeof import("./routes/users")`
+ */
+export type RouteRegistry<TRoutes> = {
+	[TRoute in keyof TRoutes]: TRoute extends keyof RegisterPages
+		? { loader?: Func; action?: Func } | undefined
+		: never;
+};
+
+type RoutesWith<
+	TRoutes extends RouteRegistry<TRoutes>,
+	TExport extends string,
+> = {
+	[TRoute in keyof TRoutes]: TRoutes[TRoute] extends Record<TExport, Func>
+		? TRoute
+		: never;
+}[keyof TRoutes] &
+	keyof TRoutes &
+	keyof RegisterPages;
+
+// The module as a submittable RouteModule, for the submit target types
+type ActionModule<
+	TRoutes extends RouteRegistry<TRoutes>,
+	TRoute extends keyof TRoutes & keyof RegisterPages,
+> = TRoutes[TRoute] & { route: TRoute; action: Func };
+
+type MutationMethod = "post" | "put" | "patch" | "delete";
+
+type RoutesAccepting<
+	TRoutes extends RouteRegistry<TRoutes>,
+	TMethod extends MutationMethod,
+> = {
+	[TRoute in RoutesWith<TRoutes, "action">]: TMethod extends SubmitMethodFor<
+		ActionModule<TRoutes, TRoute>
+	>
+		? TRoute
+		: never;
+}[RoutesWith<TRoutes, "action">];
+
+// The data a module export returns, as decoded from a single fetch response
+type RouteData<
+	TModule,
+	TExport extends "loader" | "action",
+> = TModule extends Record<TExport, infer TFunc extends Func>
+	? NonNullable<ReturnType<typeof useFetcher<TFunc>>["data"]>
+	: never;
+
+/**
+ * Per-request options of a route client
+ */
+export type RouteClientRequestInit = {
+	headers?: HeadersInit;
+	signal?: AbortSignal;
+};
+
+/**
+ * Options for a loader request: the route params and search params, typed by the
+ * route module's `searchSchema`
+ */
+export type RouteClientLoaderOptions<
+	TRoute extends keyof RegisterPages,
+	TModule,
+> = RouteParamsOption<TRoute> & {
+	search?: SearchParamsOf<TModule>;
+} & RouteClientRequestInit;
+
+/**
+ * Options for an action request
+ */
+export type RouteClientActionOptions<TRoute extends keyof RegisterPages> =
+	RouteParamsOption<TRoute> & RouteClientRequestInit;
+
+// The options argument, optional unless the route has required params
+type OptionsArgs<
+	TRoute extends keyof RegisterPages,
+	TOptions,
+> = [] extends HrefArgs<TRoute> ? [options?: TOptions] : [options: TOptions];
+
+type ActionRequest<
+	TRoutes extends RouteRegistry<TRoutes>,
+	TMethod extends MutationMethod,
+> = <TRoute extends RoutesAccepting<TRoutes, TMethod>>(
+	route: TRoute,
+	target: SubmitTargetFor<ActionModule<TRoutes, TRoute>, TMethod>,
+	...options: OptionsArgs<TRoute, RouteClientActionOptions<TRoute>>
+) => Promise<RouteData<TRoutes[TRoute], "action">>;
+
+/**
+ * A typed client for the loaders and actions of the routes in a registry, created by
+ * {@link createRouteClient}
+ *
+ * @template TRoutes - Route modules by route path
+ */
+export type RouteClient<TRoutes extends RouteRegistry<TRoutes>> = {
+	/**
+	 * Calls a route's loader and returns its data
+	 */
+	get: <TRoute extends RoutesWith<TRoutes, "loader">>(
+		route: TRoute,
+		...options: OptionsArgs<
+			TRoute,
+			RouteClientLoaderOptions<TRoute, TRoutes[TRoute]>
+		>
+	) => Promise<RouteData<TRoutes[TRoute], "loader">>;
+	/**
+	 * Submits to a route's action with POST and returns its data
+	 */
+	post: ActionRequest<TRoutes, "post">;
+	/**
+	 * Submits to a route's action with PUT and returns its data
+	 */
+	put: ActionRequest<TRoutes, "put">;
+	/**
+	 * Submits to a route's action with PATCH and returns its data
+	 */
+	patch: ActionRequest<TRoutes, "patch">;
+	/**
+	 * Submits to a route's action with DELETE and returns its data
+	 */
+	delete: ActionRequest<TRoutes, "delete">;
+};
+
+/**
+ * Options for createRouteClient
+ */
+export type RouteClientOptions = {
+	/**
+	 * The origin and base path to send requests to, required outside the browser
+	 */
+	baseUrl?: string;
+	/**
+	 * Headers sent with every request, such as an authorization header
+	 */
+	headers?: HeadersInit | (() => HeadersInit);
+	/**
+	 * The fetch function to use (defaults to the global `fetch`)
+	 */
+	fetch?: typeof fetch;
+};
+
+// Encodes a submit target the way parseRequestBody reads it
+const toBody = (target: unknown): BodyInit | undefined => {
+	if (
+		target === undefined ||
+		target instanceof FormData ||
+		target instanceof URLSearchParams
+	) {
+		return target;
+	}
+	return JSON.stringify(target);
+};
+
+/**
+ * Creates a client that calls route loaders and actions over HTTP, outside of React.
+ *
+ * Requests go to the routes' single fetch `.data` URLs, so loader and action data is
+ * decoded like React Router's fetchers decode it and typed the same way, including the
+ * MaybeError results of formAction and methodAction. Plain objects are sent as JSON,
+ * `FormData` and `URLSearchParams` as forms. Unsuccessful responses, thrown errors and
+ * redirects reject the returned promise.
+ *
+ * @template TRoutes - Route modules by route path
+ *
+ * @param options - The base URL, default headers and fetch function
+ * @returns The route client
+ */
+export const createRouteClient = <
+	TRoutes extends RouteRegistry<TRoutes> = RegisterRouteModules,
+>({
+	baseUrl,
+	headers,
+	fetch: fetchImpl = fetch,
+}: RouteClientOptions = {}): RouteClient<TRoutes> => {
+	const request = (
+		method: string,
+		path: keyof RegisterPages,
+		options: RouteParamsOption<keyof RegisterPages> & {
+			search?: SearchValues;
+		} & RouteClientRequestInit = {},
+		target?: unknown,
+	) => {
+		const url = withSearch(
+			// biome-ignore lint/suspicious/noExplicitAny: Intentional
+			href(path, ...((options.params ? [options.params] : []) as any)),
+			options.search,
+		);
+
+		const requestHeaders = new Headers(
+			typeof headers === "function" ? headers() : headers,
+		);
+		new Headers(options.headers).forEach((value, key) => {
+			requestHeaders.set(key, value);
+		});
+
+		const body = toBody(target);
+		if (typeof body === "string") {
+			requestHeaders.set("Content-Type", "application/json");
+		}
+
+		const dataUrl = singleFetchUrl(url);
+		return fetchImpl(
+			baseUrl ? `${baseUrl.replace(/\/$/, "")}${dataUrl}` : dataUrl,
+			{ method, headers: requestHeaders, body, signal: options.signal },
+		);
+	};
+
+	const action =
+		(method: string) =>
+		async (path: keyof RegisterPages, target: unknown, options?: object) =>
+			readSingleFetchActionData(await request(method, path, options, target));
+
+	return {
+		get: async (path: keyof RegisterPages, options?: object) =>
+			readSingleFetchLoaderData(await request("GET", path, options)),
+		post: action("POST"),
+		put: action("PUT"),
+		patch: action("PATCH"),
+		delete: action("DELETE"),
+	} as unknown as RouteClient<TRoutes>;
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it, mock } from "bun:test";
+import { data, type Params } from "react-router";
+import { createFetchCache } from "./fetchCache";
+import { type RouteLoaderBuild, routeLoaderFetch } from "./routeLoaderFetch";
+
+const request = new Request("https://example.com/dashboard", {
+	headers: { cookie: "session=abc" },
+});
+
+type TestRoute = {
+	id: string;
+	parentId?: string;
+	path?: string;
+	index?: boolean;
+	loader?: (args: {
+		request: Request;
+		params: Params;
+		context: unknown;
+		unstable_pattern: string;
+	}) => unknown;
+};
+
+// A server build with the given routes, which are children of the root route unless
+// they have a parentId
+const serverBuild = (routes: TestRoute[]) =>
+	({
+		routes: Object.fromEntries(
+			[
+				{ id: "root", path: "" },
+				...routes.map((route) => ({ parentId: "root", ...route })),
+			].map(({ loader, ...route }: TestRoute) => [
+				route.id,
+				{ ...route, module: { loader } },
+			]),
+		),
+	}) as unknown as RouteLoaderBuild;
+
+const options = { signal: new AbortController().signal };
+
+describe("routeLoaderFetch", () => {
+	it("should call the loader of the best matching route", async () => {
+		const userLoader = mock(
+			(args: {
+				request: Request;
+				params: Params;
+				context: unknown;
+				unstable_pattern: string;
+			}) => ({
+				id: args.params.id,
+				cookie: args.request.headers.get("cookie"),
+				url: args.request.url,
+				context: args.context,
+				pattern: args.unstable_pattern,
+			}),
+		);
+
+		const load = routeLoaderFetch(
+			serverBuild([
+				{ id: "routes/users.$id", path: "users/:id", loader: userLoader },
+				{
+					id: "routes/users.new",
+					path: "users/new",
+					loader: () => ({ new: true }),
+				},
+				{ id: "routes/_auth", loader: () => "layout" },
+				{
+					id: "routes/_auth.settings",
+					parentId: "routes/_auth",
+					path: "settings",
+					loader: () => "settings",
+				},
+			]),
+			{ request, context: { db: "test" } },
+		);
+
+		expect(await load("/users/42?tab=posts", options)).toEqual({
+			id: "42",
+			cookie: "session=abc",
+			url: "https://example.com/users/42?tab=posts",
+			context: { db: "test" },
+			pattern: "/users/:id",
+		});
+		expect(await load("/users/new", options)).toEqual({ new: true });
+		expect(await load("/settings", options)).toBe("settings");
+	});
+
+	it("should load index routes only with ?index, like fetchers", async () => {
+		const load = routeLoaderFetch(
+			serverBuild([
+				{ id: "routes/todos", path: "todos", loader: () => "layout" },
+				{
+					id: "routes/todos._index",
+					parentId: "routes/todos",
+					index: true,
+					loader: ({ request }) => request.url,
+				},
+			]),
+			{ request },
+		);
+
+		expect(await load("/todos", options)).toBe("layout");
+		expect(await load("/todos?index&page=2", options)).toBe(
+			"https://example.com/todos?page=2",
+		);
+	});
+
+	it("should unwrap data() and JSON responses", async () => {
+		const load = routeLoaderFetch(
+			serverBuild([
+				{
+					id: "routes/data",
+					path: "data",
+					loader: () => data({ ok: 1 }, { status: 201 }),
+				},
+				{
+					id: "routes/json",
+					path: "json",
+					loader: () => Response.json({ ok: 2 }),
+				},
+			]),
+			{ request },
+		);
+
+		expect(await load("/data", options)).toEqual({ ok: 1 });
+		expect(await load("/json", options)).toEqual({ ok: 2 });
+	});
+
+	it("should turn missing routes and error responses into errors", async () => {
+		const cache = createFetchCache({
+			load: routeLoaderFetch(
+				serverBuild([
+					{
+						id: "routes/missing",
+						path: "missing",
+						loader: () => {
+							throw new Response(null, { status: 404 });
+						},
+					},
+					{
+						id: "routes/failed",
+						path: "failed",
+						loader: () => new Response(null, { status: 500 }),
+					},
+					{ id: "routes/static", path: "static" },
+				]),
+				{ request },
+			),
+		});
+
+		await Promise.all(
+			["/missing", "/failed", "/static", "/unknown"].map((url) =>
+				cache.fetch(url),
+			),
+		);
+
+		expect(cache.get("/missing")?.error).toEqual(
+			new Error("HTTP error! Status: 404"),
+		);
+		expect(cache.get("/failed")?.error).toEqual(
+			new Error("HTTP error! Status: 500"),
+		);
+		expect(cache.get("/static")?.error).toEqual(
+			new Error("Route routes/static has no loader"),
+		);
+		expect(cache.get("/unknown")?.error).toEqual(
+			new Error("No route matches /unknown"),
+		);
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Server-side loading for the fetch cache
+ *
+ * Instead of fetching its own URLs over HTTP while rendering on the server, a fetch cache
+ * created with {@link routeLoaderFetch} matches each URL against the routes of the server
+ * build and calls the matching loader directly, with the incoming request's headers and
+ * context.
+ *
+ * @example
+ * ```typescript
+ * import * as build from "virtual:react-router/server-build";
+ *
+ * export const loader = async (args: Route.LoaderArgs) => {
+ *   const cache = createFetchCache({ load: routeLoaderFetch(build, args) });
+ *   await cache.fetch(href("/users/:id", { id: args.params.id }));
+ *   return { fetchCache: cache.dehydrate() };
+ * };
+ * ```
+ */
+
+import {
+	type LoaderFunctionArgs,
+	matchRoutes,
+	type RouteObject,
+	type ServerBuild,
+} from "react-router";
+import type { FetchCacheLoad } from "./fetchCache";
+
+/**
+ * The routes of a React Router server build, such as the
+ * `virtual:react-router/server-build` module
+ */
+export type RouteLoaderBuild = Pick<ServerBuild, "routes" | "basename">;
+
+/**
+ * The incoming request and its context, such as a loader's arguments
+ */
+export type RouteLoaderFetchArgs = {
+	request: Request;
+	context?: LoaderFunctionArgs["context"];
+};
+
+// The result of `data()`, which React Router does not export at runtime
+const isDataWithResponseInit = (
+	value: unknown,
+): value is { type: "DataWithResponseInit"; data: unknown } =>
+	typeof value === "object" &&
+	value !== null &&
+	"type" in value &&
+	value.type === "DataWithResponseInit";
+
+const toError = (thrown: unknown) =>
+	thrown instanceof Response
+		? new Error(`HTTP error! Status: ${thrown.status}`)
+		: thrown;
+
+// Nests the flat route manifest of a server build into a route tree
+const toRouteTree = (
+	manifest: RouteLoaderBuild["routes"],
+	parentId?: string,
+): RouteObject[] =>
+	Object.values(manifest).flatMap((route) =>
+		route && route.parentId === parentId
+			? [
+					{
+						id: route.id,
+						path: route.path,
+						index: route.index,
+						caseSensitive: route.caseSensitive,
+						children: route.index ? undefined : toRouteTree(manifest, route.id),
+					} as RouteObject,
+				]
+			: [],
+	);
+
+/**
+ * Creates a fetch cache `load` function that calls route loaders directly.
+ *
+ * URLs are resolved against the incoming request's URL and matched against the routes of
+ * the server build, so the loaders always follow `routes.ts`. Like fetchers, a URL loads
+ * the deepest route with a path, or the index route with `?index`. Loader results are
+ * unwrapped from `data()` and JSON responses; thrown or unsuccessful responses become
+ * errors.
+ *
+ * @param build - The server build, such as `virtual:react-router/server-build`
+ * @param args - The incoming request and context
+ * @returns A load function for createFetchCache
+ */
+export const routeLoaderFetch = (
+	build: RouteLoaderBuild,
+	{ request, context }: RouteLoaderFetchArgs,
+): FetchCacheLoad => {
+	const routes = toRouteTree(build.routes);
+
+	return async (key, { signal }) => {
+		const url = new URL(key, request.url);
+		const matches = matchRoutes(routes, url.pathname, build.basename) ?? [];
+
+		// Like fetchers, load the deepest route with a path, unless `?index` asks for the
+		// index route
+		const last = matches[matches.length - 1];
+		const pathMatches = matches.filter(
+			({ route }, index) => index === 0 || route.path,
+		);
+		const match =
+			last?.route.index && url.searchParams.has("index")
+				? last
+				: pathMatches[pathMatches.length - 1];
+
+		if (!match) {
+			throw new Error(`No route matches ${url.pathname}`);
+		}
+
+		const route = build.routes[match.route.id as string];
+		const loader = route?.module.loader;
+
+		if (!loader) {
+			throw new Error(`Route ${match.route.id} has no loader`);
+		}
+
+		url.searchParams.delete("index");
+
+		const args: LoaderFunctionArgs = {
+			request: new Request(url, { headers: request.headers, signal }),
+			params: match.params,
+			context,
+			// The route pattern, such as "/users/:id", joined from the matched paths
+			unstable_pattern: matches
+				.slice(0, matches.indexOf(match) + 1)
+				.map(({ route }) => route.path)
+				.filter(Boolean)
+				.join("/")
+				.replace(/^\/*/, "/"),
+		};
+
+		let result: unknown;
+		try {
+			result = await loader(args);
+		} catch (err) {
+			throw toError(err);
+		}
+
+		if (result instanceof Response) {
+			if (!result.ok) {
+				throw toError(result);
+			}
+			return result.json();
+		}
+
+		if (isDataWithResponseInit(result)) {
+			return result.data;
+		}
+
+		return result;
+	};
+};
@@ -0,0 +1,194 @@
+import {
+	afterAll,
+	beforeAll,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	mock,
+} from "bun:test";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { renderHook } from "@testing-library/react";
+import * as ReactRouter from "react-router";
+
+const mockLoad = mock(() => Promise.resolve());
+const mockUseFetcher = mock(() => ({
+	load: mockLoad,
+	submit: mock(() => Promise.resolve()),
+	state: "idle",
+	data: undefined,
+}));
+
+mock.module("react-router", () => ({
+	...ReactRouter,
+	useFetcher: mockUseFetcher,
+	href: (path: string, params?: Record<string, string>) =>
+		path.replace(/:(\w+)/g, (_, name: string) => params?.[name] ?? ""),
+}));
+
+import { z } from "zod";
+import { createRouteClient } from "./routeClient";
+import {
+	generateRouteModuleRegistry,
+	type RouteConfigEntry,
+	writeRouteModuleRegistry,
+} from "./routeModuleRegistry";
+import { useDynamicFetcher } from "./useDynamicFetcher";
+import { useDynamicSubmitter } from "./useDynamicSubmitter";
+import { useInfiniteFetcher } from "./useInfiniteFetcher";
+
+const todoModule = {
+	loader: async () => ({ id: "1", title: "Buy milk" }),
+	action: async () => ({ success: true as const, result: { done: true } }),
+	searchSchema: z.object({ expand: z.boolean().optional() }),
+};
+
+const statsModule = {
+	loader: async () => ({ count: 1 }),
+};
+
+declare module "./types/RouteModules" {
+	interface RegisterRouteModules {
+		"/registry/todos/:id": typeof todoModule;
+		"/registry/stats": typeof statsModule;
+	}
+}
+
+describe("generateRouteModuleRegistry", () => {
+	const appDirectory = "/project/app";
+	const outputFile = "/project/app/routeModules.generated.ts";
+
+	const generate = (routes: RouteConfigEntry[]) =>
+		generateRouteModuleRegistry(routes, { appDirectory, outputFile });
+
+	it("should register the module of each page by its full path", () => {
+		const source = generate([
+			{ index: true, file: "routes/home.tsx" },
+			{
+				path: "todos",
+				file: "routes/todos.tsx",
+				children: [
+					{ index: true, file: "routes/todos._index.tsx" },
+					{ path: ":id", file: "routes/todos.$id.tsx" },
+				],
+			},
+			{
+				file: "routes/layout.tsx",
+				children: [{ path: "settings/", file: "routes/settings.ts" }],
+			},
+		]);
+
+		expect(source).toBe(
+			[
+				"// Generated by @firtoz/router-toolkit. Do not edit.",
+				"",
+				'import "@firtoz/router-toolkit";',
+				"",
+				'declare module "@firtoz/router-toolkit" {',
+				"\tinterface RegisterRouteModules {",
+				'\t\t"/": typeof import("./routes/home");',
+				'\t\t"/todos": typeof import("./routes/todos");',
+				'\t\t"/todos/:id": typeof import("./routes/todos.$id");',
+				'\t\t"/settings": typeof import("./routes/settings");',
+				"\t}",
+				"}",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should expand optional segments", () => {
+		const source = generate([
+			{ path: ":lang?/docs/:page?", file: "routes/docs.tsx" },
+			{ path: "shop/new?", file: "routes/shop.tsx" },
+		]);
+
+		expect(source).toContain('"/:lang?/docs/:page?": typeof import(');
+		expect(source).toContain('"/shop": typeof import("./routes/shop");');
+		expect(source).toContain('"/shop/new": typeof import("./routes/shop");');
+	});
+
+	it("should import modules relative to the generated file", () => {
+		const source = generateRouteModuleRegistry(
+			[{ path: "about", file: "routes/about.tsx" }],
+			{ appDirectory, outputFile: "/project/types/routes.generated.ts" },
+		);
+
+		expect(source).toContain('"/about": typeof import("../app/routes/about");');
+	});
+});
+
+describe("writeRouteModuleRegistry", () => {
+	let root: string;
+
+	beforeAll(async () => {
+		root = await mkdtemp(path.join(tmpdir(), "route-module-registry-"));
+	});
+
+	afterAll(async () => {
+		await rm(root, { recursive: true, force: true });
+	});
+
+	it("should write the registry only when it changes", async () => {
+		const routes: RouteConfigEntry[] = [
+			{ path: "about", file: "routes/about.tsx" },
+		];
+		const importModule = mock(async () => ({ default: routes }));
+
+		const outputFile = await writeRouteModuleRegistry({ root, importModule });
+
+		expect(outputFile).toBe(path.join(root, "app/routeModules.generated.ts"));
+		expect(importModule).toHaveBeenCalledWith(path.join(root, "app/routes.ts"));
+		expect(await readFile(outputFile, "utf8")).toContain(
+			'"/about": typeof import("./routes/about");',
+		);
+
+		await writeFile(outputFile, await readFile(outputFile, "utf8"));
+		const { mtimeMs } = await stat(outputFile);
+		await Bun.sleep(10);
+		await writeRouteModuleRegistry({ root, importModule });
+		expect((await stat(outputFile)).mtimeMs).toBe(mtimeMs);
+	});
+});
+
+describe("registered route modules", () => {
+	it("should infer the route module of hooks from the path", () => {
+		const { result } = renderHook(() => ({
+			fetcher: useDynamicFetcher("/registry/todos/:id", { id: "1" }),
+			stats: useDynamicFetcher({ path: "/registry/stats" }),
+			submitter: useDynamicSubmitter("/registry/todos/:id", { id: "1" }),
+			pages: useInfiniteFetcher({
+				path: "/registry/stats",
+				getNextPageParam: () => undefined,
+			}),
+		}));
+
+		expectTypeOf(result.current.fetcher.data).toEqualTypeOf<
+			{ id: string; title: string } | undefined
+		>();
+		expectTypeOf(result.current.stats.data).toEqualTypeOf<
+			{ count: number } | undefined
+		>();
+		expectTypeOf(result.current.pages.pages).toEqualTypeOf<
+			{ count: number }[]
+		>();
+		expectTypeOf(result.current.fetcher.load).toEqualTypeOf<
+			(search?: { expand?: boolean }) => Promise<void>
+		>();
+
+		result.current.fetcher.load({ expand: true });
+		expect(mockLoad).toHaveBeenCalledWith("/registry/todos/1?expand=true");
+	});
+
+	it("should default the route client to the registry", () => {
+		const client = createRouteClient({
+			fetch: mock(async () => new Response()) as unknown as typeof fetch,
+		});
+
+		expectTypeOf(client.get<"/registry/stats">).returns.resolves.toEqualTypeOf<{
+			count: number;
+		}>();
+	});
+});
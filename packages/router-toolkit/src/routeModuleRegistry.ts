@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Route module registry generation
+ *
+ * Generates a file that registers each route path's module in
+ * {@link RegisterRouteModules}, from the app's `routes.ts`. With the registry in place,
+ * hooks infer the route module from the path, so `useDynamicFetcher("/todos/:id", { id })`
+ * needs no `typeof import(...)` and a path without a matching route is a compile error.
+ *
+ * This module uses Node APIs, so it is imported from
+ * `@firtoz/router-toolkit/routeModuleRegistry` rather than the package root.
+ *
+ * @example
+ * ```typescript
+ * // vite.config.ts
+ * import { routeModuleRegistry } from "@firtoz/router-toolkit/routeModuleRegistry";
+ *
+ * export default defineConfig({
+ *   plugins: [reactRouter(), routeModuleRegistry()],
+ * });
+ * ```
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * A route in `routes.ts`, as created by the `@react-router/dev/routes` helpers
+ */
+export type RouteConfigEntry = {
+	id?: string;
+	path?: string;
+	index?: boolean;
+	file: string;
+	children?: RouteConfigEntry[];
+};
+
+/**
+ * Options for generating the route module registry
+ */
+export type RouteModuleRegistryOptions = {
+	/**
+	 * The app directory, relative to the project root (defaults to `"app"`)
+	 */
+	appDirectory?: string;
+	/**
+	 * The route config file, relative to the app directory (defaults to `"routes.ts"`)
+	 */
+	routesFile?: string;
+	/**
+	 * The generated file, relative to the app directory (defaults to
+	 * `"routeModules.generated.ts"`)
+	 */
+	outputFile?: string;
+};
+
+// Expands optional segments into every page they match, the way React Router's typegen
+// does, so the registry's keys match RegisterPages
+const expandOptionalSegments = (fullPath: string) => {
+	const expand = (segments: string[]): string[] => {
+		if (segments.length === 0) {
+			return [""];
+		}
+
+		const [segment, ...rest] = segments;
+		const isOptional = segment.endsWith("?");
+		const isDynamic = segment.startsWith(":");
+		const withoutSegment = expand(rest);
+		const withSegment = withoutSegment.map((tail) =>
+			[isDynamic ? segment : segment.replace(/\?$/, ""), tail].join("/"),
+		);
+
+		return isOptional && !isDynamic
+			? [...withoutSegment, ...withSegment]
+			: withSegment;
+	};
+
+	return [
+		...new Set(
+			expand(fullPath.split("/")).map((page) =>
+				page === "/" ? page : page.replace(/\/$/, ""),
+			),
+		),
+	];
+};
+
+const collectPages = (
+	entries: RouteConfigEntry[],
+	parentSegments: string[],
+	pages: Map<string, string>,
+) => {
+	for (const entry of entries) {
+		const segments =
+			entry.path === undefined
+				? parentSegments
+				: [...parentSegments, entry.path.replace(/^\/|\/$/g, "")];
+
+		// Pathless layouts have no page of their own
+		if (entry.path !== undefined || entry.index) {
+			const fullPath = `/${segments.filter(Boolean).join("/")}`;
+			for (const page of expandOptionalSegments(fullPath)) {
+				// A parent route is loaded before its index route for the same page
+				if (!pages.has(page)) {
+					pages.set(page, entry.file);
+				}
+			}
+		}
+
+		if (entry.children) {
+			collectPages(entry.children, segments, pages);
+		}
+	}
+};
+
+/**
+ * Generates the source of a file that registers the module of every page in a route
+ * config in {@link RegisterRouteModules}.
+ *
+ * Pages are the route paths that React Router registers in `RegisterPages`. When a
+ * parent route and its index route share a page, the parent route is registered, since
+ * fetchers load it unless `?index` is added to the URL.
+ *
+ * @param routes - The route config, relative to the app directory
+ * @param options - The absolute app directory and path of the generated file
+ * @returns The generated source
+ */
+export const generateRouteModuleRegistry = (
+	routes: RouteConfigEntry[],
+	{ appDirectory, outputFile }: { appDirectory: string; outputFile: string },
+) => {
+	const pages = new Map<string, string>();
+	collectPages(routes, [], pages);
+
+	const entries = [...pages].map(([page, file]) => {
+		const relative = path
+			.relative(path.dirname(outputFile), path.resolve(appDirectory, file))
+			.split(path.sep)
+			.join("/")
+			.replace(/\.[jt]sx?$/, "");
+		const specifier = relative.startsWith(".") ? relative : `./${relative}`;
+
+		return `\t\t${JSON.stringify(page)}: typeof import(${JSON.stringify(specifier)});`;
+	});
+
+	return [
+		"// Generated by @firtoz/router-toolkit. Do not edit.",
+		"",
+		'import "@firtoz/router-toolkit";',
+		"",
+		'declare module "@firtoz/router-toolkit" {',
+		"\tinterface RegisterRouteModules {",
+		...entries,
+		"\t}",
+		"}",
+		"",
+	].join("\n");
+};
+
+type ResolvedRegistryOptions = {
+	appDirectory: string;
+	routesFile: string;
+	outputFile: string;
+};
+
+const resolveOptions = (
+	root: string,
+	{
+		appDirectory = "app",
+		routesFile = "routes.ts",
+		outputFile = "routeModules.generated.ts",
+	}: RouteModuleRegistryOptions,
+): ResolvedRegistryOptions => {
+	const resolvedAppDirectory = path.resolve(root, appDirectory);
+	return {
+		appDirectory: resolvedAppDirectory,
+		routesFile: path.resolve(resolvedAppDirectory, routesFile),
+		outputFile: path.resolve(resolvedAppDirectory, outputFile),
+	};
+};
+
+/**
+ * Loads the route config from `routes.ts` and writes the generated registry, unless it
+ * is unchanged.
+ *
+ * @param options - The registry options, with the project root (defaults to the
+ * working directory) and a function that imports the route config file (defaults to
+ * `import()`, which needs a runtime that runs TypeScript, such as Bun)
+ * @returns The path of the generated file
+ */
+export const writeRouteModuleRegistry = async ({
+	root = process.cwd(),
+	importModule = (file) => import(pathToFileURL(file).href),
+	...options
+}: RouteModuleRegistryOptions & {
+	root?: string;
+	importModule?: (file: string) => Promise<Record<string, unknown>>;
+} = {}) => {
+	const { appDirectory, routesFile, outputFile } = resolveOptions(
+		root,
+		options,
+	);
+
+	// Route helpers such as flatRoutes() read the app directory from here
+	(
+		globalThis as { __reactRouterAppDirectory?: string }
+	).__reactRouterAppDirectory = appDirectory;
+
+	const routes = (await (
+		await importModule(routesFile)
+	).default) as RouteConfigEntry[];
+	const source = generateRouteModuleRegistry(routes, {
+		appDirectory,
+		outputFile,
+	});
+
+	const existing = await readFile(outputFile, "utf8").catch(() => undefined);
+	if (existing !== source) {
+		await mkdir(path.dirname(outputFile), { recursive: true });
+		await writeFile(outputFile, source);
+	}
+
+	return outputFile;
+};
+
+// The parts of Vite's plugin API that the plugin uses, so Vite is not a dependency
+type ViteDevServer = {
+	ssrLoadModule: (url: string) => Promise<Record<string, unknown>>;
+	watcher: {
+		add: (file: string) => void;
+		on: (event: "change", listener: (file: string) => void) => void;
+	};
+	config: { logger: { error: (message: string) => void } };
+};
+
+type VitePlugin = {
+	name: string;
+	configResolved: (config: { root: string }) => void;
+	configureServer: (server: ViteDevServer) => Promise<void>;
+};
+
+/**
+ * A Vite plugin that generates the route module registry when the dev server starts and
+ * whenever `routes.ts` changes. Route config files are loaded through Vite, so they can
+ * import anything the app can.
+ *
+ * For type checking outside the dev server, such as in CI, generate the registry with the
+ * `router-toolkit-routes` command first.
+ *
+ * @param options - The registry options
+ * @returns The Vite plugin
+ */
+export const routeModuleRegistry = (
+	options: RouteModuleRegistryOptions = {},
+): VitePlugin => {
+	let root = process.cwd();
+
+	return {
+		name: "@firtoz/router-toolkit:route-module-registry",
+		configResolved: (config) => {
+			root = config.root;
+		},
+		configureServer: async (server) => {
+			const { routesFile } = resolveOptions(root, options);
+
+			const generate = () =>
+				writeRouteModuleRegistry({
+					...options,
+					root,
+					importModule: (file) => server.ssrLoadModule(file),
+				}).catch((error: unknown) => {
+					server.config.logger.error(
+						`Failed to generate the route module registry: ${error}`,
+					);
+				});
+
+			server.watcher.add(routesFile);
+			server.watcher.on("change", (file) => {
+				if (path.resolve(file) === routesFile) {
+					generate();
+				}
+			});
+
+			await generate();
+		},
+	};
+};
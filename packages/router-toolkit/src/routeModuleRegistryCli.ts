@@ -0,0 +1,26 @@
+#!/usr/bin/env bun
+/**
+ * @fileoverview CLI that generates the route module registry
+ *
+ * Usage: `router-toolkit-routes [--app-directory app] [--routes-file routes.ts]
+ * [--output-file routeModules.generated.ts]`
+ */
+
+import { parseArgs } from "node:util";
+import { writeRouteModuleRegistry } from "./routeModuleRegistry";
+
+const { values } = parseArgs({
+	options: {
+		"app-directory": { type: "string" },
+		"routes-file": { type: "string" },
+		"output-file": { type: "string" },
+	},
+});
+
+const outputFile = await writeRouteModuleRegistry({
+	appDirectory: values["app-directory"],
+	routesFile: values["routes-file"],
+	outputFile: values["output-file"],
+});
+
+console.log(`Generated ${outputFile}`);
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import {
+	parseSearch,
+	parseSearchAsync,
+	serializeSearch,
+	withSearch,
+} from "./searchParams";
+
+const searchSchema = z.object({
+	q: z.string().optional(),
+	page: z.number().int().default(1),
+	tags: z.array(z.string()).default([]),
+	ids: z.array(z.number()).optional(),
+	archived: z.boolean().optional(),
+	since: z.date().optional(),
+	total: z.bigint().optional(),
+	sort: z
+		.string()
+		.transform((value) => value.split(","))
+		.optional(),
+});
+
+const request = (search: string) =>
+	new Request(`http://localhost/users${search}`);
+
+describe("serializeSearch", () => {
+	it("should serialize arrays, numbers, booleans, bigints and dates", () => {
+		expect(
+			serializeSearch({
+				q: "ada lovelace",
+				page: 2,
+				tags: ["a", "b"],
+				archived: true,
+				since: new Date(0),
+				total: 10n,
+				missing: undefined,
+				empty: null,
+			}).toString(),
+		).toBe(
+			"q=ada+lovelace&page=2&tags=a&tags=b&archived=true&since=1970-01-01T00%3A00%3A00.000Z&total=10",
+		);
+	});
+});
+
+describe("withSearch", () => {
+	it("should add search params to a URL, replacing params of the same name", () => {
+		expect(withSearch("/users")).toBe("/users");
+		expect(withSearch("/users", {})).toBe("/users");
+		expect(withSearch("/users?page=1&q=ada", { page: 2 })).toBe(
+			"/users?q=ada&page=2",
+		);
+		expect(withSearch("https://example.com/users", { tags: ["a", "b"] })).toBe(
+			"https://example.com/users?tags=a&tags=b",
+		);
+	});
+});
+
+describe("parseSearch", () => {
+	it("should read back serialized search values", () => {
+		const values = {
+			q: "ada",
+			page: 3,
+			tags: ["a", "b"],
+			ids: [1, 2],
+			archived: false,
+			since: new Date(0),
+			total: 10n,
+		};
+
+		const result = parseSearch(
+			request(`?${serializeSearch(values)}`),
+			searchSchema,
+		);
+
+		expect(result).toEqual({ success: true, result: values });
+	});
+
+	it("should apply defaults and pipes to the values", () => {
+		expect(parseSearch(request("?sort=name,age"), searchSchema)).toEqual({
+			success: true,
+			result: { page: 1, tags: [], sort: ["name", "age"] },
+		});
+
+		// A single value still parses as an array
+		expect(parseSearch(request("?tags=only"), searchSchema)).toEqual({
+			success: true,
+			result: { page: 1, tags: ["only"] },
+		});
+	});
+
+	it("should return field errors for invalid values", () => {
+		const result = parseSearch(
+			request("?page=two&archived=maybe&ids=1&ids=x"),
+			searchSchema,
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.error.type).toBe("validation");
+			expect(result.error.error.properties?.page?.errors).toHaveLength(1);
+			expect(result.error.error.properties?.archived?.errors).toHaveLength(1);
+			// Only the invalid array item has an error
+			const ids = result.error.error.properties?.ids;
+			const items = ids && "items" in ids ? ids.items : undefined;
+			expect(items?.[0]).toBeUndefined();
+			expect(items?.[1]?.errors).toHaveLength(1);
+		}
+	});
+});
+
+describe("parseSearchAsync", () => {
+	it("should support async refinements", async () => {
+		const schema = z.object({
+			q: z.string().refine(async (value) => value !== "taken"),
+		});
+
+		expect(await parseSearchAsync(request("?q=free"), schema)).toEqual({
+			success: true,
+			result: { q: "free" },
+		});
+
+		const taken = await parseSearchAsync(request("?q=taken"), schema);
+		expect(taken.success).toBe(false);
+		if (!taken.success) {
+			expect(taken.error.error.properties?.q?.errors).toHaveLength(1);
+		}
+	});
+});
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Typed search params shared between loaders and fetchers
+ *
+ * A route module can export a `searchSchema` describing its query string. The loader
+ * parses the request's search params with {@link parseSearch}, and useDynamicFetcher and
+ * useCachedFetch type the search values they send from the same schema, serializing them
+ * with {@link serializeSearch} in the format parseSearch reads back.
+ *
+ * @example
+ * ```typescript
+ * // app/routes/users.tsx
+ * export const searchSchema = z.object({
+ *   page: z.number().int().default(1),
+ *   roles: z.array(z.enum(["admin", "member"])).default([]),
+ *   since: z.date().optional(),
+ * });
+ *
+ * export const loader = async ({ request }: Route.LoaderArgs) => {
+ *   const search = parseSearch(request, searchSchema);
+ *   if (!search.success) {
+ *     throw data(search.error, { status: 400 });
+ *   }
+ *   return getUsers(search.result);
+ * };
+ *
+ * // Elsewhere
+ * const fetcher = useDynamicFetcher<typeof import("./users")>("/users");
+ * fetcher.load({ page: 2, roles: ["admin"], since: new Date(2024, 0, 1) });
+ * ```
+ */
+
+import { fail, type MaybeError } from "@firtoz/maybe-error";
+import { z } from "zod";
+import type { RequestBodyValidationError } from "./parseRequestBody";
+import { succeed } from "./succeed";
+import { updateUrl } from "./updateUrl";
+
+/**
+ * A single search param value before serialization
+ */
+export type SearchValue = string | number | boolean | bigint | Date;
+
+/**
+ * Search param values by name. Arrays become repeated keys, and `null` or `undefined`
+ * values are left out.
+ */
+export type SearchValues = Record<
+	string,
+	SearchValue | readonly SearchValue[] | null | undefined
+>;
+
+/**
+ * The search values accepted for a route: the input type of its module's `searchSchema`,
+ * or of its {@link typedLoader}'s search schema, or any {@link SearchValues} when it has
+ * neither.
+ *
+ * @template TInfo - The route module type
+ */
+export type SearchParamsOf<TInfo> = TInfo extends {
+	searchSchema: infer TSchema extends z.ZodType;
+}
+	? z.input<TSchema>
+	: TInfo extends { loader: { searchSchema: infer TSchema extends z.ZodType } }
+		? z.input<TSchema>
+		: SearchValues;
+
+/**
+ * Validation error returned when search params do not match their schema, with the same
+ * shape as a {@link RequestBodyValidationError}.
+ */
+export type SearchValidationError<TSchema extends z.ZodTypeAny> =
+	RequestBodyValidationError<TSchema>;
+
+const serializeValue = (value: SearchValue) =>
+	value instanceof Date ? value.toISOString() : String(value);
+
+/**
+ * Serializes search values to URL search params: arrays as repeated keys, dates as ISO
+ * strings, and numbers, booleans and bigints as strings. `null` and `undefined` values
+ * are left out.
+ *
+ * @param values - The search values
+ * @returns The search params
+ */
+export const serializeSearch = (values: SearchValues) => {
+	const params = new URLSearchParams();
+
+	for (const [key, value] of Object.entries(values)) {
+		if (value === null || value === undefined) {
+			continue;
+		}
+
+		const items: readonly SearchValue[] = Array.isArray(value)
+			? value
+			: [value as SearchValue];
+		for (const item of items) {
+			params.append(key, serializeValue(item));
+		}
+	}
+
+	return params;
+};
+
+/**
+ * Adds search values to a URL, replacing any params of the same name.
+ *
+ * @param url - The URL, as returned by href
+ * @param values - The search values
+ * @returns The URL with the serialized search values
+ */
+export const withSearch = (url: string, values?: SearchValues) => {
+	const params = values ? serializeSearch(values) : undefined;
+	if (!params || params.toString() === "") {
+		return url;
+	}
+
+	return updateUrl(url, (parsed) => {
+		params.forEach((_value, key) => {
+			parsed.searchParams.delete(key);
+		});
+		params.forEach((value, key) => {
+			parsed.searchParams.append(key, value);
+		});
+	});
+};
+
+type SchemaDef = {
+	type: string;
+	innerType?: z.core.$ZodType;
+	in?: z.core.$ZodType;
+	element?: z.core.$ZodType;
+};
+
+// The schema that decides how a field is read, past optional, default and pipe wrappers
+const unwrapSchema = (schema: z.core.$ZodType): z.core.$ZodType => {
+	const def = schema._zod.def as SchemaDef;
+
+	if (def.innerType) {
+		return unwrapSchema(def.innerType);
+	}
+	if (def.type === "pipe" && def.in) {
+		return unwrapSchema(def.in);
+	}
+	return schema;
+};
+
+// Converts a search param string to the type its schema expects, leaving it as a string
+// when it cannot be converted so that the schema reports the issue
+const coerceValue = (schema: z.core.$ZodType, value: string): unknown => {
+	switch ((unwrapSchema(schema)._zod.def as SchemaDef).type) {
+		case "number": {
+			const number = Number(value);
+			return value.trim() === "" || Number.isNaN(number) ? value : number;
+		}
+		case "boolean":
+			return value === "true" ? true : value === "false" ? false : value;
+		case "date": {
+			const date = new Date(value);
+			return Number.isNaN(date.getTime()) ? value : date;
+		}
+		case "bigint":
+			try {
+				return BigInt(value);
+			} catch {
+				return value;
+			}
+		default:
+			return value;
+	}
+};
+
+/**
+ * Reads URL search params into an object shaped by a schema. Array fields collect every
+ * value of their key, other fields take the first one, and values are converted to the
+ * number, boolean, date or bigint their field expects. Missing keys are left out so that
+ * optional fields and defaults apply.
+ *
+ * @param params - The search params
+ * @param schema - The object schema of the search params
+ * @returns The search values, before validation
+ */
+export const readSearch = (params: URLSearchParams, schema: z.ZodObject) => {
+	const values: Record<string, unknown> = {};
+
+	for (const [key, field] of Object.entries(schema.shape)) {
+		if (!params.has(key)) {
+			continue;
+		}
+
+		const fieldSchema = unwrapSchema(field);
+		const def = fieldSchema._zod.def as SchemaDef;
+
+		if (def.type === "array" && def.element) {
+			const element = def.element;
+			values[key] = params
+				.getAll(key)
+				.map((value) => coerceValue(element, value));
+		} else {
+			values[key] = coerceValue(fieldSchema, params.get(key) as string);
+		}
+	}
+
+	return values;
+};
+
+const toSearchResult = <TSchema extends z.ZodObject>(
+	parsed: z.ZodSafeParseResult<z.output<TSchema>>,
+): MaybeError<z.output<TSchema>, SearchValidationError<TSchema>> => {
+	if (!parsed.success) {
+		return fail({
+			type: "validation" as const,
+			error: z.treeifyError<z.infer<TSchema>>(
+				parsed.error as z.core.$ZodError<z.infer<TSchema>>,
+			),
+		});
+	}
+
+	return succeed(parsed.data);
+};
+
+/**
+ * Parses and validates a request's search params against a schema, typically a route
+ * module's `searchSchema`. Values are read back in the format {@link serializeSearch}
+ * writes them, so plain `z.number()`, `z.boolean()`, `z.date()` and `z.array()` fields work
+ * without coercion.
+ *
+ * Parsing is synchronous, so schemas with async refinements or transforms throw; use
+ * {@link parseSearchAsync} for them.
+ *
+ * @template TSchema - The object schema of the search params
+ *
+ * @param request - The incoming request
+ * @param schema - The object schema of the search params
+ * @returns The parsed search params, or a validation error
+ */
+export const parseSearch = <TSchema extends z.ZodObject>(
+	request: Request,
+	schema: TSchema,
+): MaybeError<z.output<TSchema>, SearchValidationError<TSchema>> =>
+	toSearchResult(
+		schema.safeParse(readSearch(new URL(request.url).searchParams, schema)),
+	);
+
+/**
+ * Like {@link parseSearch}, but supports schemas with async refinements and transforms.
+ *
+ * @template TSchema - The object schema of the search params
+ *
+ * @param request - The incoming request
+ * @param schema - The object schema of the search params
+ * @returns A promise of the parsed search params, or of a validation error
+ */
+export const parseSearchAsync = async <TSchema extends z.ZodObject>(
+	request: Request,
+	schema: TSchema,
+): Promise<MaybeError<z.output<TSchema>, SearchValidationError<TSchema>>> =>
+	toSearchResult(
+		await schema.safeParseAsync(
+			readSearch(new URL(request.url).searchParams, schema),
+		),
+	);
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { createRequestHandler, redirect, type ServerBuild } from "react-router";
+import { createFetchCache } from "./fetchCache";
+import { singleFetchLoad, singleFetchUrl } from "./singleFetch";
+
+// A minimal server build, so responses are encoded by React Router itself
+const build = {
+	entry: { module: { default: () => new Response(null) } },
+	routes: {
+		root: {
+			id: "root",
+			path: "",
+			module: { loader: () => ({ user: "Ada" }) },
+		},
+		"routes/events": {
+			id: "routes/events",
+			parentId: "root",
+			path: "events",
+			module: {
+				loader: () => ({
+					startsAt: new Date(0),
+					tags: new Set(["launch"]),
+					seats: new Map([["A1", 3n]]),
+					attendees: Promise.resolve(["Grace"]),
+				}),
+			},
+		},
+		"routes/missing": {
+			id: "routes/missing",
+			parentId: "root",
+			path: "missing",
+			module: {
+				loader: () => {
+					throw new Response(null, { status: 404 });
+				},
+			},
+		},
+		"routes/private": {
+			id: "routes/private",
+			parentId: "root",
+			path: "private",
+			module: {
+				loader: () => {
+					throw redirect("/login");
+				},
+			},
+		},
+	},
+	assets: {
+		routes: {},
+		entry: { module: "", imports: [] },
+		url: "",
+		version: "1",
+	},
+	publicPath: "/",
+	assetsBuildDirectory: "",
+	future: {},
+	ssr: true,
+	isSpaMode: false,
+	prerender: [],
+	routeDiscovery: { mode: "lazy", manifestPath: "/__manifest" },
+} as unknown as ServerBuild;
+
+const handler = createRequestHandler(build);
+
+const mockFetch = mock((url: string, init?: RequestInit) =>
+	handler(new Request(new URL(url, "http://localhost"), init)),
+);
+
+const originalFetch = globalThis.fetch;
+
+const options = () => ({ signal: new AbortController().signal });
+
+describe("singleFetchUrl", () => {
+	it("should convert route URLs to .data URLs", () => {
+		expect(singleFetchUrl("/")).toBe("/_root.data");
+		expect(singleFetchUrl("/events/")).toBe("/events.data");
+		expect(singleFetchUrl("/events?page=2", "routes/events")).toBe(
+			"/events.data?page=2&_routes=routes%2Fevents",
+		);
+		expect(singleFetchUrl("https://example.com/events")).toBe(
+			"https://example.com/events.data",
+		);
+	});
+});
+
+describe("singleFetchLoad", () => {
+	beforeEach(() => {
+		globalThis.fetch = mockFetch as unknown as typeof globalThis.fetch;
+		mockFetch.mockClear();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("should decode the route's turbo-stream data", async () => {
+		const data = (await singleFetchLoad("/events", {
+			...options(),
+			routeId: "routes/events",
+		})) as {
+			startsAt: Date;
+			tags: Set<string>;
+			seats: Map<string, bigint>;
+			attendees: Promise<string[]>;
+		};
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			"/events.data?_routes=routes%2Fevents",
+			expect.anything(),
+		);
+		expect(data.startsAt).toEqual(new Date(0));
+		expect(data.tags).toEqual(new Set(["launch"]));
+		expect(data.seats).toEqual(new Map([["A1", 3n]]));
+		expect(await data.attendees).toEqual(["Grace"]);
+	});
+
+	it("should use the last route result without a route ID", async () => {
+		expect(await singleFetchLoad("/", options())).toEqual({ user: "Ada" });
+
+		const data = await singleFetchLoad("/events", options());
+		expect(data).toMatchObject({ startsAt: new Date(0) });
+	});
+
+	it("should turn error responses and redirects into errors", async () => {
+		const cache = createFetchCache();
+
+		await cache.fetch("/missing", { routeId: "routes/missing" });
+		await cache.fetch("/private", { routeId: "routes/private" });
+
+		expect(cache.get("/missing")?.error).toEqual(
+			new Error("HTTP error! Status: 404"),
+		);
+		expect(cache.get("/private")?.error).toEqual(
+			new Error("Redirected to /login"),
+		);
+	});
+
+	it("should parse other responses as JSON", async () => {
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(Response.json({ ok: true })),
+		);
+		expect(await singleFetchLoad("/api/health", options())).toEqual({
+			ok: true,
+		});
+
+		mockFetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response("Bad gateway", { status: 502 })),
+		);
+		await expect(singleFetchLoad("/api/health", options())).rejects.toEqual(
+			new Error("HTTP error! Status: 502"),
+		);
+	});
+});
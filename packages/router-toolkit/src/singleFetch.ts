@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Single fetch loading for the fetch cache
+ *
+ * React Router 7 serves loader data from `.data` URLs, encoded with turbo-stream so that
+ * values such as `Date`, `Map`, `Set`, `BigInt` and promises survive serialization. This
+ * module requests those URLs and decodes them the way React Router's own fetchers do.
+ */
+
+import {
+	isRouteErrorResponse,
+	UNSAFE_decodeViaTurboStream as decodeViaTurboStream,
+	UNSAFE_SingleFetchRedirectSymbol as SingleFetchRedirectSymbol,
+} from "react-router";
+import type { FetchCacheLoad } from "./fetchCache";
+import { updateUrl } from "./updateUrl";
+
+type SingleFetchResult = { data: unknown } | { error: unknown };
+
+type SingleFetchRedirect = { redirect: string };
+
+/**
+ * Converts a route URL to its single fetch `.data` URL, such as `/users.data` for
+ * `/users` and `/_root.data` for `/`, targeting only the route's loader when known.
+ *
+ * @param url - The route URL, as returned by href
+ * @param routeId - The ID of the route whose loader to call
+ * @returns The `.data` URL
+ */
+export const singleFetchUrl = (url: string, routeId?: string) =>
+	updateUrl(url, (parsed) => {
+		parsed.pathname =
+			parsed.pathname === "/"
+				? "/_root.data"
+				: `${parsed.pathname.replace(/\/$/, "")}.data`;
+
+		if (routeId) {
+			parsed.searchParams.set("_routes", routeId);
+		}
+	});
+
+const toError = (error: unknown) =>
+	isRouteErrorResponse(error)
+		? new Error(`HTTP error! Status: ${error.status}`)
+		: error;
+
+type SingleFetchResponse =
+	| { encoding: "turbo-stream"; value: unknown }
+	| { encoding: "json"; value: unknown };
+
+// Handles the errors and redirects shared by loader and action responses, and decodes the body
+const readResponse = async (
+	response: Response,
+): Promise<SingleFetchResponse> => {
+	if (!response.ok && !response.headers.has("X-Remix-Response")) {
+		throw new Error(`HTTP error! Status: ${response.status}`);
+	}
+
+	const redirect = response.headers.get("X-Remix-Redirect");
+	if (redirect) {
+		throw new Error(`Redirected to ${redirect}`);
+	}
+
+	if (!response.headers.get("Content-Type")?.startsWith("text/x-script")) {
+		if (!response.ok) {
+			throw new Error(`HTTP error! Status: ${response.status}`);
+		}
+		return {
+			encoding: "json",
+			value: response.status === 204 ? undefined : await response.json(),
+		};
+	}
+
+	if (!response.body) {
+		throw new Error("No response body to decode");
+	}
+
+	const { value } = await decodeViaTurboStream(
+		response.body,
+		typeof window === "undefined" ? globalThis : window,
+	);
+	return { encoding: "turbo-stream", value };
+};
+
+const unwrapResult = (result: SingleFetchResult) => {
+	if ("error" in result) {
+		throw toError(result.error);
+	}
+	return result.data;
+};
+
+/**
+ * Reads a loader's data from a single fetch response, picking the route's result by
+ * `routeId` when known and the last route result otherwise.
+ *
+ * @param response - The response of a `.data` URL
+ * @param routeId - The ID of the route whose data to read
+ * @returns The loader data
+ */
+export const readSingleFetchLoaderData = async (
+	response: Response,
+	routeId?: string,
+) => {
+	const { encoding, value } = await readResponse(response);
+	if (encoding === "json") {
+		return value;
+	}
+
+	const results = value as Record<string, SingleFetchResult> & {
+		[SingleFetchRedirectSymbol]?: SingleFetchRedirect;
+	};
+
+	const singleFetchRedirect = results[SingleFetchRedirectSymbol];
+	if (singleFetchRedirect) {
+		throw new Error(`Redirected to ${singleFetchRedirect.redirect}`);
+	}
+
+	const result = routeId
+		? results[routeId]
+		: Object.values(results)[Object.values(results).length - 1];
+
+	if (!result) {
+		throw new Error(
+			routeId
+				? `No loader data found for route ${routeId}`
+				: "No loader data found",
+		);
+	}
+
+	return unwrapResult(result);
+};
+
+/**
+ * Reads an action's data from the single fetch response of a submission.
+ *
+ * @param response - The response of a `.data` URL to a non-GET request
+ * @returns The action data
+ */
+export const readSingleFetchActionData = async (response: Response) => {
+	const { encoding, value } = await readResponse(response);
+	if (encoding === "json" || value === undefined) {
+		return value;
+	}
+
+	const result = value as SingleFetchResult | SingleFetchRedirect;
+	if ("redirect" in result) {
+		throw new Error(`Redirected to ${result.redirect}`);
+	}
+
+	return unwrapResult(result);
+};
+
+/**
+ * Loads a route's data from its single fetch `.data` URL and decodes the turbo-stream
+ * response. This is the default `load` function of createFetchCache.
+ *
+ * The route's result is picked by `routeId` when known, which useCachedFetch resolves
+ * from the app's data router; otherwise the last route result is used. Deferred promises
+ * in the data resolve as the rest of the response streams in. Responses that are not
+ * turbo-stream encoded, such as those of resource routes, are parsed as JSON.
+ */
+export const singleFetchLoad: FetchCacheLoad = async (
+	url,
+	{ signal, routeId },
+) =>
+	readSingleFetchLoaderData(
+		await fetch(singleFetchUrl(url, routeId), { signal }),
+		routeId,
+	);
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import { IDBFactory } from "fake-indexeddb";
+import {
+	createSubmissionQueue,
+	indexedDBSubmissionStorage,
+	memorySubmissionStorage,
+	type SubmissionQueueStorage,
+} from "./submissionQueue";
+
+const originalIndexedDB = globalThis.indexedDB;
+beforeAll(() => {
+	globalThis.indexedDB = new IDBFactory();
+});
+afterAll(() => {
+	globalThis.indexedDB = originalIndexedDB;
+});
+
+const storages: [string, () => SubmissionQueueStorage][] = [
+	[
+		"indexedDBSubmissionStorage",
+		() => indexedDBSubmissionStorage({ databaseName: crypto.randomUUID() }),
+	],
+	["memorySubmissionStorage", memorySubmissionStorage],
+];
+
+for (const [name, createStorage] of storages) {
+	describe(name, () => {
+		it("should list submissions for a key in queue order", async () => {
+			const storage = createStorage();
+			const file = new File(["photo"], "photo.png", { type: "image/png" });
+
+			const first = await storage.add({
+				key: "/visits",
+				method: "POST",
+				entries: [
+					["notes", "First"],
+					["photo", file],
+				],
+				queuedAt: 2,
+				status: "queued",
+				attempts: 0,
+			});
+			await storage.add({
+				key: "/other",
+				method: "POST",
+				entries: [],
+				queuedAt: 1,
+				status: "queued",
+				attempts: 0,
+			});
+			const second = await storage.add({
+				key: "/visits",
+				method: "DELETE",
+				entries: [["id", "1"]],
+				queuedAt: 1,
+				status: "queued",
+				attempts: 0,
+			});
+
+			const submissions = await storage.list("/visits");
+
+			expect(submissions.map((submission) => submission.id)).toEqual([
+				first,
+				second,
+			]);
+			expect(submissions[0].entries[0]).toEqual(["notes", "First"]);
+			expect(await (submissions[0].entries[1][1] as File).text()).toBe("photo");
+		});
+
+		it("should update and delete submissions", async () => {
+			const storage = createStorage();
+			const id = await storage.add({
+				key: "/visits",
+				method: "POST",
+				entries: [],
+				queuedAt: 1,
+				status: "queued",
+				attempts: 0,
+			});
+			const [submission] = await storage.list("/visits");
+
+			await storage.put({ ...submission, status: "succeeded", result: "ok" });
+			expect(await storage.list("/visits")).toEqual([
+				{ ...submission, id, status: "succeeded", result: "ok" },
+			]);
+
+			await storage.delete(id);
+			expect(await storage.list("/visits")).toEqual([]);
+		});
+	});
+}
+
+describe("createSubmissionQueue", () => {
+	it("should notify subscribers of the changed key", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const visitsListener = mock(() => {});
+		const otherListener = mock(() => {});
+
+		const unsubscribe = queue.subscribe("/visits", visitsListener);
+		queue.subscribe("/other", otherListener);
+
+		const submission = await queue.enqueue("/visits", "POST", [["a", "1"]]);
+		await queue.update({ ...submission, status: "replaying" });
+		unsubscribe();
+		await queue.remove(submission);
+
+		expect(visitsListener).toHaveBeenCalledTimes(2);
+		expect(otherListener).not.toHaveBeenCalled();
+		expect(await queue.list("/visits")).toEqual([]);
+	});
+});
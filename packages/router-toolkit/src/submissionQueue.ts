@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Persistent queue of form submissions made while offline
+ *
+ * Submissions are stored with their form data entries (files included), keyed by the
+ * action URL, so they survive reloads and can be replayed in order once back online.
+ * The default storage is IndexedDB; {@link memorySubmissionStorage} is available for
+ * tests and environments without it.
+ */
+
+/**
+ * Status of a queued submission:
+ * - `"queued"` - waiting to be replayed
+ * - `"replaying"` - being submitted
+ * - `"succeeded"` - the action returned a success
+ * - `"failed"` - the action returned a MaybeError failure or responded with an error, or
+ *   the submission could not reach the action after the maximum number of attempts
+ */
+export type QueuedSubmissionStatus =
+	| "queued"
+	| "replaying"
+	| "succeeded"
+	| "failed";
+
+/**
+ * A submission stored in the queue
+ *
+ * @template TResult - The action result type
+ */
+export type QueuedSubmission<TResult = unknown> = {
+	/**
+	 * Increasing identifier, which is also the replay order
+	 */
+	id: number;
+	/**
+	 * The action URL the submission is queued for
+	 */
+	key: string;
+	method: string;
+	entries: [string, FormDataEntryValue][];
+	/**
+	 * When the submission was queued, in milliseconds since the epoch
+	 */
+	queuedAt: number;
+	status: QueuedSubmissionStatus;
+	/**
+	 * How many times sending the submission failed to reach the action
+	 */
+	attempts: number;
+	/**
+	 * The action's result, once replayed
+	 */
+	result?: TResult;
+};
+
+/**
+ * Where queued submissions are persisted
+ */
+export type SubmissionQueueStorage = {
+	/**
+	 * Stores a new submission
+	 *
+	 * @returns The submission's id
+	 */
+	add: (submission: Omit<QueuedSubmission, "id">) => Promise<number>;
+	put: (submission: QueuedSubmission) => Promise<void>;
+	delete: (id: number) => Promise<void>;
+	/**
+	 * Lists the submissions for a key, in replay order
+	 */
+	list: (key: string) => Promise<QueuedSubmission[]>;
+};
+
+/**
+ * A submission queue shared by every submitter for the same key
+ */
+export type SubmissionQueue = {
+	/**
+	 * Adds a submission to the end of the queue for its key
+	 */
+	enqueue: (
+		key: string,
+		method: string,
+		entries: [string, FormDataEntryValue][],
+	) => Promise<QueuedSubmission>;
+	/**
+	 * Saves a changed submission
+	 */
+	update: (submission: QueuedSubmission) => Promise<void>;
+	/**
+	 * Removes a submission from the queue
+	 */
+	remove: (submission: Pick<QueuedSubmission, "id" | "key">) => Promise<void>;
+	list: (key: string) => Promise<QueuedSubmission[]>;
+	/**
+	 * Calls the listener whenever the submissions for a key change
+	 *
+	 * @returns A function that removes the listener
+	 */
+	subscribe: (key: string, listener: () => void) => () => void;
+};
+
+/**
+ * Options for indexedDBSubmissionStorage
+ */
+export type IndexedDBSubmissionStorageOptions = {
+	/**
+	 * Name of the database (defaults to `"router-toolkit"`)
+	 */
+	databaseName?: string;
+	/**
+	 * Name of the object store (defaults to `"submissions"`)
+	 */
+	storeName?: string;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+	new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+/**
+ * Creates a storage that persists queued submissions in IndexedDB.
+ *
+ * The database is opened on first use, so the storage can be created during server rendering.
+ *
+ * @param options - The database and object store names
+ * @returns An IndexedDB-backed storage
+ */
+export const indexedDBSubmissionStorage = ({
+	databaseName = "router-toolkit",
+	storeName = "submissions",
+}: IndexedDBSubmissionStorageOptions = {}): SubmissionQueueStorage => {
+	let database: Promise<IDBDatabase> | undefined;
+
+	const getStore = async (mode: IDBTransactionMode) => {
+		database ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(databaseName, 1);
+			request.onupgradeneeded = () => {
+				request.result
+					.createObjectStore(storeName, { keyPath: "id", autoIncrement: true })
+					.createIndex("key", "key");
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+
+		return (await database).transaction(storeName, mode).objectStore(storeName);
+	};
+
+	return {
+		add: async (submission) =>
+			(await requestToPromise(
+				(await getStore("readwrite")).add(submission),
+			)) as number,
+		put: async (submission) => {
+			await requestToPromise((await getStore("readwrite")).put(submission));
+		},
+		delete: async (id) => {
+			await requestToPromise((await getStore("readwrite")).delete(id));
+		},
+		// Index entries with the same key are ordered by primary key, which is the queue order
+		list: async (key) =>
+			requestToPromise<QueuedSubmission[]>(
+				(await getStore("readonly")).index("key").getAll(key),
+			),
+	};
+};
+
+/**
+ * Creates a storage that keeps queued submissions in memory, for tests and environments
+ * without IndexedDB. Submissions do not survive reloads.
+ *
+ * @returns An in-memory storage
+ */
+export const memorySubmissionStorage = (): SubmissionQueueStorage => {
+	const submissions = new Map<number, QueuedSubmission>();
+	let lastId = 0;
+
+	return {
+		add: async (submission) => {
+			lastId++;
+			submissions.set(lastId, { ...submission, id: lastId });
+			return lastId;
+		},
+		put: async (submission) => {
+			submissions.set(submission.id, submission);
+		},
+		delete: async (id) => {
+			submissions.delete(id);
+		},
+		list: async (key) =>
+			Array.from(submissions.values()).filter(
+				(submission) => submission.key === key,
+			),
+	};
+};
+
+/**
+ * Creates a submission queue on top of a storage.
+ *
+ * @param storage - Where to persist submissions (defaults to IndexedDB)
+ * @returns A submission queue
+ */
+export const createSubmissionQueue = (
+	storage: SubmissionQueueStorage = indexedDBSubmissionStorage(),
+): SubmissionQueue => {
+	const listeners = new Map<string, Set<() => void>>();
+
+	const notify = (key: string) => {
+		for (const listener of listeners.get(key) ?? []) {
+			listener();
+		}
+	};
+
+	return {
+		enqueue: async (key, method, entries) => {
+			const submission: Omit<QueuedSubmission, "id"> = {
+				key,
+				method,
+				entries,
+				queuedAt: Date.now(),
+				status: "queued",
+				attempts: 0,
+			};
+			const id = await storage.add(submission);
+			notify(key);
+			return { ...submission, id };
+		},
+		update: async (submission) => {
+			await storage.put(submission);
+			notify(submission.key);
+		},
+		remove: async ({ id, key }) => {
+			await storage.delete(id);
+			notify(key);
+		},
+		list: (key) => storage.list(key),
+		subscribe: (key, listener) => {
+			let keyListeners = listeners.get(key);
+			if (!keyListeners) {
+				keyListeners = new Set();
+				listeners.set(key, keyListeners);
+			}
+			keyListeners.add(listener);
+
+			return () => {
+				keyListeners.delete(listener);
+			};
+		},
+	};
+};
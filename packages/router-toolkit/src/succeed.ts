@@ -0,0 +1,13 @@
+/**
+ * @fileoverview success() for generic result types
+ */
+
+import { type DefiniteSuccess, success } from "@firtoz/maybe-error";
+
+/**
+ * Calls success() with a result of a generic type. success() can't tell whether such a
+ * type is undefined, so it would not accept the result otherwise.
+ */
+export const succeed = success as unknown as <T>(
+	result: T,
+) => DefiniteSuccess<T>;
@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type TempFile, tempFileUploadHandler } from "./tempFileUploadHandler";
+
+const encoder = new TextEncoder();
+
+const streamOf = (...chunks: string[]) =>
+	new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		},
+	});
+
+describe("tempFileUploadHandler", async () => {
+	const directory = await mkdtemp(join(tmpdir(), "router-toolkit-test-"));
+	const uploadHandler = tempFileUploadHandler({ directory });
+
+	afterAll(() => rm(directory, { recursive: true, force: true }));
+
+	it("should write uploads to the directory", async () => {
+		const file = (await uploadHandler({
+			fieldName: "file",
+			filename: "notes.txt",
+			contentType: "text/plain",
+			stream: streamOf("Hello, ", "world"),
+		})) as TempFile;
+
+		expect(file).toBeInstanceOf(File);
+		expect(file.name).toBe("notes.txt");
+		expect(await file.text()).toBe("Hello, world");
+		expect(file.path.startsWith(directory)).toBe(true);
+	});
+
+	it("should remove partially written files when the stream fails", async () => {
+		const before = await readdir(directory);
+
+		await expect(
+			uploadHandler({
+				fieldName: "file",
+				filename: "broken.txt",
+				contentType: "text/plain",
+				stream: new ReadableStream({
+					pull(controller) {
+						controller.error(new Error("File must be at most 0 bytes"));
+					},
+				}),
+			}),
+		).rejects.toThrow("File must be at most 0 bytes");
+
+		expect(await readdir(directory)).toEqual(before);
+	});
+});
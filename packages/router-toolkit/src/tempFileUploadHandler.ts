@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Upload handler that streams files to a temporary directory
+ *
+ * This module uses Node.js APIs, so it is not exported from the package root. Import it
+ * from server code only:
+ *
+ * ```typescript
+ * import { tempFileUploadHandler } from "@firtoz/router-toolkit/tempFileUploadHandler";
+ * ```
+ */
+
+import { randomUUID } from "node:crypto";
+import { createWriteStream, openAsBlob } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+import type { FileUploadHandler } from "./fileUpload";
+
+/**
+ * A file stored on disk by {@link tempFileUploadHandler}
+ */
+export type TempFile = File & {
+	/**
+	 * Path of the temporary file, to move it elsewhere or remove it once handled
+	 */
+	path: string;
+};
+
+/**
+ * Options for tempFileUploadHandler
+ */
+export type TempFileUploadHandlerOptions = {
+	/**
+	 * Directory to write uploads to (defaults to a `router-toolkit-uploads` directory
+	 * in the OS temporary directory)
+	 */
+	directory?: string;
+};
+
+/**
+ * Creates an upload handler that streams each file to a temporary directory.
+ *
+ * The resolved `File` reads its contents from disk, so large uploads are never held in
+ * memory. Temporary files are not removed automatically: move or delete them using
+ * their `path` once the action is done with them. Requires Node.js 20 or later.
+ *
+ * @param options - Where to store the files
+ * @returns An upload handler that resolves each upload to a {@link TempFile}
+ *
+ * @example
+ * ```typescript
+ * export const action = formAction({
+ *   schema: z.object({ video: z.instanceof(File) }),
+ *   files: { video: { maxSize: 500 * 1024 * 1024, accept: ["video/*"] } },
+ *   uploadHandler: tempFileUploadHandler(),
+ *   handler: async (args, data) => {
+ *     const { path } = data.video as TempFile;
+ *     return success(await transcode(path));
+ *   },
+ * });
+ * ```
+ */
+export const tempFileUploadHandler =
+	({
+		directory = join(tmpdir(), "router-toolkit-uploads"),
+	}: TempFileUploadHandlerOptions = {}): FileUploadHandler =>
+	async ({ filename, contentType, stream }) => {
+		await mkdir(directory, { recursive: true });
+		const path = join(directory, randomUUID());
+
+		const output = createWriteStream(path);
+		try {
+			await stream.pipeTo(Writable.toWeb(output));
+		} catch (error) {
+			// The file can still be open (or not yet created) until the stream has closed
+			await finished(output).catch(() => undefined);
+			await rm(path, { force: true });
+			throw error;
+		}
+
+		const blob = await openAsBlob(path, { type: contentType });
+		const file: TempFile = Object.assign(
+			new File([blob], filename, { type: contentType }),
+			{ path },
+		);
+		return file;
+	};
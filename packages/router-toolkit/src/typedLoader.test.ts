@@ -0,0 +1,146 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import {
+	type LoaderFunctionArgs,
+	redirect,
+	type useFetcher,
+} from "react-router";
+import { z } from "zod";
+import type { SearchParamsOf } from "./searchParams";
+import { typedLoader } from "./typedLoader";
+
+const loaderArgs = (
+	url: string,
+	params: LoaderFunctionArgs["params"] = {},
+): LoaderFunctionArgs => ({
+	request: new Request(`http://localhost${url}`),
+	params,
+	context: {},
+	unstable_pattern: "",
+});
+
+const loader = typedLoader({
+	params: z.object({ id: z.number().int() }),
+	search: z.object({
+		include: z.array(z.enum(["comments", "author"])).default([]),
+	}),
+	handler: async (_args, { params, search }) => {
+		if (params.id === 404) {
+			return fail("not-found" as const);
+		}
+		return success({ id: params.id, include: search.include });
+	},
+});
+
+describe("typedLoader", () => {
+	it("should pass validated params and search params to the handler", async () => {
+		const result = await loader(
+			loaderArgs("/posts/1?include=comments&include=author", { id: "1" }),
+		);
+
+		expect(result).toEqual(success({ id: 1, include: ["comments", "author"] }));
+	});
+
+	it("should return params and search validation errors", async () => {
+		const params = await loader(loaderArgs("/posts/abc", { id: "abc" }));
+		expect(params).toEqual(
+			fail({
+				type: "params",
+				error: {
+					errors: [],
+					properties: {
+						id: { errors: ["Invalid input: expected number, received string"] },
+					},
+				},
+			}),
+		);
+
+		const search = await loader(
+			loaderArgs("/posts/1?include=likes", { id: "1" }),
+		);
+		expect(search.success).toBe(false);
+		if (!search.success && search.error.type === "search") {
+			expect(search.error.error.properties?.include).toBeDefined();
+		} else {
+			throw new Error("Expected a search error");
+		}
+	});
+
+	it("should validate search schemas with async refinements", async () => {
+		const asyncLoader = typedLoader({
+			search: z.object({
+				q: z.string().refine(async (value) => value !== "taken"),
+			}),
+			handler: async (_args, { search }) => success(search.q),
+		});
+
+		expect(await asyncLoader(loaderArgs("/search?q=free"))).toEqual(
+			success("free"),
+		);
+		expect((await asyncLoader(loaderArgs("/search?q=taken"))).success).toBe(
+			false,
+		);
+	});
+
+	it("should wrap handler errors and unexpected errors", async () => {
+		expect(await loader(loaderArgs("/posts/404", { id: "404" }))).toEqual(
+			fail({ type: "handler", error: "not-found" }),
+		);
+
+		const throwing = typedLoader({
+			handler: async () => {
+				throw new Error("Database is down");
+			},
+		});
+		const originalError = console.error;
+		console.error = () => {};
+		try {
+			expect(await throwing(loaderArgs("/"))).toEqual(
+				fail({ type: "unknown" }),
+			);
+		} finally {
+			console.error = originalError;
+		}
+	});
+
+	it("should re-throw Response objects", async () => {
+		const redirecting = typedLoader({
+			handler: async () => {
+				throw redirect("/login");
+			},
+		});
+
+		await expect(redirecting(loaderArgs("/"))).rejects.toBeInstanceOf(Response);
+	});
+
+	it("should pass the raw params without a params schema", async () => {
+		const raw = typedLoader({
+			handler: async (_args, { params, search }) => {
+				expectTypeOf(search).toEqualTypeOf<undefined>();
+				return success(params);
+			},
+		});
+
+		expect(await raw(loaderArgs("/posts/1", { id: "1" }))).toEqual(
+			success({ id: "1" }),
+		);
+	});
+
+	it("should type the data and search params of fetchers", () => {
+		type Data = NonNullable<
+			ReturnType<typeof useFetcher<typeof loader>>["data"]
+		>;
+
+		expectTypeOf<Extract<Data, { success: true }>["result"]>().toEqualTypeOf<{
+			id: number;
+			include: ("comments" | "author")[];
+		}>();
+		expectTypeOf<
+			Extract<Data, { success: false }>["error"]["type"]
+		>().toEqualTypeOf<"params" | "search" | "handler" | "unknown">();
+
+		expectTypeOf<SearchParamsOf<{ loader: typeof loader }>>().toEqualTypeOf<{
+			include?: ("comments" | "author")[] | undefined;
+		}>();
+	});
+});
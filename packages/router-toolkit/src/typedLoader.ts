@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Type-safe loader utility for React Router 7
+ *
+ * The loader counterpart of formAction: route params and search params are validated
+ * against Zod schemas before the handler runs, and every outcome is a MaybeError, so
+ * fetchers and useCachedFetch get a typed union of the loader's result and errors.
+ *
+ * @example
+ * ```typescript
+ * export const loader = typedLoader({
+ *   params: z.object({ id: z.number().int() }),
+ *   search: z.object({ include: z.array(z.enum(["comments"])).default([]) }),
+ *   handler: async (args, { params, search }) => {
+ *     const post = await getPost(params.id, search.include);
+ *     return post ? success(post) : fail("not-found" as const);
+ *   },
+ * });
+ * ```
+ */
+
+import { fail, type MaybeError } from "@firtoz/maybe-error";
+import type { LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { parseSearchAsync, readSearch } from "./searchParams";
+
+type ValidationTree<TSchema extends z.ZodTypeAny> = ReturnType<
+	typeof z.treeifyError<z.infer<TSchema>>
+>;
+
+/**
+ * Error types that can be returned by typedLoader
+ *
+ * The `"params"` and `"search"` variants are only present when the loader has the
+ * corresponding schema.
+ */
+export type LoaderError<
+	TError,
+	TParamsSchema extends z.ZodObject | undefined = undefined,
+	TSearchSchema extends z.ZodObject | undefined = undefined,
+> =
+	| (TParamsSchema extends z.ZodObject
+			? { type: "params"; error: ValidationTree<TParamsSchema> }
+			: never)
+	| (TSearchSchema extends z.ZodObject
+			? { type: "search"; error: ValidationTree<TSearchSchema> }
+			: never)
+	| {
+			type: "handler";
+			error: TError;
+	  }
+	| {
+			type: "unknown";
+	  };
+
+/**
+ * The validated input passed to a typedLoader handler: the parsed params and search
+ * params, or the raw route params and no search params without schemas
+ */
+export type TypedLoaderInput<
+	TParamsSchema extends z.ZodObject | undefined,
+	TSearchSchema extends z.ZodObject | undefined,
+	LoaderArgs extends LoaderFunctionArgs = LoaderFunctionArgs,
+> = {
+	params: TParamsSchema extends z.ZodObject
+		? z.output<TParamsSchema>
+		: LoaderArgs["params"];
+	search: TSearchSchema extends z.ZodObject
+		? z.output<TSearchSchema>
+		: undefined;
+};
+
+/**
+ * Configuration object for typedLoader
+ *
+ * @template TParamsSchema - The Zod schema of the route params
+ * @template TSearchSchema - The Zod schema of the search params
+ * @template TResult - The success result type from the handler
+ * @template TError - The error type that the handler can return
+ * @template LoaderArgs - The loader function arguments type (defaults to LoaderFunctionArgs)
+ */
+export interface TypedLoaderConfig<
+	TParamsSchema extends z.ZodObject | undefined = undefined,
+	TSearchSchema extends z.ZodObject | undefined = undefined,
+	TResult = undefined,
+	TError = string,
+	LoaderArgs extends LoaderFunctionArgs = LoaderFunctionArgs,
+> {
+	/**
+	 * Zod schema to validate the route params against. Params are read like search
+	 * params, so `z.number()`, `z.boolean()` and `z.date()` fields work without coercion.
+	 */
+	params?: TParamsSchema;
+	/**
+	 * Zod schema to validate the search params against, read with {@link parseSearchAsync}
+	 */
+	search?: TSearchSchema;
+	/**
+	 * Handler function that loads the data
+	 *
+	 * @param args - The original loader function arguments
+	 * @param input - The validated params and search params
+	 * @returns A promise that resolves to a MaybeError with the result or error
+	 */
+	handler: (
+		args: LoaderArgs,
+		input: TypedLoaderInput<TParamsSchema, TSearchSchema, LoaderArgs>,
+	) => Promise<MaybeError<TResult, TError>>;
+}
+
+/**
+ * A loader function created by {@link typedLoader}.
+ *
+ * The schemas and handler are exposed as properties. `searchSchema` types the search
+ * params that useDynamicFetcher and useCachedFetch send to the loader.
+ */
+export type TypedLoader<
+	TParamsSchema extends z.ZodObject | undefined = undefined,
+	TSearchSchema extends z.ZodObject | undefined = undefined,
+	TResult = undefined,
+	TError = string,
+	LoaderArgs extends LoaderFunctionArgs = LoaderFunctionArgs,
+> = ((
+	args: LoaderArgs,
+) => Promise<
+	MaybeError<TResult, LoaderError<TError, TParamsSchema, TSearchSchema>>
+>) & {
+	paramsSchema: TParamsSchema;
+	searchSchema: TSearchSchema;
+	handler: TypedLoaderConfig<
+		TParamsSchema,
+		TSearchSchema,
+		TResult,
+		TError,
+		LoaderArgs
+	>["handler"];
+};
+
+/**
+ * Creates a type-safe loader that validates route params and search params.
+ *
+ * The loader returns a MaybeError: the handler's result, or one of the errors in
+ * {@link LoaderError}. Thrown `Response` objects, such as redirects, are re-thrown so React
+ * Router handles them as usual, and other thrown errors become an `"unknown"` error.
+ *
+ * @template TParamsSchema - The Zod schema of the route params
+ * @template TSearchSchema - The Zod schema of the search params
+ * @template TResult - The success result type from the handler
+ * @template TError - The error type that the handler can return
+ * @template LoaderArgs - The loader function arguments type (defaults to LoaderFunctionArgs)
+ *
+ * @param config - The schemas and handler
+ * @returns A loader function
+ *
+ * @example
+ * ```tsx
+ * // In a component, handle the different error types:
+ * const fetcher = useDynamicFetcher<typeof import("./posts.$id")>("/posts/:id", { id });
+ *
+ * if (fetcher.data && !fetcher.data.success) {
+ *   switch (fetcher.data.error.type) {
+ *     case "params":
+ *     case "search":
+ *       // fetcher.data.error.error is the validation error tree
+ *       break;
+ *     case "handler":
+ *       // fetcher.data.error.error is "not-found"
+ *       break;
+ *     case "unknown":
+ *       break;
+ *   }
+ * }
+ * ```
+ */
+export const typedLoader = <
+	TParamsSchema extends z.ZodObject | undefined = undefined,
+	TSearchSchema extends z.ZodObject | undefined = undefined,
+	TResult = undefined,
+	TError = string,
+	LoaderArgs extends LoaderFunctionArgs = LoaderFunctionArgs,
+>({
+	params: paramsSchema,
+	search: searchSchema,
+	handler,
+}: TypedLoaderConfig<
+	TParamsSchema,
+	TSearchSchema,
+	TResult,
+	TError,
+	LoaderArgs
+>): TypedLoader<TParamsSchema, TSearchSchema, TResult, TError, LoaderArgs> => {
+	type Result = MaybeError<
+		TResult,
+		LoaderError<TError, TParamsSchema, TSearchSchema>
+	>;
+
+	const loader = async (args: LoaderArgs): Promise<Result> => {
+		try {
+			let params: unknown = args.params;
+			if (paramsSchema) {
+				const values = new URLSearchParams();
+				for (const [key, value] of Object.entries(args.params)) {
+					if (value !== undefined) {
+						values.set(key, value);
+					}
+				}
+
+				const parsed = paramsSchema.safeParse(readSearch(values, paramsSchema));
+				if (!parsed.success) {
+					return fail({
+						type: "params" as const,
+						error: z.treeifyError(parsed.error),
+					}) as Result;
+				}
+				params = parsed.data;
+			}
+
+			let search: unknown;
+			if (searchSchema) {
+				const parsed = await parseSearchAsync(args.request, searchSchema);
+				if (!parsed.success) {
+					return fail({
+						type: "search" as const,
+						error: parsed.error.error,
+					}) as Result;
+				}
+				search = parsed.result;
+			}
+
+			const handlerResult = await handler(args, {
+				params,
+				search,
+			} as TypedLoaderInput<TParamsSchema, TSearchSchema, LoaderArgs>);
+			if (!handlerResult.success) {
+				return fail({
+					type: "handler" as const,
+					error: handlerResult.error,
+				});
+			}
+
+			return handlerResult;
+		} catch (error) {
+			// Re-throw Response objects (redirects, etc.) to preserve React Router behavior
+			if (error instanceof Response) {
+				throw error;
+			}
+
+			console.error("Unexpected error in typedLoader:", error);
+			return fail({
+				type: "unknown" as const,
+			});
+		}
+	};
+
+	return Object.assign(loader, {
+		paramsSchema: paramsSchema as TParamsSchema,
+		searchSchema: searchSchema as TSearchSchema,
+		handler,
+	});
+};
@@ -0,0 +1,53 @@
+import type { Func } from "./Func";
+import type { RegisterPages } from "./RegisterPages";
+import type { RouteWithLoaderModule } from "./RouteWithLoaderModule";
+
+/**
+ * Route modules by route path, registered with declaration merging. The interface is
+ * augmented by the file that `routeModuleRegistry` generates from `routes.ts`, so hooks
+ * can infer a route's module from its path alone.
+ *
+ * @example
+ * ```typescript
+ * declare module "@firtoz/router-toolkit" {
+ *   interface RegisterRouteModules {
+ *     "/todos/:id": typeof import("./routes/todos.$id");
+ *   }
+ * }
+ * ```
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: Augmented by the generated registry
+export interface RegisterRouteModules {}
+
+/**
+ * The registered route paths, or those whose module has the given function export
+ */
+export type RegisteredRoute<TExport extends string = never> = {
+	[TRoute in keyof RegisterRouteModules]: RegisterRouteModules[TRoute] extends Record<
+		TExport,
+		Func
+	>
+		? TRoute
+		: never;
+}[keyof RegisterRouteModules] &
+	keyof RegisterPages;
+
+/**
+ * The registered module of a route path, with its path as the `route` export
+ */
+export type RegisteredRouteModule<TRoute extends RegisteredRoute> =
+	RegisterRouteModules[TRoute] & { route: TRoute };
+
+/**
+ * The registered module of a route path with a loader, typed for the fetcher hooks
+ */
+export type RegisteredLoaderModule<TRoute extends RegisteredRoute<"loader">> =
+	Extract<RegisteredRouteModule<TRoute>, RouteWithLoaderModule>;
+
+/**
+ * A route module type narrowed to the route paths without a registered module. Hooks
+ * default to it when the route module is not given, so the paths of registered routes are
+ * always checked against their module.
+ */
+export type Unregistered<TModule extends { route: keyof RegisterPages }> =
+	TModule & { route: Exclude<keyof RegisterPages, RegisteredRoute> };
@@ -0,0 +1,13 @@
+import type { HrefArgs } from "./HrefArgs";
+import type { RegisterPages } from "./RegisterPages";
+
+/**
+ * Route params as an option: omitted for routes without params, optional when all are
+ * optional
+ */
+export type RouteParamsOption<TRoute extends keyof RegisterPages> =
+	HrefArgs<TRoute> extends []
+		? { params?: undefined }
+		: [] extends HrefArgs<TRoute>
+			? { params?: HrefArgs<TRoute>[0] }
+			: { params: HrefArgs<TRoute>[0] };
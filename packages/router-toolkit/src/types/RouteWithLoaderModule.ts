@@ -1,7 +1,9 @@
+import type { z } from "zod";
 import type { Func } from "./Func";
 import type { RegisterPages } from "./RegisterPages";
 
 export type RouteWithLoaderModule = {
 	route: keyof RegisterPages;
 	loader: Func;
+	searchSchema?: z.ZodObject;
 };
@@ -2,5 +2,7 @@ export * from "@firtoz/maybe-error";
 export * from "./Func";
 export * from "./HrefArgs";
 export * from "./RegisterPages";
+export * from "./RouteModules";
+export * from "./RouteParamsOption";
 export * from "./RoutePath";
 export * from "./RouteWithLoaderModule";
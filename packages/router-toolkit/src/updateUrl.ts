@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Changes to the URLs created by href
+ */
+
+// Base used to parse the relative URLs created by href
+const urlBase = "http://localhost";
+
+/**
+ * Changes a URL, such as one created by href, keeping relative URLs relative.
+ *
+ * @param url - The relative or absolute URL
+ * @param update - Changes the parsed URL
+ * @returns The changed URL, relative if `url` was
+ */
+export const updateUrl = (url: string, update: (parsed: URL) => void) => {
+	const parsed = new URL(url, urlBase);
+	update(parsed);
+
+	return parsed.origin === urlBase
+		? `${parsed.pathname}${parsed.search}${parsed.hash}`
+		: parsed.href;
+};
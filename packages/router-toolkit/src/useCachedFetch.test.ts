@@ -4,11 +4,7 @@ import * as ReactRouter from "react-router";
 
 // Mock fetch
 const mockFetch = mock((url: string) =>
-	Promise.resolve({
-		ok: true,
-		status: 200,
-		json: () => Promise.resolve({ data: "test-data", url }),
-	}),
+	Promise.resolve(Response.json({ data: "test-data", url })),
 );
 
 // Store original fetch
@@ -42,9 +38,40 @@ type TestRoutePath =
 	| "/api/string-error"
 	| "/api/test1"
 	| "/api/test2"
-	| "/api/same";
-
+	| "/api/same"
+	| "/api/users";
+
+import { fail, success } from "@firtoz/maybe-error";
+import {
+	act,
+	cleanup,
+	render,
+	type RenderHookOptions,
+} from "@testing-library/react";
+import { createElement, type ReactNode, Suspense } from "react";
+import { z } from "zod";
+import {
+	createFetchCache,
+	FetchCacheContext,
+	useHydrateFetchCache,
+} from "./fetchCache";
+import { FetchCacheProvider, FetchCacheScript } from "./FetchCacheProvider";
+import type { RouteLoaderBuild } from "./routeLoaderFetch";
 import { useCachedFetch } from "./useCachedFetch";
+import { useInvalidateOnSuccess } from "./useInvalidateOnSuccess";
+
+type UsersModule = {
+	route: TestRoutePath;
+	loader: () => Promise<{ url: string; version: number }>;
+};
+
+// Renders hooks with a fresh cache
+const withCache = <TProps>(
+	cache = createFetchCache(),
+): RenderHookOptions<TProps> => ({
+	wrapper: ({ children }: { children: ReactNode }) =>
+		createElement(FetchCacheContext.Provider, { value: cache }, children),
+});
 
 describe("useCachedFetch", () => {
 	beforeEach(() => {
@@ -57,11 +84,7 @@ describe("useCachedFetch", () => {
 
 		// Reset fetch mock implementation
 		mockFetch.mockImplementation((url: string) =>
-			Promise.resolve({
-				ok: true,
-				status: 200,
-				json: () => Promise.resolve({ data: "test-data", url }),
-			} as Response),
+			Promise.resolve(Response.json({ data: "test-data", url })),
 		);
 
 		// Clear the fetch cache by accessing the module's internal cache
@@ -100,10 +123,12 @@ describe("useCachedFetch", () => {
 		expect(result.current.data).toBeDefined();
 		expect(result.current.data).toMatchObject({
 			data: "test-data",
-			url: "/api/test",
+			url: "/api/test.data",
 		});
 		expect(result.current.error).toBeUndefined();
-		expect(mockFetch).toHaveBeenCalledWith("/api/test");
+		expect(mockFetch).toHaveBeenCalledWith("/api/test.data", {
+			signal: expect.any(AbortSignal),
+		});
 		expect(mockFetch).toHaveBeenCalledTimes(1);
 	});
 
@@ -118,7 +143,9 @@ describe("useCachedFetch", () => {
 			expect(result.current.isLoading).toBe(false);
 		});
 
-		expect(mockFetch).toHaveBeenCalledWith("/api/test?id=123");
+		expect(mockFetch).toHaveBeenCalledWith("/api/test.data?id=123", {
+			signal: expect.any(AbortSignal),
+		});
 	});
 
 	it("should cache fetched data and not refetch on remount", async () => {
@@ -158,10 +185,7 @@ describe("useCachedFetch", () => {
 	it("should handle fetch errors", async () => {
 		// Mock fetch to fail
 		mockFetch.mockImplementation(() =>
-			Promise.resolve({
-				ok: false,
-				status: 404,
-			} as Response),
+			Promise.resolve(new Response(null, { status: 404 })),
 		);
 		const { result } = renderHook(() =>
 			useCachedFetch("/api/error" as TestRoutePath),
@@ -223,7 +247,9 @@ describe("useCachedFetch", () => {
 			expect(result.current.isLoading).toBe(false);
 		});
 
-		expect(mockFetch).toHaveBeenCalledWith("/api/test1");
+		expect(mockFetch).toHaveBeenCalledWith("/api/test1.data", {
+			signal: expect.any(AbortSignal),
+		});
 		expect(mockFetch).toHaveBeenCalledTimes(1);
 
 		// Change URL
@@ -234,7 +260,9 @@ describe("useCachedFetch", () => {
 			expect(result.current.isLoading).toBe(false);
 		});
 
-		expect(mockFetch).toHaveBeenCalledWith("/api/test2");
+		expect(mockFetch).toHaveBeenCalledWith("/api/test2.data", {
+			signal: expect.any(AbortSignal),
+		});
 		expect(mockFetch).toHaveBeenCalledTimes(1);
 	});
 
@@ -260,4 +288,430 @@ describe("useCachedFetch", () => {
 		// Should not refetch due to cache
 		expect(mockFetch).toHaveBeenCalledTimes(0);
 	});
+
+	describe("caching", () => {
+		let version = 0;
+
+		beforeEach(() => {
+			version = 0;
+			mockFetch.mockImplementation((url: string) => {
+				version++;
+				return Promise.resolve(Response.json({ url, version }));
+			});
+		});
+
+		// Unmount hooks that would otherwise refetch on focus in later tests
+		afterEach(() => {
+			cleanup();
+		});
+
+		it("should accept params and cache options as an object", async () => {
+			const { result } = renderHook(
+				() =>
+					useCachedFetch<UsersModule>({
+						path: "/api/users",
+						params: { id: "1" },
+						staleTime: 1000,
+					}),
+				withCache(),
+			);
+
+			await waitFor(() => {
+				expect(result.current.data).toEqual({
+					url: "/api/users.data?id=1",
+					version: 1,
+				});
+			});
+		});
+
+		it("should add typed search params to the URL", async () => {
+			const searchSchema = z.object({
+				page: z.number(),
+				tags: z.array(z.string()).default([]),
+			});
+
+			const { result } = renderHook(
+				() =>
+					useCachedFetch<UsersModule & { searchSchema: typeof searchSchema }>({
+						path: "/api/users",
+						search: { page: 2, tags: ["a", "b"] },
+					}),
+				withCache(),
+			);
+
+			await waitFor(() => {
+				expect(result.current.data).toEqual({
+					url: "/api/users.data?page=2&tags=a&tags=b",
+					version: 1,
+				});
+			});
+		});
+
+		it("should return stale data while refetching it in the background", async () => {
+			const options = withCache();
+
+			const first = renderHook(
+				() => useCachedFetch<UsersModule>({ path: "/api/users", staleTime: 0 }),
+				options,
+			);
+			await waitFor(() => {
+				expect(first.result.current.data?.version).toBe(1);
+			});
+			first.unmount();
+
+			await new Promise((resolve) => setTimeout(resolve, 5));
+
+			const { result } = renderHook(
+				() => useCachedFetch<UsersModule>({ path: "/api/users", staleTime: 0 }),
+				options,
+			);
+
+			expect(result.current.data?.version).toBe(1);
+			expect(result.current.isFetching).toBe(true);
+			expect(result.current.isLoading).toBe(false);
+
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(2);
+			});
+		});
+
+		it("should refetch stale data on focus and reconnect", async () => {
+			const { result } = renderHook(
+				() => useCachedFetch<UsersModule>({ path: "/api/users", staleTime: 0 }),
+				withCache(),
+			);
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(1);
+			});
+
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			act(() => {
+				window.dispatchEvent(new window.Event("focus"));
+			});
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(2);
+			});
+
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			act(() => {
+				window.dispatchEvent(new window.Event("online"));
+			});
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(3);
+			});
+		});
+
+		it("should not refetch fresh data on focus", async () => {
+			const { result } = renderHook(
+				() => useCachedFetch<UsersModule>({ path: "/api/users" }),
+				withCache(),
+			);
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(1);
+			});
+
+			act(() => {
+				window.dispatchEvent(new window.Event("focus"));
+			});
+
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
+		it("should refetch on demand", async () => {
+			const { result } = renderHook(
+				() => useCachedFetch<UsersModule>("/api/users"),
+				withCache(),
+			);
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(1);
+			});
+
+			await act(() => result.current.refetch());
+
+			expect(result.current.data?.version).toBe(2);
+		});
+
+		it("should refetch invalidated data after a successful submission", async () => {
+			const submitter = {
+				state: "idle" as "idle" | "submitting",
+				data: undefined as unknown,
+			};
+
+			const { result, rerender } = renderHook(() => {
+				useInvalidateOnSuccess(submitter, (cache) =>
+					cache.invalidatePrefix("/api"),
+				);
+				return useCachedFetch<UsersModule>("/api/users");
+			}, withCache());
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(1);
+			});
+
+			// A failed submission does not invalidate
+			submitter.state = "submitting";
+			rerender();
+			submitter.state = "idle";
+			submitter.data = fail("Nope");
+			rerender();
+
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+
+			submitter.state = "submitting";
+			rerender();
+			submitter.state = "idle";
+			submitter.data = success();
+			rerender();
+
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(2);
+			});
+		});
+
+		it("should only call the loader of the matched route in a data router", async () => {
+			const cache = createFetchCache();
+			const router = {
+				routes: [
+					{
+						id: "root",
+						path: "/",
+						children: [{ id: "routes/users", path: "api/users" }],
+					},
+				],
+			};
+
+			const { result } = renderHook(
+				() => useCachedFetch<UsersModule>("/api/users"),
+				{
+					wrapper: ({ children }: { children: ReactNode }) =>
+						createElement(
+							ReactRouter.UNSAFE_DataRouterContext.Provider,
+							{ value: { router } as never },
+							createElement(
+								FetchCacheContext.Provider,
+								{ value: cache },
+								children,
+							),
+						),
+				},
+			);
+
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(1);
+			});
+			expect(mockFetch).toHaveBeenCalledWith(
+				"/api/users.data?_routes=routes%2Fusers",
+				expect.anything(),
+			);
+
+			// Refetches after an invalidation target the same route
+			act(() => cache.invalidate("/api/users"));
+			await waitFor(() => {
+				expect(result.current.data?.version).toBe(2);
+			});
+			expect(mockFetch).toHaveBeenLastCalledWith(
+				"/api/users.data?_routes=routes%2Fusers",
+				expect.anything(),
+			);
+		});
+
+		it("should fetch once for components mounted with the same URL", async () => {
+			const options = withCache();
+
+			const first = renderHook(
+				() => useCachedFetch<UsersModule>("/api/users"),
+				options,
+			);
+			const second = renderHook(
+				() => useCachedFetch<UsersModule>("/api/users"),
+				options,
+			);
+
+			await waitFor(() => {
+				expect(second.result.current.data?.version).toBe(1);
+			});
+			expect(first.result.current.data?.version).toBe(1);
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
+		it("should abort the previous request when the URL changes", async () => {
+			const signals: AbortSignal[] = [];
+			mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+				const signal = init?.signal as AbortSignal;
+				signals.push(signal);
+				// Respond slowly to the first URL, after the newer one
+				return new Promise<Response>((resolve) =>
+					setTimeout(
+						() => resolve(Response.json({ url, version: 0 })),
+						url.endsWith("id=1") ? 30 : 0,
+					),
+				);
+			});
+
+			const { result, rerender } = renderHook(
+				({ id }) =>
+					useCachedFetch<UsersModule>({ path: "/api/users", params: { id } }),
+				{ ...withCache<{ id: string }>(), initialProps: { id: "1" } },
+			);
+
+			rerender({ id: "2" });
+
+			expect(signals[0].aborted).toBe(true);
+			expect(signals[1].aborted).toBe(false);
+
+			await waitFor(() => {
+				expect(result.current.data?.url).toBe("/api/users.data?id=2");
+			});
+			await new Promise((resolve) => setTimeout(resolve, 40));
+
+			expect(result.current.data?.url).toBe("/api/users.data?id=2");
+		});
+	});
+
+	describe("hydration", () => {
+		const state = {
+			"/api/users": {
+				data: { url: "/api/users", version: 7 },
+				updatedAt: Date.now(),
+			},
+		};
+
+		it("should render hydrated data in the first render", () => {
+			const renders: unknown[] = [];
+
+			renderHook(
+				() => {
+					useHydrateFetchCache(state);
+					renders.push(useCachedFetch<UsersModule>("/api/users").data);
+				},
+				{
+					wrapper: ({ children }: { children: ReactNode }) =>
+						createElement(FetchCacheProvider, null, children),
+				},
+			);
+
+			expect(renders[0]).toEqual({ url: "/api/users", version: 7 });
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+
+		it("should use hydrated data on the client without fetching", async () => {
+			const cache = createFetchCache();
+
+			const { result } = renderHook(() => {
+				useHydrateFetchCache(state);
+				return useCachedFetch<UsersModule>("/api/users");
+			}, withCache(cache));
+
+			expect(result.current.data).toEqual({ url: "/api/users", version: 7 });
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			expect(mockFetch).not.toHaveBeenCalled();
+
+			// Newer server data replaces cached data
+			act(() => {
+				cache.hydrate({
+					"/api/users": {
+						data: { url: "/api/users", version: 8 },
+						updatedAt: Date.now() + 1,
+					},
+				});
+			});
+			expect(result.current.data?.version).toBe(8);
+		});
+	});
+
+	describe("server rendering", () => {
+		const usersLoader = mock(({ request }: { request: Request }) => ({
+			url: new URL(request.url).pathname,
+			version: 1,
+		}));
+
+		const build = {
+			routes: {
+				root: { id: "root", path: "", module: {} },
+				"routes/users": {
+					id: "routes/users",
+					parentId: "root",
+					path: "api/users",
+					module: { loader: usersLoader },
+				},
+			},
+		} as unknown as RouteLoaderBuild;
+
+		// The versions rendered by Users
+		const rendered: unknown[] = [];
+
+		const Users = () => {
+			const { data } = useCachedFetch<UsersModule>("/api/users");
+			rendered.push(data?.version);
+			return createElement("p", null, `version ${data?.version}`);
+		};
+
+		afterEach(() => {
+			cleanup();
+			usersLoader.mockClear();
+			rendered.length = 0;
+			document.getElementById("router-toolkit-fetch-cache")?.remove();
+		});
+
+		it("should call the loader of missing data while rendering with the server build", async () => {
+			// Rendering suspends until the loader has returned
+			const view = await act(async () =>
+				render(
+					createElement(FetchCacheProvider, {
+						server: {
+							build,
+							request: new Request("https://example.com/dashboard"),
+						},
+						children: createElement(
+							Suspense,
+							{ fallback: "loading" },
+							createElement(Users),
+							createElement(FetchCacheScript),
+						),
+					}),
+				),
+			);
+
+			expect(view.container.querySelector("p")?.textContent).toBe("version 1");
+			expect(rendered).toEqual([1]);
+			expect(usersLoader).toHaveBeenCalledTimes(1);
+			expect(mockFetch).not.toHaveBeenCalled();
+
+			const script = view.container.querySelector("script");
+			expect(script?.type).toBe("application/json");
+			expect(JSON.parse(script?.textContent ?? "")).toEqual({
+				"/api/users": {
+					data: { url: "/api/users", version: 1 },
+					updatedAt: expect.any(Number),
+				},
+			});
+		});
+
+		it("should add the server-rendered data to the browser cache", () => {
+			const script = document.createElement("script");
+			script.id = "router-toolkit-fetch-cache";
+			script.type = "application/json";
+			script.textContent = JSON.stringify({
+				"/api/users": {
+					data: { url: "/api/users", version: 3 },
+					updatedAt: Date.now(),
+				},
+			});
+			document.body.append(script);
+
+			const view = render(
+				createElement(
+					FetchCacheProvider,
+					null,
+					createElement(Users),
+					createElement(FetchCacheScript),
+				),
+			);
+
+			expect(view.container.querySelector("p")?.textContent).toBe("version 3");
+			expect(view.container.querySelector("script")?.textContent).toBe(
+				script.textContent,
+			);
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+	});
 });
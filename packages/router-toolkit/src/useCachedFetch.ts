@@ -1,76 +1,258 @@
-import { useEffect, useMemo, useState } from "react";
-import { href, type useLoaderData } from "react-router";
+import {
+	use,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useSyncExternalStore,
+} from "react";
+import {
+	href,
+	matchRoutes,
+	UNSAFE_DataRouterContext as DataRouterContext,
+	type useLoaderData,
+} from "react-router";
+import { useFetchCache } from "./fetchCache";
+import { FetchCacheServerRenderContext } from "./fetchCacheServerRender";
+import {
+	type SearchParamsOf,
+	type SearchValues,
+	withSearch,
+} from "./searchParams";
 import type { HrefArgs } from "./types/HrefArgs";
+import type {
+	RegisteredRoute,
+	RegisteredLoaderModule,
+	Unregistered,
+} from "./types/RouteModules";
+import type { RouteParamsOption } from "./types/RouteParamsOption";
 import type { RouteWithLoaderModule } from "./types/RouteWithLoaderModule";
+import { subscribeToFocus, subscribeToReconnect } from "./windowEvents";
 
-// Cache for the useCachedFetch hook (regular fetch, not useFetcher)
-const fetchCache = new Map<string, unknown>();
-
-// Hook that uses regular fetch instead of useFetcher to avoid route invalidation
-export const useCachedFetch = <TInfo extends RouteWithLoaderModule>(
-	path: TInfo["route"],
-	...args: TInfo["route"] extends "undefined"
-		? HrefArgs<"/">
-		: HrefArgs<TInfo["route"]>
-): {
-	data: ReturnType<typeof useLoaderData<TInfo["loader"]>> | undefined;
+type CachedFetchData<TInfo extends RouteWithLoaderModule> = ReturnType<
+	typeof useLoaderData<TInfo["loader"]>
+>;
+
+/**
+ * Cache options for useCachedFetch
+ */
+export type CachedFetchCacheOptions = {
+	/**
+	 * How long fetched data stays fresh, in milliseconds. Stale data is still returned,
+	 * and refetched in the background on mount, focus and reconnect. Defaults to
+	 * `Infinity`, so data is only refetched once invalidated.
+	 */
+	staleTime?: number;
+	/**
+	 * How long data stays cached once no component uses it, in milliseconds
+	 * (defaults to 5 minutes)
+	 */
+	gcTime?: number;
+	/**
+	 * Whether to refetch stale data when the window regains focus (defaults to true)
+	 */
+	refetchOnWindowFocus?: boolean;
+	/**
+	 * Whether to refetch stale data when the browser reconnects (defaults to true)
+	 */
+	refetchOnReconnect?: boolean;
+};
+
+/**
+ * Options for the object form of useCachedFetch
+ *
+ * @template TInfo - The route module type
+ */
+export type CachedFetchOptions<TInfo extends RouteWithLoaderModule> = {
+	path: TInfo["route"];
+	/**
+	 * Search params to add to the URL, typed by the route module's `searchSchema`
+	 */
+	search?: SearchParamsOf<TInfo>;
+} & RouteParamsOption<TInfo["route"]> &
+	CachedFetchCacheOptions;
+
+/**
+ * The value returned by {@link useCachedFetch}
+ */
+export type CachedFetch<TInfo extends RouteWithLoaderModule> = {
+	/**
+	 * The cached data, kept while refetching and after a failed refetch
+	 */
+	data: CachedFetchData<TInfo> | undefined;
+	/**
+	 * Whether the data is being fetched for the first time
+	 */
 	isLoading: boolean;
+	/**
+	 * Whether the data is being fetched, including background refetches
+	 */
+	isFetching: boolean;
 	error: Error | undefined;
-} => {
+	/**
+	 * Fetches the data again, even if it is fresh
+	 */
+	refetch: () => Promise<void>;
+};
+
+type UseCachedFetch = {
+	// Routes in the generated registry, whose module is inferred from the path
+	<TRoute extends RegisteredRoute<"loader">>(
+		options: CachedFetchOptions<RegisteredLoaderModule<TRoute>> & {
+			path: TRoute;
+		},
+	): CachedFetch<RegisteredLoaderModule<TRoute>>;
+	<TRoute extends RegisteredRoute<"loader">>(
+		path: TRoute,
+		...args: HrefArgs<TRoute>
+	): CachedFetch<RegisteredLoaderModule<TRoute>>;
+	// Without a module, only routes outside the registry are accepted
+	<TInfo extends RouteWithLoaderModule = Unregistered<RouteWithLoaderModule>>(
+		options: CachedFetchOptions<TInfo>,
+	): CachedFetch<TInfo>;
+	<TInfo extends RouteWithLoaderModule = Unregistered<RouteWithLoaderModule>>(
+		path: TInfo["route"],
+		...args: TInfo["route"] extends "undefined"
+			? HrefArgs<"/">
+			: HrefArgs<TInfo["route"]>
+	): CachedFetch<TInfo>;
+};
+
+/**
+ * Fetches loader data with regular `fetch` instead of useFetcher, to avoid route
+ * revalidation, and caches it across components.
+ *
+ * Data is requested from the route's single fetch `.data` URL and decoded like React
+ * Router's own fetchers, so `Date`, `Map`, `Set`, `BigInt` and deferred promises returned
+ * by the loader arrive intact.
+ *
+ * Pass the route path and params like `href`, or an options object to add search params
+ * and configure caching. The route module is inferred from the path for routes in the
+ * generated {@link RegisterRouteModules} registry.
+ * Data is shared through the {@link FetchCacheContext} cache and invalidated with
+ * {@link useFetchCache}.
+ *
+ * Fetching happens in effects, which do not run on the server. When
+ * {@link FetchCacheProvider} is given the server build, server renders instead call the
+ * route loader of data missing from the cache and suspend until it is loaded, and
+ * {@link FetchCacheScript} sends the data to the browser. Otherwise, server renders only
+ * have the data already in the cache, and are loading: fetch it in a loader with
+ * {@link routeLoaderFetch} and add it to the cache with {@link useHydrateFetchCache}.
+ *
+ * @example
+ * ```tsx
+ * const { data, isFetching, refetch } = useCachedFetch<typeof import("./user")>({
+ *   path: "/users/:id",
+ *   params: { id },
+ *   staleTime: 60_000,
+ * });
+ * ```
+ */
+export const useCachedFetch: UseCachedFetch = <
+	TInfo extends RouteWithLoaderModule,
+>(
+	pathOrOptions: TInfo["route"] | CachedFetchOptions<TInfo>,
+	...args: unknown[]
+): CachedFetch<TInfo> => {
+	const {
+		staleTime = Number.POSITIVE_INFINITY,
+		gcTime = 5 * 60 * 1000,
+		refetchOnWindowFocus = true,
+		refetchOnReconnect = true,
+	}: CachedFetchCacheOptions = typeof pathOrOptions === "string"
+		? {}
+		: pathOrOptions;
+
 	// Generate URL using href, same as useDynamicFetcher
 	const url = useMemo(() => {
-		// biome-ignore lint/suspicious/noExplicitAny: Intentional
-		return href(path, ...(args as any));
-	}, [path, args]);
-
-	// Use the generated URL as the cache key
-	const cacheKey = url;
-
-	// Local state
-	const [isLoading, setIsLoading] = useState(false);
-	const [error, setError] = useState<Error | undefined>(undefined);
-	const [data, setData] = useState<
-		ReturnType<typeof useLoaderData<TInfo["loader"]>> | undefined
-	>(() =>
-		fetchCache.has(cacheKey)
-			? (fetchCache.get(cacheKey) as ReturnType<
-					typeof useLoaderData<TInfo["loader"]>
-				>)
-			: undefined,
-	);
+		if (typeof pathOrOptions === "string") {
+			// biome-ignore lint/suspicious/noExplicitAny: Intentional
+			return href(pathOrOptions, ...(args as any));
+		}
 
-	// Auto-fetch on mount or when URL changes, if not in cache
-	useEffect(() => {
-		const fetchData = async () => {
-			// Skip fetch if data is already cached
-			if (fetchCache.has(cacheKey)) {
-				return;
-			}
+		const { path, params, search } = pathOrOptions;
+		return withSearch(
+			// biome-ignore lint/suspicious/noExplicitAny: Intentional
+			href(path, ...((params ? [params] : []) as any)),
+			search as SearchValues | undefined,
+		);
+	}, [pathOrOptions, args]);
 
-			setIsLoading(true);
-			setError(undefined);
+	const cache = useFetchCache();
 
-			try {
-				const response = await fetch(url);
+	// The route whose loader to call, when rendered in a data router
+	const routes = useContext(DataRouterContext)?.router.routes;
+	const routeId = useMemo(() => {
+		if (!routes) {
+			return undefined;
+		}
+		const matches = matchRoutes(routes, url);
+		return matches?.[matches.length - 1]?.route.id;
+	}, [routes, url]);
 
-				if (!response.ok) {
-					throw new Error(`HTTP error! Status: ${response.status}`);
-				}
+	const entry = useSyncExternalStore(
+		useCallback(
+			(listener: () => void) => cache.subscribe(url, listener, gcTime),
+			[cache, url, gcTime],
+		),
+		() => cache.get(url),
+		() => cache.get(url),
+	);
 
-				const result = await response.json();
+	// Fetch on mount or when the URL changes, unless the cached data is fresh
+	useEffect(() => {
+		if (cache.isStale(url, staleTime)) {
+			cache.fetch(url, { routeId });
+		}
+	}, [cache, url, routeId, staleTime]);
 
-				// Update cache and state
-				fetchCache.set(cacheKey, result);
-				setData(result as ReturnType<typeof useLoaderData<TInfo["loader"]>>);
-			} catch (err) {
-				setError(err instanceof Error ? err : new Error(String(err)));
-			} finally {
-				setIsLoading(false);
+	useEffect(() => {
+		const refetchIfStale = () => {
+			if (cache.isStale(url, staleTime)) {
+				cache.fetch(url, { routeId });
 			}
 		};
 
-		fetchData();
-	}, [url, cacheKey]);
+		const unsubscribeFromFocus = refetchOnWindowFocus
+			? subscribeToFocus(refetchIfStale)
+			: undefined;
+		const unsubscribeFromReconnect = refetchOnReconnect
+			? subscribeToReconnect(refetchIfStale)
+			: undefined;
+
+		return () => {
+			unsubscribeFromFocus?.();
+			unsubscribeFromReconnect?.();
+		};
+	}, [
+		cache,
+		url,
+		routeId,
+		staleTime,
+		refetchOnWindowFocus,
+		refetchOnReconnect,
+	]);
+
+	const refetch = useCallback(
+		() => cache.fetch(url, { routeId }),
+		[cache, url, routeId],
+	);
+
+	// Server renders of a provider with the server build wait for missing data. A failed
+	// load is rendered as an error, and fetched again in the browser.
+	const serverRender = useContext(FetchCacheServerRenderContext);
+	if (serverRender && !entry?.updatedAt && !entry?.error) {
+		use(cache.fetch(url, { routeId }));
+	}
+
+	const data = entry?.data as CachedFetchData<TInfo> | undefined;
+	const isFetching = entry?.isFetching ?? false;
 
-	return { data, isLoading, error };
+	return {
+		data,
+		isLoading: isFetching && data === undefined,
+		isFetching,
+		error: entry?.error,
+		refetch,
+	};
 };
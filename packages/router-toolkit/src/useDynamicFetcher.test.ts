@@ -1,5 +1,5 @@
-import { beforeEach, describe, expect, it, mock } from "bun:test";
-import { renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { act, cleanup, renderHook } from "@testing-library/react";
 import * as ReactRouter from "react-router";
 
 // Type for test route paths
@@ -34,8 +34,22 @@ mock.module("react-router", () => ({
 }));
 
 // Import after mocking
+import { z } from "zod";
 import { useDynamicFetcher } from "./useDynamicFetcher";
 
+const searchSchema = z.object({
+	page: z.number(),
+	tags: z.array(z.string()).default([]),
+	archived: z.boolean().optional(),
+	since: z.date().optional(),
+});
+
+type SearchModule = {
+	route: TestRoutePath;
+	loader: () => Promise<null>;
+	searchSchema: typeof searchSchema;
+};
+
 describe("useDynamicFetcher", () => {
 	beforeEach(() => {
 		// Clear all mocks before each test
@@ -94,6 +108,23 @@ describe("useDynamicFetcher", () => {
 		expect(mockLoad).toHaveBeenCalledTimes(1);
 	});
 
+	it("should serialize search values typed by the route's search schema", async () => {
+		const { result } = renderHook(() =>
+			useDynamicFetcher<SearchModule>("/test/path"),
+		);
+
+		await result.current.load({
+			page: 2,
+			tags: ["new", "sale"],
+			archived: false,
+			since: new Date(0),
+		});
+
+		expect(mockLoad).toHaveBeenCalledWith(
+			"/test/path?page=2&tags=new&tags=sale&archived=false&since=1970-01-01T00%3A00%3A00.000Z",
+		);
+	});
+
 	it("should call load multiple times with different query params", async () => {
 		const { result } = renderHook(() =>
 			useDynamicFetcher("/test/path" as TestRoutePath),
@@ -144,4 +175,124 @@ describe("useDynamicFetcher", () => {
 		expect(result.current).toHaveProperty("load");
 		expect(typeof result.current.load).toBe("function");
 	});
+
+	describe("refetching", () => {
+		const wait = (ms: number) =>
+			new Promise((resolve) => setTimeout(resolve, ms));
+
+		// Unmount hooks that would otherwise refetch in later tests
+		afterEach(() => {
+			cleanup();
+		});
+
+		it("should accept params as an object", async () => {
+			const { result } = renderHook(() =>
+				useDynamicFetcher({
+					path: "/test/path" as TestRoutePath,
+					params: { id: "1" },
+				}),
+			);
+
+			await result.current.load();
+
+			expect(mockHref).toHaveBeenCalledWith("/test/path", { id: "1" });
+			expect(mockLoad).toHaveBeenCalledWith("/test/path?id=1");
+		});
+
+		it("should poll the last loaded URL while the page is visible", async () => {
+			const { result } = renderHook(() =>
+				useDynamicFetcher({
+					path: "/test/path" as TestRoutePath,
+					refetchInterval: 10,
+				}),
+			);
+
+			// Nothing is polled before the first load
+			await wait(25);
+			expect(mockLoad).not.toHaveBeenCalled();
+
+			await result.current.load({ page: 2 });
+			await wait(35);
+			expect(mockLoad.mock.calls.length).toBeGreaterThan(1);
+			expect(mockLoad).toHaveBeenLastCalledWith("/test/path?page=2");
+
+			// Hide the page until the own property is deleted again
+			Object.defineProperty(document, "visibilityState", {
+				configurable: true,
+				get: () => "hidden",
+			});
+			try {
+				mockLoad.mockClear();
+				await wait(35);
+				expect(mockLoad).not.toHaveBeenCalled();
+			} finally {
+				delete (document as { visibilityState?: unknown }).visibilityState;
+			}
+		});
+
+		it("should refetch on focus and reconnect when enabled", async () => {
+			const { result } = renderHook(() =>
+				useDynamicFetcher({
+					path: "/test/path" as TestRoutePath,
+					refetchOnWindowFocus: true,
+					refetchOnReconnect: true,
+				}),
+			);
+			await result.current.load();
+
+			act(() => {
+				window.dispatchEvent(new window.Event("focus"));
+				window.dispatchEvent(new window.Event("online"));
+			});
+
+			expect(mockLoad).toHaveBeenCalledTimes(3);
+		});
+
+		it("should not refetch on focus by default", async () => {
+			const { result } = renderHook(() =>
+				useDynamicFetcher("/test/path" as TestRoutePath),
+			);
+			await result.current.load();
+
+			act(() => {
+				window.dispatchEvent(new window.Event("focus"));
+			});
+
+			expect(mockLoad).toHaveBeenCalledTimes(1);
+		});
+
+		it("should revalidate after a successful submission of the named submitter", async () => {
+			let submitter = { state: "idle", data: undefined as unknown };
+			mockUseFetcher.mockImplementation(((options: { key: string }) =>
+				options.key === "submitter-/api/test"
+					? submitter
+					: {
+							load: mockLoad,
+							state: "idle",
+							data: null,
+						}) as unknown as typeof mockUseFetcher);
+
+			const { result, rerender } = renderHook(() =>
+				useDynamicFetcher({
+					path: "/test/path" as TestRoutePath,
+					revalidateOn: "/api/test",
+				}),
+			);
+			await result.current.load();
+
+			const submit = (data: unknown) => {
+				submitter = { state: "submitting", data: undefined };
+				rerender();
+				submitter = { state: "idle", data };
+				rerender();
+			};
+
+			submit({ success: false, error: "Invalid" });
+			expect(mockLoad).toHaveBeenCalledTimes(1);
+
+			submit({ success: true, result: undefined });
+			expect(mockLoad).toHaveBeenCalledTimes(2);
+			expect(mockLoad).toHaveBeenLastCalledWith("/test/path");
+		});
+	});
 });
@@ -1,40 +1,222 @@
-import { useCallback, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { href, useFetcher } from "react-router";
+import {
+	type SearchParamsOf,
+	type SearchValues,
+	withSearch,
+} from "./searchParams";
 import type { HrefArgs } from "./types/HrefArgs";
+import type {
+	RegisteredRoute,
+	RegisteredLoaderModule,
+	Unregistered,
+} from "./types/RouteModules";
+import type { RouteParamsOption } from "./types/RouteParamsOption";
 import type { RouteWithLoaderModule } from "./types/RouteWithLoaderModule";
+import { submitterKey } from "./useDynamicSubmitter";
+import { useFetcherStateChanged } from "./useFetcherStateChanged";
+import { subscribeToFocus, subscribeToReconnect } from "./windowEvents";
+
+/**
+ * Refetch options for useDynamicFetcher. Refetches reload the URL of the last `load()`
+ * call, so they start once the data has been loaded and are skipped while it is loading.
+ */
+export type DynamicFetcherRefetchOptions = {
+	/**
+	 * Reloads the data at this interval, in milliseconds, while the page is visible
+	 */
+	refetchInterval?: number;
+	/**
+	 * Whether to reload the data when the window regains focus (defaults to false)
+	 */
+	refetchOnWindowFocus?: boolean;
+	/**
+	 * Whether to reload the data when the browser reconnects (defaults to false)
+	 */
+	refetchOnReconnect?: boolean;
+	/**
+	 * The URL of a {@link useDynamicSubmitter} submitter, as returned by href. The data is
+	 * reloaded whenever a submission to it completes with a MaybeError success, wherever
+	 * the submitter is rendered.
+	 */
+	revalidateOn?: string;
+};
+
+/**
+ * Options for the object form of useDynamicFetcher
+ *
+ * @template TInfo - The route module type
+ */
+export type DynamicFetcherOptions<TInfo extends RouteWithLoaderModule> = {
+	path: TInfo["route"];
+} & RouteParamsOption<TInfo["route"]> &
+	DynamicFetcherRefetchOptions;
+
+/**
+ * The value returned by {@link useDynamicFetcher}
+ */
+export type DynamicFetcher<TInfo extends RouteWithLoaderModule> = Omit<
+	ReturnType<typeof useFetcher<TInfo["loader"]>>,
+	"load" | "submit"
+> & {
+	/**
+	 * Loads the route's data, with search params typed by the route module's
+	 * `searchSchema`
+	 */
+	load: (search?: SearchParamsOf<TInfo>) => Promise<void>;
+};
+
+type UseDynamicFetcher = {
+	// Routes in the generated registry, whose module is inferred from the path
+	<TRoute extends RegisteredRoute<"loader">>(
+		options: DynamicFetcherOptions<RegisteredLoaderModule<TRoute>> & {
+			path: TRoute;
+		},
+	): DynamicFetcher<RegisteredLoaderModule<TRoute>>;
+	<TRoute extends RegisteredRoute<"loader">>(
+		path: TRoute,
+		...args: HrefArgs<TRoute>
+	): DynamicFetcher<RegisteredLoaderModule<TRoute>>;
+	// Without a module, only routes outside the registry are accepted
+	<TInfo extends RouteWithLoaderModule = Unregistered<RouteWithLoaderModule>>(
+		options: DynamicFetcherOptions<TInfo>,
+	): DynamicFetcher<TInfo>;
+	<TInfo extends RouteWithLoaderModule = Unregistered<RouteWithLoaderModule>>(
+		path: TInfo["route"],
+		...args: TInfo["route"] extends "undefined"
+			? HrefArgs<"/">
+			: HrefArgs<TInfo["route"]>
+	): DynamicFetcher<TInfo>;
+};
+
+/**
+ * Loads a route's data with a fetcher, typed by the route module.
+ *
+ * Pass the route path and params like `href`, or an options object to refetch the data
+ * on an interval, on window focus or reconnect, or after a submitter's submissions. The
+ * route module is inferred from the path for routes in the generated
+ * {@link RegisterRouteModules} registry.
+ *
+ * @example
+ * ```tsx
+ * const fetcher = useDynamicFetcher<typeof import("./stats")>({
+ *   path: "/projects/:id/stats",
+ *   params: { id },
+ *   refetchInterval: 10_000,
+ *   refetchOnWindowFocus: true,
+ *   revalidateOn: href("/projects/:id/tasks", { id }),
+ * });
+ *
+ * useEffect(() => {
+ *   fetcher.load();
+ * }, [fetcher.load]);
+ * ```
+ */
+export const useDynamicFetcher: UseDynamicFetcher = <
+	TInfo extends RouteWithLoaderModule,
+>(
+	pathOrOptions: TInfo["route"] | DynamicFetcherOptions<TInfo>,
+	...args: unknown[]
+): DynamicFetcher<TInfo> => {
+	const {
+		refetchInterval,
+		refetchOnWindowFocus = false,
+		refetchOnReconnect = false,
+		revalidateOn,
+	}: DynamicFetcherRefetchOptions = typeof pathOrOptions === "string"
+		? {}
+		: pathOrOptions;
 
-export const useDynamicFetcher = <TInfo extends RouteWithLoaderModule>(
-	path: TInfo["route"],
-	...args: TInfo["route"] extends "undefined"
-		? HrefArgs<"/">
-		: HrefArgs<TInfo["route"]>
-): Omit<ReturnType<typeof useFetcher<TInfo["loader"]>>, "load" | "submit"> & {
-	load: (queryParams?: Record<string, string>) => Promise<void>;
-} => {
 	const url = useMemo(() => {
+		if (typeof pathOrOptions === "string") {
+			// biome-ignore lint/suspicious/noExplicitAny: Intentional
+			return href(pathOrOptions, ...(args as any));
+		}
+
+		const { path, params } = pathOrOptions;
 		// biome-ignore lint/suspicious/noExplicitAny: Intentional
-		return href(path, ...(args as any));
-	}, [path, args]);
+		return href(path, ...((params ? [params] : []) as any));
+	}, [pathOrOptions, args]);
+
+	const fetcherKey = `fetcher-${url}`;
 
 	const fetcher = useFetcher<TInfo["loader"]>({
-		key: `fetcher-${url}`,
+		key: fetcherKey,
 	});
 
+	// The URL of the last load, reloaded by refetches
+	const loadedUrlRef = useRef<string | undefined>(undefined);
+
 	const load = useCallback(
-		(queryParams?: Record<string, string>) => {
-			if (!queryParams || Object.keys(queryParams).length === 0) {
-				return fetcher.load(url);
-			}
+		(search?: SearchParamsOf<TInfo>) => {
+			const loadUrl = withSearch(url, search as SearchValues | undefined);
+			loadedUrlRef.current = loadUrl;
+			return fetcher.load(loadUrl);
+		},
+		[fetcher.load, url],
+	);
+
+	// Keep the latest fetcher for the refetch triggers without resubscribing
+	const fetcherRef = useRef(fetcher);
+	fetcherRef.current = fetcher;
+
+	const refetch = useCallback(() => {
+		const { current: loadedUrl } = loadedUrlRef;
+		if (loadedUrl && fetcherRef.current.state === "idle") {
+			fetcherRef.current.load(loadedUrl);
+		}
+	}, []);
+
+	useEffect(() => {
+		if (!refetchInterval) {
+			return;
+		}
 
-			// Build URL with query parameters
-			const urlObj = new URL(url, window.location.origin);
-			for (const [key, value] of Object.entries(queryParams)) {
-				urlObj.searchParams.set(key, value);
+		const interval = setInterval(() => {
+			if (document.visibilityState !== "hidden") {
+				refetch();
 			}
+		}, refetchInterval);
+		return () => {
+			clearInterval(interval);
+		};
+	}, [refetch, refetchInterval]);
 
-			return fetcher.load(urlObj.pathname + urlObj.search);
-		},
-		[fetcher.load, url],
+	useEffect(() => {
+		const unsubscribeFromFocus = refetchOnWindowFocus
+			? subscribeToFocus(refetch)
+			: undefined;
+		const unsubscribeFromReconnect = refetchOnReconnect
+			? subscribeToReconnect(refetch)
+			: undefined;
+
+		return () => {
+			unsubscribeFromFocus?.();
+			unsubscribeFromReconnect?.();
+		};
+	}, [refetch, refetchOnWindowFocus, refetchOnReconnect]);
+
+	// Without a submitter to follow, watch this fetcher instead of registering another one
+	const submitter = useFetcher({
+		key: revalidateOn ? submitterKey(revalidateOn) : fetcherKey,
+	});
+	const { data: submitterData } = submitter;
+
+	useFetcherStateChanged(
+		submitter,
+		useCallback(
+			(lastState, newState) => {
+				if (
+					revalidateOn &&
+					lastState !== "idle" &&
+					newState === "idle" &&
+					(submitterData as { success?: boolean } | undefined)?.success === true
+				) {
+					refetch();
+				}
+			},
+			[revalidateOn, submitterData, refetch],
+		),
 	);
 
 	return {
@@ -1,5 +1,6 @@
-import { beforeEach, describe, expect, it, mock } from "bun:test";
-import { renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, expectTypeOf, it, mock } from "bun:test";
+import { success } from "@firtoz/maybe-error";
+import { act, renderHook } from "@testing-library/react";
 import React from "react";
 import * as ReactRouter from "react-router";
 
@@ -42,7 +43,10 @@ mock.module("react-router", () => ({
 type TestRoutePath = "/test/path" | "/api/submit";
 
 import type { SubmitTarget } from "react-router";
+import { z } from "zod";
 import type { $ZodAnyParams } from "zod/v4/core";
+import { formAction } from "./formAction";
+import { methodAction } from "./methodAction";
 import { useDynamicSubmitter } from "./useDynamicSubmitter";
 
 describe("useDynamicSubmitter", () => {
@@ -221,4 +225,111 @@ describe("useDynamicSubmitter", () => {
 
 		expect(mockSubmit).toHaveBeenCalledTimes(4);
 	});
+
+	it("should narrow the submit target by method for methodAction routes", async () => {
+		const todosAction = methodAction({
+			POST: formAction({
+				schema: z.object({ title: z.string() }),
+				handler: async () => success(),
+			}),
+			DELETE: formAction({
+				schema: z.object({ id: z.number() }),
+				handler: async () => success(),
+			}),
+		});
+
+		type TodosModule = {
+			route: TestRoutePath;
+			action: typeof todosAction;
+		};
+
+		const { result } = renderHook(() =>
+			useDynamicSubmitter<TodosModule>("/api/submit"),
+		);
+
+		expectTypeOf<
+			Parameters<typeof result.current.submit<"POST">>[0]
+		>().toEqualTypeOf<{ title: string } & SubmitTarget>();
+		expectTypeOf<
+			Parameters<typeof result.current.submit<"delete">>[0]
+		>().toEqualTypeOf<{ id: number } & SubmitTarget>();
+
+		await result.current.submit({ title: "test" }, { method: "POST" });
+		await result.current.submit({ id: 1 }, { method: "delete" });
+
+		// @ts-expect-error - PUT is not handled by the action
+		await result.current.submit({ title: "test" }, { method: "PUT" });
+
+		expect(mockSubmit).toHaveBeenCalledTimes(3);
+	});
+
+	it("should type the submit target by formSchema, then by the formAction schema", () => {
+		const formSchema = z.object({ title: z.string() });
+		const action = formAction({
+			schema: z.object({ id: z.number() }),
+			handler: async () => success(),
+		});
+
+		type WithFormSchema = {
+			route: TestRoutePath;
+			action: typeof action;
+			formSchema: typeof formSchema;
+		};
+		type WithoutFormSchema = { route: TestRoutePath; action: typeof action };
+		type PlainAction = {
+			route: TestRoutePath;
+			action: () => Promise<null>;
+		};
+
+		const withFormSchema = renderHook(() =>
+			useDynamicSubmitter<WithFormSchema>("/api/submit"),
+		).result.current;
+		const withoutFormSchema = renderHook(() =>
+			useDynamicSubmitter<WithoutFormSchema>("/api/submit"),
+		).result.current;
+		const plainAction = renderHook(() =>
+			useDynamicSubmitter<PlainAction>("/api/submit"),
+		).result.current;
+
+		expectTypeOf<
+			Parameters<typeof withFormSchema.submit<"POST">>[0]
+		>().toEqualTypeOf<{ title: string } & SubmitTarget>();
+		expectTypeOf<
+			Parameters<typeof withoutFormSchema.submit<"POST">>[0]
+		>().toEqualTypeOf<{ id: number } & SubmitTarget>();
+		expectTypeOf<
+			Parameters<typeof plainAction.submit<"POST">>[0]
+		>().toEqualTypeOf<unknown & SubmitTarget>();
+	});
+
+	it("should expose the target of a submission in flight", async () => {
+		const { result, rerender } = renderHook(() =>
+			useDynamicSubmitter("/test/path" as TestRoutePath),
+		);
+
+		expect(result.current.pendingSubmission).toBeUndefined();
+
+		await act(() =>
+			result.current.submit({ title: "test" }, { method: "POST" }),
+		);
+
+		// Still idle until the fetcher reports the submission
+		expect(result.current.pendingSubmission).toBeUndefined();
+
+		mockUseFetcher.mockImplementation(() => ({
+			submit: mockSubmit,
+			Form: mockForm,
+			state: "submitting",
+			data: null,
+			formData: null,
+			json: null,
+			text: null,
+		}));
+		rerender();
+
+		expect(result.current.pendingSubmission).toEqual({
+			method: "POST",
+			target: { title: "test" },
+		});
+	});
 });
@@ -1,5 +1,5 @@
 // biome-ignore lint/style/useImportType: We need to import React here.
-import React, { useCallback, useMemo } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import {
 	type FetcherFormProps,
 	href,
@@ -8,23 +8,84 @@ import {
 	useFetcher,
 } from "react-router";
 import type { z } from "zod";
+import type { ActionMethod } from "./methodAction";
 import type { Func } from "./types/Func";
 import type { HrefArgs } from "./types/HrefArgs";
 import type { RegisterPages } from "./types/RegisterPages";
+import type {
+	RegisteredRoute,
+	RegisteredRouteModule,
+	Unregistered,
+} from "./types/RouteModules";
 
-type RouteModule = {
+/**
+ * The shape of a route module that can be submitted to
+ */
+export type RouteModule = {
 	route: keyof RegisterPages;
 	action: Func;
-	formSchema: z.ZodType;
+	formSchema?: z.ZodType;
 };
 
-type SubmitFunc<TModule extends RouteModule> = (
-	target: z.infer<TModule["formSchema"]> & SubmitTarget,
+type SubmitMethod = Exclude<SubmitOptions["method"], "GET" | "get" | undefined>;
+
+/**
+ * The methods accepted by a module's action: the registered methods for a methodAction,
+ * any non-GET method otherwise
+ */
+export type SubmitMethodFor<TModule extends RouteModule> =
+	TModule["action"] extends {
+		methods: infer TMethods;
+	}
+		? Extract<keyof TMethods, ActionMethod> extends infer TMethod extends
+				ActionMethod
+			? TMethod | Lowercase<TMethod>
+			: never
+		: SubmitMethod;
+
+/**
+ * The submit target for a method: the input of the method's own schema for a
+ * methodAction, of the module's formSchema or formAction schema otherwise
+ */
+export type SubmitTargetFor<
+	TModule extends RouteModule,
+	TMethod extends SubmitMethod,
+> = TModule["action"] extends { methods: infer TMethods }
+	? Uppercase<TMethod> extends keyof TMethods
+		? TMethods[Uppercase<TMethod>] extends {
+				schema: infer TSchema extends z.ZodType;
+			}
+			? z.infer<TSchema>
+			: never
+		: never
+	: TModule["formSchema"] extends z.ZodType
+		? z.infer<TModule["formSchema"]>
+		: TModule["action"] extends { schema: infer TSchema extends z.ZodType }
+			? z.infer<TSchema>
+			: unknown;
+
+type SubmitFunc<TModule extends RouteModule> = <
+	TMethod extends SubmitMethodFor<TModule>,
+>(
+	target: SubmitTargetFor<TModule, TMethod> & SubmitTarget,
 	options: Omit<SubmitOptions, "action" | "method" | "encType"> & {
-		method: Exclude<SubmitOptions["method"], "GET">;
+		method: TMethod;
 	},
 ) => Promise<void>;
 
+/**
+ * A submission made with `submit`, while it is in flight.
+ *
+ * For methodAction routes this is a union over the registered methods, so the target
+ * can be narrowed by checking `method`.
+ */
+export type PendingSubmission<TModule extends RouteModule> = {
+	[TMethod in SubmitMethodFor<TModule>]: {
+		method: TMethod;
+		target: SubmitTargetFor<TModule, TMethod>;
+	};
+}[SubmitMethodFor<TModule>];
+
 type SubmitForm = (
 	props: Omit<
 		FetcherFormProps & React.RefAttributes<HTMLFormElement>,
@@ -34,30 +95,70 @@ type SubmitForm = (
 	},
 ) => React.ReactElement;
 
-export const useDynamicSubmitter = <TInfo extends RouteModule>(
-	path: TInfo["route"],
-	...args: TInfo["route"] extends "undefined"
-		? HrefArgs<"/">
-		: HrefArgs<TInfo["route"]>
-): Omit<
+/**
+ * The value returned by {@link useDynamicSubmitter}.
+ */
+export type DynamicSubmitter<TInfo extends RouteModule> = Omit<
 	ReturnType<typeof useFetcher<TInfo["action"]>>,
 	"load" | "submit" | "Form"
 > & {
 	submit: SubmitFunc<TInfo>;
 	Form: SubmitForm;
-} => {
+	/**
+	 * The in-flight submission made with `submit`, or undefined when idle or
+	 * when the submission was made with `Form`
+	 */
+	pendingSubmission: PendingSubmission<TInfo> | undefined;
+};
+
+/**
+ * The fetcher key of the submitter for a URL, shared by every component that submits to
+ * it with {@link useDynamicSubmitter}
+ *
+ * @param url - The submitter's URL, as returned by href
+ */
+export const submitterKey = (url: string) => `submitter-${url}`;
+
+type UseDynamicSubmitter = {
+	// Routes in the generated registry, whose module is inferred from the path
+	<TRoute extends RegisteredRoute<"action">>(
+		path: TRoute,
+		...args: HrefArgs<TRoute>
+	): DynamicSubmitter<RegisteredRouteModule<TRoute>>;
+	// Without a module, only routes outside the registry are accepted
+	<TInfo extends RouteModule = Unregistered<RouteModule>>(
+		path: TInfo["route"],
+		...args: TInfo["route"] extends "undefined"
+			? HrefArgs<"/">
+			: HrefArgs<TInfo["route"]>
+	): DynamicSubmitter<TInfo>;
+};
+
+export const useDynamicSubmitter: UseDynamicSubmitter = <
+	TInfo extends RouteModule,
+>(
+	path: TInfo["route"],
+	...args: unknown[]
+): DynamicSubmitter<TInfo> => {
 	const url = useMemo(() => {
 		// biome-ignore lint/suspicious/noExplicitAny: Intentional
 		return href(path, ...(args as any));
 	}, [path, args]);
 
 	const fetcher = useFetcher<TInfo["action"]>({
-		key: `submitter-${url}`,
+		key: submitterKey(url),
 	});
 
+	const [lastSubmission, setLastSubmission] =
+		useState<PendingSubmission<TInfo>>();
+
 	const submit: SubmitFunc<TInfo> = useCallback(
 		(target, options) => {
 			// console.log("Submitting form to", url, target, options);
+			setLastSubmission({
+				method: options.method,
+				target,
+			} as PendingSubmission<TInfo>);
 			return fetcher.submit(target, {
 				...options,
 				action: url,
@@ -71,7 +172,17 @@ export const useDynamicSubmitter = <TInfo extends RouteModule>(
 
 	const Form: SubmitForm = useCallback(
 		(props) => {
-			return <OriginalForm action={url} {...props} />;
+			return (
+				<OriginalForm
+					action={url}
+					{...props}
+					onSubmit={(event) => {
+						// Form submissions replace the pending submit() call
+						setLastSubmission(undefined);
+						props.onSubmit?.(event);
+					}}
+				/>
+			);
 		},
 		[url, OriginalForm],
 	);
@@ -80,5 +191,6 @@ export const useDynamicSubmitter = <TInfo extends RouteModule>(
 		...fetcher,
 		submit,
 		Form,
+		pendingSubmission: fetcher.state === "idle" ? undefined : lastSubmission,
 	};
 };
@@ -0,0 +1,180 @@
+import { describe, expect, expectTypeOf, it, mock } from "bun:test";
+import { fail, type MaybeError, success } from "@firtoz/maybe-error";
+import { renderHook } from "@testing-library/react";
+import { useFetcherLifecycle } from "./useFetcherLifecycle";
+
+type Todo = { id: number; title: string };
+
+type Result = MaybeError<Todo, { type: "handler"; error: "duplicate" }>;
+
+type Submitter = {
+	key?: string;
+	state: "idle" | "loading" | "submitting";
+	data: Result | undefined;
+};
+
+const todo: Todo = { id: 1, title: "Buy milk" };
+
+const renderLifecycle = (
+	fetchers: Submitter | Submitter[],
+	callbacks: Parameters<typeof useFetcherLifecycle<Submitter>>[1],
+) =>
+	renderHook(
+		(props: Submitter | Submitter[]) => useFetcherLifecycle(props, callbacks),
+		{ initialProps: fetchers },
+	);
+
+describe("useFetcherLifecycle", () => {
+	it("should call onStart, onSuccess and onSettled for a successful submission", () => {
+		const onStart = mock();
+		const onSuccess = mock((result: Todo) => {
+			expectTypeOf(result).toEqualTypeOf<Todo>();
+		});
+		const onError = mock();
+		const onSettled = mock();
+
+		const { rerender } = renderLifecycle(
+			{ state: "idle", data: undefined },
+			{ onStart, onSuccess, onError, onSettled },
+		);
+		expect(onStart).not.toHaveBeenCalled();
+
+		const submitting: Submitter = { state: "submitting", data: undefined };
+		rerender(submitting);
+		expect(onStart).toHaveBeenCalledWith({
+			type: "submit",
+			fetcher: submitting,
+		});
+
+		rerender({ state: "loading", data: success(todo) });
+		expect(onSuccess).not.toHaveBeenCalled();
+
+		const done: Submitter = { state: "idle", data: success(todo) };
+		rerender(done);
+
+		expect(onStart).toHaveBeenCalledTimes(1);
+		expect(onSuccess).toHaveBeenCalledWith(todo, {
+			type: "submit",
+			fetcher: done,
+		});
+		expect(onError).not.toHaveBeenCalled();
+		expect(onSettled).toHaveBeenCalledWith(success(todo), {
+			type: "submit",
+			fetcher: done,
+		});
+	});
+
+	it("should call onError with the MaybeError failure", () => {
+		const onSuccess = mock();
+		const onError = mock(
+			(error: { type: "handler"; error: "duplicate" }) => error,
+		);
+
+		const { rerender } = renderLifecycle(
+			{ state: "idle", data: undefined },
+			{
+				onSuccess,
+				onError: (error, event) => {
+					expectTypeOf(error).toEqualTypeOf<{
+						type: "handler";
+						error: "duplicate";
+					}>();
+					onError(error);
+					expect(event.type).toBe("submit");
+				},
+			},
+		);
+
+		rerender({ state: "submitting", data: undefined });
+		rerender({
+			state: "idle",
+			data: fail({ type: "handler", error: "duplicate" }),
+		});
+
+		expect(onError).toHaveBeenCalledWith({
+			type: "handler",
+			error: "duplicate",
+		});
+		expect(onSuccess).not.toHaveBeenCalled();
+	});
+
+	it("should tell loads from submissions and pass plain data to onSuccess", () => {
+		const onStart = mock();
+		const onSuccess = mock();
+
+		const { rerender } = renderHook(
+			(props: { state: "idle" | "loading"; data: Todo[] | undefined }) =>
+				useFetcherLifecycle(props, {
+					onStart,
+					onSuccess: (todos, event) => {
+						expectTypeOf(todos).toEqualTypeOf<Todo[]>();
+						onSuccess(todos, event.type);
+					},
+				}),
+			{ initialProps: { state: "idle", data: undefined } },
+		);
+
+		rerender({ state: "loading", data: undefined });
+		rerender({ state: "idle", data: [todo] });
+
+		expect(onStart).toHaveBeenCalledWith(
+			expect.objectContaining({ type: "load" }),
+		);
+		expect(onSuccess).toHaveBeenCalledWith([todo], "load");
+	});
+
+	it("should only call onSettled when a request completes without data", () => {
+		const onSuccess = mock();
+		const onSettled = mock();
+
+		const { rerender } = renderLifecycle(
+			{ state: "idle", data: undefined },
+			{ onSuccess, onSettled },
+		);
+
+		rerender({ state: "loading", data: undefined });
+		rerender({ state: "idle", data: undefined });
+
+		expect(onSuccess).not.toHaveBeenCalled();
+		expect(onSettled).toHaveBeenCalledTimes(1);
+	});
+
+	it("should track several fetchers by key", () => {
+		const onStart = mock();
+		const onSuccess = mock();
+
+		const { rerender } = renderLifecycle(
+			[
+				{ key: "a", state: "idle", data: undefined },
+				{ key: "b", state: "idle", data: undefined },
+			],
+			{
+				onStart: (event) => onStart(event.fetcher.key),
+				onSuccess: (result, event) => onSuccess(event.fetcher.key, result),
+			},
+		);
+
+		rerender([
+			{ key: "a", state: "submitting", data: undefined },
+			{ key: "b", state: "submitting", data: undefined },
+		]);
+		expect(onStart.mock.calls).toEqual([["a"], ["b"]]);
+
+		// "a" moves to the end of the list, and is still matched by its key
+		rerender([
+			{ key: "b", state: "submitting", data: undefined },
+			{ key: "a", state: "idle", data: success(todo) },
+		]);
+		expect(onSuccess.mock.calls).toEqual([["a", todo]]);
+
+		rerender([
+			{ key: "b", state: "idle", data: success({ id: 2, title: "Walk dog" }) },
+			{ key: "a", state: "idle", data: success(todo) },
+		]);
+		expect(onSuccess.mock.calls).toEqual([
+			["a", todo],
+			["b", { id: 2, title: "Walk dog" }],
+		]);
+		expect(onStart).toHaveBeenCalledTimes(2);
+	});
+});
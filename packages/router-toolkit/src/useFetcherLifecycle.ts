@@ -0,0 +1,212 @@
+import { useEffect, useRef } from "react";
+import type { useFetcher } from "react-router";
+import { isMaybeError } from "./isMaybeError";
+
+/**
+ * A fetcher, submitter or any object with a fetcher's state and data
+ */
+export type LifecycleFetcher = Pick<
+	ReturnType<typeof useFetcher>,
+	"state" | "data"
+> & {
+	key?: string;
+};
+
+/**
+ * The kind of request a fetcher ran: a `load()` or a `submit()`. A submission stays a
+ * submission while React Router revalidates after it.
+ */
+export type FetcherTransition = "load" | "submit";
+
+/**
+ * The fetcher and request a lifecycle callback was called for
+ */
+export type FetcherLifecycleEvent<TFetcher extends LifecycleFetcher> = {
+	type: FetcherTransition;
+	fetcher: TFetcher;
+};
+
+/**
+ * The successful result of fetcher data: the `result` of a MaybeError success, or the
+ * data itself when it is not a MaybeError
+ */
+export type FetcherLifecycleResult<TData> = TData extends {
+	success: true;
+}
+	? TData extends { result?: infer TResult }
+		? TResult
+		: undefined
+	: TData extends { success: false }
+		? never
+		: TData;
+
+/**
+ * The error of fetcher data, such as a FormActionError: the `error` of a MaybeError
+ * failure
+ */
+export type FetcherLifecycleError<TData> = TData extends {
+	success: false;
+	error: infer TError;
+}
+	? TError
+	: never;
+
+/**
+ * Callbacks for the requests of one or more fetchers
+ *
+ * @template TFetcher - The fetcher type
+ */
+export type FetcherLifecycleCallbacks<TFetcher extends LifecycleFetcher> = {
+	/**
+	 * Called when a fetcher starts a request
+	 */
+	onStart?: (event: FetcherLifecycleEvent<TFetcher>) => void;
+	/**
+	 * Called when a request completes without a MaybeError failure
+	 */
+	onSuccess?: (
+		result: FetcherLifecycleResult<NonNullable<TFetcher["data"]>>,
+		event: FetcherLifecycleEvent<TFetcher>,
+	) => void;
+	/**
+	 * Called when a request completes with a MaybeError failure
+	 */
+	onError?: (
+		error: FetcherLifecycleError<NonNullable<TFetcher["data"]>>,
+		event: FetcherLifecycleEvent<TFetcher>,
+	) => void;
+	/**
+	 * Called when a request completes, after onSuccess or onError, with the fetcher's data
+	 */
+	onSettled?: (
+		data: TFetcher["data"],
+		event: FetcherLifecycleEvent<TFetcher>,
+	) => void;
+};
+
+/**
+ * Calls lifecycle callbacks as fetchers start and complete requests, reading their data
+ * as a MaybeError such as the result of a `formAction`.
+ *
+ * A request starts when a fetcher leaves the idle state and completes when it returns to
+ * it. Submissions are told apart from loads, and include the revalidation that follows
+ * them. Several fetchers can be tracked at once, such as every submitter of a list, and
+ * each event names the fetcher it is for. Fetchers are matched across renders by their
+ * `key`, or by their position when they have none.
+ *
+ * Data that is not a MaybeError, such as loader data, completes with onSuccess. Errors
+ * thrown by loaders and actions go to the route's error boundary, so only onSettled is
+ * called when a request completes without data.
+ *
+ * @example
+ * ```tsx
+ * const submitter = useDynamicSubmitter<typeof import("./todos")>("/todos");
+ *
+ * useFetcherLifecycle(submitter, {
+ *   onStart: () => toast.loading("Saving..."),
+ *   onSuccess: (todo) => toast.success(`Saved ${todo.title}`),
+ *   onError: (error) => {
+ *     if (error.type === "validation") {
+ *       toast.error("Please check the form");
+ *     }
+ *   },
+ * });
+ * ```
+ *
+ * @param fetchers - The fetcher or fetchers to track
+ * @param callbacks - The lifecycle callbacks, which can be inline functions
+ */
+export const useFetcherLifecycle = <TFetcher extends LifecycleFetcher>(
+	fetchers: TFetcher | readonly TFetcher[],
+	callbacks: FetcherLifecycleCallbacks<TFetcher>,
+) => {
+	// Keep the latest callbacks without rerunning the effect
+	const callbacksRef = useRef(callbacks);
+	callbacksRef.current = callbacks;
+
+	// The last state of each fetcher, and the request it is running
+	const trackedRef = useRef(
+		new Map<
+			string | number,
+			{ state: TFetcher["state"]; transition?: FetcherTransition }
+		>(),
+	);
+
+	const list: readonly TFetcher[] = Array.isArray(fetchers)
+		? fetchers
+		: [fetchers as TFetcher];
+
+	useEffect(() => {
+		const tracked = trackedRef.current;
+		const { onStart, onSuccess, onError, onSettled } = callbacksRef.current;
+		const seen = new Set<string | number>();
+
+		list.forEach((fetcher, index) => {
+			const id = fetcher.key ?? index;
+			seen.add(id);
+
+			const last = tracked.get(id);
+			if (!last) {
+				// Requests already running when the fetcher is first seen are tracked too
+				tracked.set(id, {
+					state: fetcher.state,
+					transition:
+						fetcher.state === "idle"
+							? undefined
+							: fetcher.state === "submitting"
+								? "submit"
+								: "load",
+				});
+				return;
+			}
+			if (last.state === fetcher.state) {
+				return;
+			}
+
+			if (last.state === "idle") {
+				last.transition = fetcher.state === "submitting" ? "submit" : "load";
+				onStart?.({ type: last.transition, fetcher });
+			} else if (fetcher.state === "submitting") {
+				last.transition = "submit";
+			}
+			last.state = fetcher.state;
+
+			if (fetcher.state !== "idle") {
+				return;
+			}
+
+			const event = { type: last.transition ?? "load", fetcher };
+			last.transition = undefined;
+
+			const { data } = fetcher;
+			if (isMaybeError(data)) {
+				if (data.success) {
+					onSuccess?.(
+						data.result as FetcherLifecycleResult<
+							NonNullable<TFetcher["data"]>
+						>,
+						event,
+					);
+				} else {
+					onError?.(
+						data.error as FetcherLifecycleError<NonNullable<TFetcher["data"]>>,
+						event,
+					);
+				}
+			} else if (data !== undefined && data !== null) {
+				onSuccess?.(
+					data as FetcherLifecycleResult<NonNullable<TFetcher["data"]>>,
+					event,
+				);
+			}
+			onSettled?.(data, event);
+		});
+
+		// Forget fetchers that are no longer tracked
+		for (const id of tracked.keys()) {
+			if (!seen.has(id)) {
+				tracked.delete(id);
+			}
+		}
+	});
+};
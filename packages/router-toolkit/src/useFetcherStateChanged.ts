@@ -3,6 +3,7 @@ import type { useFetcher } from "react-router";
 
 /**
  * A hook that tracks changes in a fetcher's state and calls a callback when it changes.
+ * To react to the outcome of a load or submission, use {@link useFetcherLifecycle}.
  * @param fetcher The fetcher instance to track
  * @param onChange Callback that receives the previous state and new state when the state changes
  */
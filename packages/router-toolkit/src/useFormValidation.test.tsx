@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import { fail, success } from "@firtoz/maybe-error";
+import { act, fireEvent, render, renderHook } from "@testing-library/react";
+import { z } from "zod";
+import {
+	type FormValidation,
+	type FormValidationOptions,
+	useFormValidation,
+} from "./useFormValidation";
+
+const schema = z.object({
+	email: z.email("Invalid email"),
+	age: z.coerce.number().min(18, "Too young"),
+});
+
+// Read forms with the JSDOM FormData implementation
+const originalFormData = globalThis.FormData;
+beforeAll(() => {
+	globalThis.FormData = window.FormData as unknown as typeof FormData;
+});
+afterAll(() => {
+	globalThis.FormData = originalFormData;
+});
+
+const renderForm = (
+	options: FormValidationOptions,
+	onSubmit = mock(() => {}),
+) => {
+	let validation: FormValidation<typeof schema> | undefined;
+
+	const Form = (props: FormValidationOptions) => {
+		validation = useFormValidation(schema, props);
+		return (
+			<form
+				{...validation.formProps}
+				onSubmit={(event) => {
+					validation?.formProps.onSubmit(event);
+					if (!event.defaultPrevented) {
+						event.preventDefault();
+						onSubmit();
+					}
+				}}
+			>
+				<input name="email" defaultValue="" />
+				<input name="age" defaultValue="" />
+			</form>
+		);
+	};
+
+	const view = render(<Form {...options} />);
+	const form = view.container.querySelector("form") as HTMLFormElement;
+	const input = (name: string) =>
+		form.querySelector(`[name="${name}"]`) as HTMLInputElement;
+
+	return {
+		...view,
+		form,
+		input,
+		onSubmit,
+		rerender: (props: FormValidationOptions) =>
+			view.rerender(<Form {...props} />),
+		get validation() {
+			if (!validation) {
+				throw new Error("Form was not rendered");
+			}
+			return validation;
+		},
+	};
+};
+
+describe("useFormValidation", () => {
+	it("should only show errors after submit in onSubmit mode", () => {
+		const view = renderForm({ mode: "onSubmit" });
+
+		fireEvent.blur(view.input("email"));
+		expect(view.validation.errors).toBeUndefined();
+
+		fireEvent.submit(view.form);
+
+		expect(view.onSubmit).not.toHaveBeenCalled();
+		expect(view.validation.getFieldErrors("email")).toEqual(["Invalid email"]);
+		expect(view.validation.getFieldErrors("age")).toEqual(["Too young"]);
+	});
+
+	it("should show errors for blurred fields in onBlur mode", () => {
+		const view = renderForm({ mode: "onBlur" });
+
+		fireEvent.blur(view.input("email"));
+
+		expect(view.validation.getFieldErrors("email")).toEqual(["Invalid email"]);
+		expect(view.validation.getFieldErrors("age")).toEqual([]);
+
+		// Touched fields are revalidated as the user types
+		fireEvent.change(view.input("email"), {
+			target: { value: "user@example.com" },
+		});
+
+		expect(view.validation.errors).toBeUndefined();
+	});
+
+	it("should validate as the user types in onChange mode", () => {
+		const view = renderForm({ mode: "onChange" });
+
+		fireEvent.change(view.input("age"), { target: { value: "12" } });
+
+		expect(view.validation.errors).toEqual({
+			errors: [],
+			properties: { age: { errors: ["Too young"] } },
+		});
+	});
+
+	it("should allow valid submissions", () => {
+		const view = renderForm({});
+
+		fireEvent.change(view.input("email"), {
+			target: { value: "user@example.com" },
+		});
+		fireEvent.change(view.input("age"), { target: { value: "30" } });
+		fireEvent.submit(view.form);
+
+		expect(view.onSubmit).toHaveBeenCalledTimes(1);
+		expect(view.validation.errors).toBeUndefined();
+	});
+
+	it("should merge server validation errors until the field is edited", () => {
+		const serverResult = fail({
+			type: "validation" as const,
+			error: {
+				errors: ["Try again later"],
+				properties: { email: { errors: ["Email is taken"] } },
+			},
+		});
+
+		const view = renderForm({ mode: "onBlur", serverResult });
+
+		fireEvent.blur(view.input("age"));
+
+		expect(view.validation.errors).toEqual({
+			errors: ["Try again later"],
+			properties: {
+				age: { errors: ["Too young"] },
+				email: { errors: ["Email is taken"] },
+			},
+		});
+
+		fireEvent.change(view.input("email"), {
+			target: { value: "other@example.com" },
+		});
+
+		expect(view.validation.getFieldErrors("email")).toEqual([]);
+
+		// A new server result shows its errors again
+		view.rerender({ mode: "onBlur", serverResult: { ...serverResult } });
+
+		expect(view.validation.getFieldErrors("email")).toEqual(["Email is taken"]);
+	});
+
+	it("should ignore server results that are not validation errors", () => {
+		const view = renderForm({
+			serverResult: fail({ type: "handler" as const, error: "Nope" }),
+		});
+		expect(view.validation.errors).toBeUndefined();
+
+		view.rerender({ serverResult: success() });
+		expect(view.validation.errors).toBeUndefined();
+	});
+
+	it("should validate plain objects and reset", () => {
+		const { result } = renderHook(() => useFormValidation(schema));
+
+		let valid = true;
+		act(() => {
+			valid = result.current.validate({ email: "nope", age: 20 });
+		});
+
+		expect(valid).toBe(false);
+		expect(result.current.getFieldErrors("email")).toEqual(["Invalid email"]);
+
+		act(() => result.current.reset());
+
+		expect(result.current.errors).toBeUndefined();
+	});
+
+	it("should leave schemas with async refinements to the server", () => {
+		const asyncSchema = z.object({
+			email: z.email().refine(async (email) => email !== "taken@example.com"),
+		});
+		const { result } = renderHook(() => useFormValidation(asyncSchema));
+
+		let valid = false;
+		act(() => {
+			valid = result.current.validate({ email: "taken@example.com" });
+		});
+		expect(valid).toBe(true);
+
+		const form = new FormData();
+		form.set("email", "nope");
+		act(() => {
+			valid = result.current.validate(form);
+		});
+		expect(valid).toBe(true);
+		expect(result.current.errors).toBeUndefined();
+	});
+});
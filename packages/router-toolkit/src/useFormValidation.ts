@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Client-side form validation with the route's formAction schema
+ *
+ * Runs the same Zod schema as `formAction` in the browser, so users see field errors
+ * before a round trip. Errors use the same treeified shape as formAction's `"validation"`
+ * errors, and server-returned validation errors are merged in, giving the UI a single
+ * error source.
+ *
+ * @example
+ * ```tsx
+ * import { formSchema } from "./register";
+ *
+ * export default function Register() {
+ *   const submitter = useDynamicSubmitter<typeof import("./register")>("/register");
+ *   const validation = useFormValidation(formSchema, {
+ *     mode: "onBlur",
+ *     serverResult: submitter.data,
+ *   });
+ *
+ *   return (
+ *     <submitter.Form method="post" {...validation.formProps}>
+ *       <input name="email" />
+ *       {validation.getFieldErrors("email").map((error) => <p key={error}>{error}</p>)}
+ *     </submitter.Form>
+ *   );
+ * }
+ * ```
+ */
+
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import { z } from "zod";
+import { zfd } from "zod-form-data";
+import { isFormElement } from "./isFormElement";
+import type { RequestBodyValidationError } from "./parseRequestBody";
+
+/**
+ * Validation errors for a schema, in the same shape as formAction's `"validation"` errors.
+ */
+export type FormValidationErrors<TSchema extends z.ZodTypeAny> =
+	RequestBodyValidationError<TSchema>["error"];
+
+/**
+ * When fields are validated:
+ * - `"onChange"` - as the user types
+ * - `"onBlur"` - when a field loses focus, then as the user types
+ * - `"onSubmit"` - on submit, then as the user types
+ */
+export type FormValidationMode = "onChange" | "onBlur" | "onSubmit";
+
+/**
+ * Options for useFormValidation
+ */
+export type FormValidationOptions = {
+	/**
+	 * When fields are validated (defaults to `"onSubmit"`)
+	 */
+	mode?: FormValidationMode;
+	/**
+	 * The action's result, such as `submitter.data` or `useActionData()`. Its
+	 * `"validation"` errors are merged with the client errors until the field is edited.
+	 */
+	serverResult?: { success: boolean; error?: unknown } | null;
+};
+
+/**
+ * The data that can be validated: a form element, its form data, or a plain object.
+ */
+export type FormValidationTarget<TSchema extends z.ZodTypeAny> =
+	| HTMLFormElement
+	| FormData
+	| URLSearchParams
+	| z.input<TSchema>;
+
+type ErrorTree = {
+	errors: string[];
+	properties?: Record<string, ErrorTree | undefined>;
+	items?: (ErrorTree | undefined)[];
+};
+
+/**
+ * Return value of useFormValidation
+ */
+export type FormValidation<TSchema extends z.ZodTypeAny> = {
+	/**
+	 * The visible client and server errors, or undefined when there are none
+	 */
+	errors: FormValidationErrors<TSchema> | undefined;
+	/**
+	 * The visible error messages for a top-level field
+	 */
+	getFieldErrors: (field: keyof z.input<TSchema> & string) => string[];
+	/**
+	 * Validates the target and shows all of its errors
+	 *
+	 * @returns Whether the target is valid
+	 */
+	validate: (target: FormValidationTarget<TSchema>) => boolean;
+	/**
+	 * Clears all errors, including the server errors of the current result
+	 */
+	reset: () => void;
+	/**
+	 * Event handlers to spread onto the form. `onSubmit` prevents invalid submissions.
+	 */
+	formProps: {
+		onChange: (event: React.FormEvent<HTMLFormElement>) => void;
+		onBlur: (event: React.FocusEvent<HTMLFormElement>) => void;
+		onSubmit: (event: React.FormEvent<HTMLFormElement>) => void;
+	};
+};
+
+const getServerErrors = (
+	serverResult: FormValidationOptions["serverResult"],
+): ErrorTree | undefined => {
+	if (!serverResult || serverResult.success) {
+		return undefined;
+	}
+
+	const error = serverResult.error as
+		| { type?: unknown; error?: ErrorTree }
+		| undefined;
+	return error?.type === "validation" ? error.error : undefined;
+};
+
+// Keeps the root errors (optionally) and the fields that pass the filter
+const filterErrors = (
+	tree: ErrorTree | undefined,
+	includeRoot: boolean,
+	includeField: (field: string) => boolean,
+): ErrorTree | undefined =>
+	tree && {
+		...tree,
+		errors: includeRoot ? tree.errors : [],
+		properties: Object.fromEntries(
+			Object.entries(tree.properties ?? {}).filter(([field]) =>
+				includeField(field),
+			),
+		),
+	};
+
+const mergeErrors = (
+	client: ErrorTree | undefined,
+	server: ErrorTree | undefined,
+): ErrorTree | undefined => {
+	// The same message can come from both sides
+	const errors = Array.from(
+		new Set([...(client?.errors ?? []), ...(server?.errors ?? [])]),
+	);
+	const properties: Record<string, ErrorTree> = {};
+
+	for (const field of new Set([
+		...Object.keys(client?.properties ?? {}),
+		...Object.keys(server?.properties ?? {}),
+	])) {
+		const clientField = client?.properties?.[field];
+		const serverField = server?.properties?.[field];
+
+		properties[field] = {
+			...serverField,
+			...clientField,
+			errors: Array.from(
+				new Set([
+					...(clientField?.errors ?? []),
+					...(serverField?.errors ?? []),
+				]),
+			),
+		};
+	}
+
+	if (Object.keys(properties).length > 0) {
+		return { errors, properties };
+	}
+
+	return errors.length > 0 ? { errors } : undefined;
+};
+
+/**
+ * Validates a form in the browser with the same schema as its formAction.
+ *
+ * Form data is parsed with `zfd.formData`, like `formAction` does for form posts, so
+ * coercion and empty-string handling match the server. Client validation is synchronous,
+ * so schemas with async refinements are not validated in the browser at all: submissions
+ * go through and the server reports their errors.
+ *
+ * Errors for a field are shown once it has been validated (according to `mode`) or the
+ * form has been submitted. Server validation errors for a field are shown until it is edited.
+ *
+ * @template TSchema - The Zod schema type, usually the route module's `formSchema`
+ *
+ * @param schema - The schema to validate against
+ * @param options - Validation mode and the server result to merge errors from
+ * @returns The visible errors, a field error accessor, and handlers for the form
+ */
+export const useFormValidation = <TSchema extends z.ZodTypeAny>(
+	schema: TSchema,
+	{ mode = "onSubmit", serverResult }: FormValidationOptions = {},
+): FormValidation<TSchema> => {
+	const [clientErrors, setClientErrors] = useState<ErrorTree>();
+	const [touched, setTouched] = useState<ReadonlySet<string>>(new Set());
+	const [submitted, setSubmitted] = useState(false);
+	// Server errors dismissed since the current server result was received
+	const [dismissed, setDismissed] = useState<{
+		serverResult: FormValidationOptions["serverResult"];
+		all: boolean;
+		fields: ReadonlySet<string>;
+	}>({ serverResult: undefined, all: false, fields: new Set() });
+
+	const runValidation = useCallback(
+		(target: FormValidationTarget<TSchema>) => {
+			let result: z.ZodSafeParseResult<unknown>;
+			try {
+				result =
+					isFormElement(target) ||
+					target instanceof FormData ||
+					target instanceof URLSearchParams
+						? zfd
+								.formData(schema)
+								.safeParse(
+									isFormElement(target) ? new FormData(target) : target,
+								)
+						: schema.safeParse(target);
+			} catch (error) {
+				// Schemas with async refinements can't be parsed synchronously, so only the
+				// server validates them
+				if (error instanceof z.core.$ZodAsyncError) {
+					setClientErrors(undefined);
+					return true;
+				}
+				throw error;
+			}
+
+			setClientErrors(
+				result.success
+					? undefined
+					: (z.treeifyError(result.error) as ErrorTree),
+			);
+			return result.success;
+		},
+		[schema],
+	);
+
+	const validate = useCallback(
+		(target: FormValidationTarget<TSchema>) => {
+			setSubmitted(true);
+			return runValidation(target);
+		},
+		[runValidation],
+	);
+
+	const reset = useCallback(() => {
+		setClientErrors(undefined);
+		setTouched(new Set());
+		setSubmitted(false);
+		setDismissed({ serverResult, all: true, fields: new Set() });
+	}, [serverResult]);
+
+	const touch = useCallback((field: string) => {
+		setTouched((previous) =>
+			previous.has(field) ? previous : new Set(previous).add(field),
+		);
+	}, []);
+
+	const onChange = useCallback(
+		(event: React.FormEvent<HTMLFormElement>) => {
+			const field = (event.target as { name?: unknown }).name;
+			if (typeof field !== "string" || !field) {
+				return;
+			}
+
+			setDismissed((previous) => {
+				const current =
+					previous.serverResult === serverResult
+						? previous
+						: { serverResult, all: false, fields: new Set<string>() };
+				return current.fields.has(field)
+					? current
+					: { ...current, fields: new Set(current.fields).add(field) };
+			});
+
+			if (mode === "onChange" || submitted || touched.has(field)) {
+				touch(field);
+				runValidation(event.currentTarget);
+			}
+		},
+		[mode, runValidation, serverResult, submitted, touch, touched],
+	);
+
+	const onBlur = useCallback(
+		(event: React.FocusEvent<HTMLFormElement>) => {
+			const field = (event.target as { name?: unknown }).name;
+			if (mode === "onSubmit" || typeof field !== "string" || !field) {
+				return;
+			}
+
+			touch(field);
+			runValidation(event.currentTarget);
+		},
+		[mode, runValidation, touch],
+	);
+
+	const onSubmit = useCallback(
+		(event: React.FormEvent<HTMLFormElement>) => {
+			if (!validate(event.currentTarget)) {
+				event.preventDefault();
+			}
+		},
+		[validate],
+	);
+
+	const errors = useMemo(() => {
+		const current =
+			dismissed.serverResult === serverResult ? dismissed : undefined;
+
+		return mergeErrors(
+			filterErrors(
+				clientErrors,
+				submitted,
+				(field) => submitted || touched.has(field),
+			),
+			current?.all
+				? undefined
+				: filterErrors(
+						getServerErrors(serverResult),
+						true,
+						(field) => !current?.fields.has(field),
+					),
+		) as FormValidationErrors<TSchema> | undefined;
+	}, [clientErrors, dismissed, serverResult, submitted, touched]);
+
+	const getFieldErrors = useCallback(
+		(field: keyof z.input<TSchema> & string) =>
+			(errors as ErrorTree | undefined)?.properties?.[field]?.errors ?? [],
+		[errors],
+	);
+
+	return {
+		errors,
+		getFieldErrors,
+		validate,
+		reset,
+		formProps: { onChange, onBlur, onSubmit },
+	};
+};
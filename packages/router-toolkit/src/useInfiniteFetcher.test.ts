@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { act, cleanup, renderHook } from "@testing-library/react";
+import * as ReactRouter from "react-router";
+
+type Page = { items: number[]; next?: number; previous?: number };
+
+type PostsModule = {
+	route: "/posts";
+	loader: () => Promise<Page>;
+};
+
+// A fetcher whose loads are completed by the test
+let fetcher: { state: string; data: Page | undefined };
+const mockLoad = mock((_url: string) => {
+	fetcher = { ...fetcher, state: "loading" };
+	return Promise.resolve();
+});
+const mockUseFetcher = mock(() => ({ ...fetcher, load: mockLoad }));
+
+const mockHref = mock((path: string) => path);
+
+mock.module("react-router", () => ({
+	...ReactRouter,
+	useFetcher: mockUseFetcher,
+	href: mockHref,
+}));
+
+// Import after mocking
+import { useInfiniteFetcher } from "./useInfiniteFetcher";
+
+const renderPosts = (search?: { tag: string }) =>
+	renderHook(
+		({ tag }: { tag?: string }) =>
+			useInfiniteFetcher<PostsModule>({
+				path: "/posts",
+				search: tag ? { tag } : undefined,
+				initialPageParam: { cursor: 10 },
+				getNextPageParam: (lastPage) =>
+					lastPage.next === undefined ? undefined : { cursor: lastPage.next },
+				getPreviousPageParam: (firstPage) =>
+					firstPage.previous === undefined
+						? null
+						: { cursor: firstPage.previous },
+			}),
+		{ initialProps: { tag: search?.tag } as { tag?: string } },
+	);
+
+describe("useInfiniteFetcher", () => {
+	beforeEach(() => {
+		fetcher = { state: "idle", data: undefined };
+		mockLoad.mockClear();
+		mockUseFetcher.mockClear();
+	});
+
+	afterEach(() => {
+		cleanup();
+	});
+
+	// Completes the fetcher's load with a page
+	const respond = (rerender: () => void, page: Page) => {
+		fetcher = { state: "idle", data: page };
+		act(() => {
+			rerender();
+		});
+	};
+
+	it("should load the first page on mount", () => {
+		const { result, rerender } = renderPosts();
+
+		expect(result.current.isLoading).toBe(true);
+		expect(mockLoad).toHaveBeenCalledWith("/posts?cursor=10");
+
+		act(() => {
+			rerender({});
+		});
+		respond(() => rerender({}), { items: [10, 11], next: 12 });
+
+		expect(result.current.isLoading).toBe(false);
+		expect(result.current.pages).toEqual([{ items: [10, 11], next: 12 }]);
+		expect(result.current.pageParams).toEqual([{ cursor: 10 }]);
+		expect(result.current.hasNextPage).toBe(true);
+		expect(result.current.hasPreviousPage).toBe(false);
+	});
+
+	it("should accumulate pages in both directions", () => {
+		const { result, rerender } = renderPosts();
+		act(() => {
+			rerender({});
+		});
+		respond(() => rerender({}), { items: [10, 11], next: 12, previous: 8 });
+
+		act(() => {
+			result.current.fetchNextPage();
+		});
+		expect(mockLoad).toHaveBeenLastCalledWith("/posts?cursor=12");
+		expect(result.current.isFetchingNextPage).toBe(true);
+
+		// Only one page loads at a time
+		act(() => {
+			result.current.fetchPreviousPage();
+		});
+		expect(mockLoad).toHaveBeenCalledTimes(2);
+
+		respond(() => rerender({}), { items: [12, 13] });
+		expect(result.current.isFetchingNextPage).toBe(false);
+		expect(result.current.hasNextPage).toBe(false);
+
+		act(() => {
+			result.current.fetchPreviousPage();
+		});
+		expect(mockLoad).toHaveBeenLastCalledWith("/posts?cursor=8");
+		expect(result.current.isFetchingPreviousPage).toBe(true);
+
+		respond(() => rerender({}), { items: [8, 9] });
+
+		expect(result.current.pages.map((page) => page.items)).toEqual([
+			[8, 9],
+			[10, 11],
+			[12, 13],
+		]);
+		expect(result.current.pageParams).toEqual([
+			{ cursor: 8 },
+			{ cursor: 10 },
+			{ cursor: 12 },
+		]);
+		expect(result.current.hasPreviousPage).toBe(false);
+	});
+
+	it("should not add a page when the next page fails to load", () => {
+		const { result, rerender } = renderPosts();
+		act(() => {
+			rerender({});
+		});
+		respond(() => rerender({}), { items: [10, 11], next: 12 });
+
+		act(() => {
+			result.current.fetchNextPage();
+		});
+		act(() => {
+			rerender({});
+		});
+
+		// The load fails, and the fetcher goes back to idle with its previous data
+		fetcher = { ...fetcher, state: "idle" };
+		act(() => {
+			rerender({});
+		});
+
+		expect(result.current.isFetchingNextPage).toBe(false);
+		expect(result.current.pages).toEqual([{ items: [10, 11], next: 12 }]);
+		expect(result.current.hasNextPage).toBe(true);
+
+		act(() => {
+			result.current.fetchNextPage();
+		});
+		expect(mockLoad).toHaveBeenCalledTimes(3);
+		expect(mockLoad).toHaveBeenLastCalledWith("/posts?cursor=12");
+
+		respond(() => rerender({}), { items: [12, 13] });
+		expect(result.current.pages.map((page) => page.items)).toEqual([
+			[10, 11],
+			[12, 13],
+		]);
+	});
+
+	it("should update the last loaded page when the fetcher revalidates", () => {
+		const { result, rerender } = renderPosts();
+		act(() => {
+			rerender({});
+		});
+		respond(() => rerender({}), { items: [10, 11], next: 12 });
+		act(() => {
+			result.current.fetchNextPage();
+		});
+		respond(() => rerender({}), { items: [12, 13] });
+
+		// React Router reloads the fetcher's last URL after an action
+		fetcher = { ...fetcher, state: "loading" };
+		act(() => {
+			rerender({});
+		});
+		respond(() => rerender({}), { items: [12] });
+
+		expect(result.current.pages.map((page) => page.items)).toEqual([
+			[10, 11],
+			[12],
+		]);
+		expect(mockLoad).toHaveBeenCalledTimes(2);
+	});
+
+	it("should start over when the search params change", () => {
+		const { result, rerender } = renderPosts({ tag: "news" });
+		expect(mockLoad).toHaveBeenCalledWith("/posts?tag=news&cursor=10");
+		act(() => {
+			rerender({ tag: "news" });
+		});
+		respond(() => rerender({ tag: "news" }), { items: [10], next: 11 });
+
+		act(() => {
+			rerender({ tag: "sport" });
+		});
+
+		expect(result.current.pages).toEqual([]);
+		expect(result.current.isLoading).toBe(true);
+		expect(mockLoad).toHaveBeenLastCalledWith("/posts?tag=sport&cursor=10");
+
+		respond(() => rerender({ tag: "sport" }), { items: [20] });
+		expect(result.current.pages).toEqual([{ items: [20] }]);
+	});
+});
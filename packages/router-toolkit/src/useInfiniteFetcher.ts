@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { href, useFetcher } from "react-router";
+import {
+	type SearchParamsOf,
+	type SearchValues,
+	withSearch,
+} from "./searchParams";
+import type {
+	RegisteredLoaderModule,
+	RegisteredRoute,
+	Unregistered,
+} from "./types/RouteModules";
+import type { RouteParamsOption } from "./types/RouteParamsOption";
+import type { RouteWithLoaderModule } from "./types/RouteWithLoaderModule";
+import { useFetcherStateChanged } from "./useFetcherStateChanged";
+
+type InfinitePage<TInfo extends RouteWithLoaderModule> = NonNullable<
+	ReturnType<typeof useFetcher<TInfo["loader"]>>["data"]
+>;
+
+/**
+ * The search params that select a page, merged into the URL's search params
+ *
+ * @template TInfo - The route module type
+ */
+export type InfinitePageParam<TInfo extends RouteWithLoaderModule> = Partial<
+	SearchParamsOf<TInfo>
+>;
+
+/**
+ * Options for useInfiniteFetcher
+ *
+ * @template TInfo - The route module type
+ */
+export type InfiniteFetcherOptions<TInfo extends RouteWithLoaderModule> = {
+	path: TInfo["route"];
+	/**
+	 * Search params shared by every page. Changing them starts over from the first page.
+	 */
+	search?: SearchParamsOf<TInfo>;
+	/**
+	 * The page param of the first page (defaults to no extra search params)
+	 */
+	initialPageParam?: InfinitePageParam<TInfo>;
+	/**
+	 * Returns the page param of the page after the last one, or `undefined` or `null` when
+	 * there are no more pages
+	 */
+	getNextPageParam: (
+		lastPage: InfinitePage<TInfo>,
+		pages: InfinitePage<TInfo>[],
+	) => InfinitePageParam<TInfo> | null | undefined;
+	/**
+	 * Returns the page param of the page before the first one, or `undefined` or `null`
+	 * when there are no previous pages
+	 */
+	getPreviousPageParam?: (
+		firstPage: InfinitePage<TInfo>,
+		pages: InfinitePage<TInfo>[],
+	) => InfinitePageParam<TInfo> | null | undefined;
+} & RouteParamsOption<TInfo["route"]>;
+
+/**
+ * The value returned by {@link useInfiniteFetcher}
+ */
+export type InfiniteFetcher<TInfo extends RouteWithLoaderModule> = {
+	/**
+	 * The loaded pages, in order
+	 */
+	pages: InfinitePage<TInfo>[];
+	/**
+	 * The page param each page was loaded with
+	 */
+	pageParams: InfinitePageParam<TInfo>[];
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	/**
+	 * Loads the page after the last one, unless there is none or a page is loading
+	 */
+	fetchNextPage: () => void;
+	/**
+	 * Loads the page before the first one, unless there is none or a page is loading
+	 */
+	fetchPreviousPage: () => void;
+	/**
+	 * Whether the first page is loading, after mounting or changing the URL
+	 */
+	isLoading: boolean;
+	isFetchingNextPage: boolean;
+	isFetchingPreviousPage: boolean;
+	/**
+	 * The state of the underlying fetcher, which is also loading while React Router
+	 * revalidates the last loaded page
+	 */
+	state: ReturnType<typeof useFetcher>["state"];
+};
+
+type UseInfiniteFetcher = {
+	// Routes in the generated registry, whose module is inferred from the path
+	<TRoute extends RegisteredRoute<"loader">>(
+		options: InfiniteFetcherOptions<RegisteredLoaderModule<TRoute>> & {
+			path: TRoute;
+		},
+	): InfiniteFetcher<RegisteredLoaderModule<TRoute>>;
+	// Without a module, only routes outside the registry are accepted
+	<TInfo extends RouteWithLoaderModule = Unregistered<RouteWithLoaderModule>>(
+		options: InfiniteFetcherOptions<TInfo>,
+	): InfiniteFetcher<TInfo>;
+};
+
+type PageDirection = "initial" | "next" | "previous";
+
+type InfinitePages<TInfo extends RouteWithLoaderModule> = {
+	// The URL the pages were loaded from, before page params
+	url: string;
+	pages: InfinitePage<TInfo>[];
+	pageParams: InfinitePageParam<TInfo>[];
+};
+
+/**
+ * Loads a paginated route's data page by page with a fetcher, accumulating the pages.
+ *
+ * Each page is loaded from the route's URL with its page param merged into the search
+ * params, so cursors can be typed by the route module's `searchSchema`. The first page
+ * loads on mount, and again whenever the route params or search change. Pages can be
+ * added at both ends with cursors from `getNextPageParam` and `getPreviousPageParam`.
+ * When React Router revalidates the fetcher after an action, the most recently loaded
+ * page is updated in place. A load that fails or is aborted adds no page, and can be retried.
+ * The route module is inferred from the path for routes in the generated
+ * {@link RegisterRouteModules} registry.
+ *
+ * @example
+ * ```tsx
+ * const { pages, hasNextPage, fetchNextPage, isFetchingNextPage } =
+ *   useInfiniteFetcher<typeof import("./posts")>({
+ *     path: "/posts",
+ *     search: { tag },
+ *     getNextPageParam: (lastPage) =>
+ *       lastPage.nextCursor ? { cursor: lastPage.nextCursor } : undefined,
+ *   });
+ * ```
+ */
+export const useInfiniteFetcher: UseInfiniteFetcher = <
+	TInfo extends RouteWithLoaderModule,
+>(
+	options: InfiniteFetcherOptions<TInfo>,
+): InfiniteFetcher<TInfo> => {
+	const { path, params, search } = options;
+
+	const url = useMemo(
+		() =>
+			withSearch(
+				// biome-ignore lint/suspicious/noExplicitAny: Intentional
+				href(path, ...((params ? [params] : []) as any)),
+				search as SearchValues | undefined,
+			),
+		[path, params, search],
+	);
+
+	const fetcher = useFetcher<TInfo["loader"]>();
+
+	const [loaded, setLoaded] = useState<InfinitePages<TInfo>>({
+		url,
+		pages: [],
+		pageParams: [],
+	});
+	// Pages loaded for a previous URL are dropped as soon as the URL changes
+	const { pages, pageParams } =
+		loaded.url === url ? loaded : { pages: [], pageParams: [] };
+
+	// The page being loaded, starting with the first page
+	const [pending, setPending] = useState<
+		| {
+				direction: PageDirection;
+				url: string;
+				pageParam: InfinitePageParam<TInfo>;
+		  }
+		| undefined
+	>(() => ({
+		direction: "initial",
+		url,
+		pageParam: options.initialPageParam ?? {},
+	}));
+
+	// The page param of the page the fetcher last loaded, updated when it revalidates
+	const lastPageParamRef = useRef<InfinitePageParam<TInfo> | undefined>(
+		undefined,
+	);
+
+	// The fetcher data last added to the pages. A load that fails or is aborted leaves the
+	// fetcher's data unchanged, and must not add it again.
+	const lastDataRef = useRef<unknown>(undefined);
+
+	// Keep the latest options and fetcher for the callbacks without recreating them
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+	const fetcherRef = useRef(fetcher);
+	fetcherRef.current = fetcher;
+
+	const loadPage = useCallback(
+		(
+			direction: PageDirection,
+			pageUrl: string,
+			pageParam: InfinitePageParam<TInfo> = {},
+		) => {
+			setPending({ direction, url: pageUrl, pageParam });
+			lastPageParamRef.current = pageParam;
+			fetcherRef.current.load(
+				withSearch(pageUrl, pageParam as SearchValues | undefined),
+			);
+		},
+		[],
+	);
+
+	// Start over from the first page on mount and whenever the URL changes
+	useEffect(() => {
+		loadPage("initial", url, optionsRef.current.initialPageParam);
+	}, [url, loadPage]);
+
+	const { data } = fetcher;
+
+	useFetcherStateChanged(
+		fetcher,
+		useCallback(
+			(lastState, newState) => {
+				if (lastState === "idle" || newState !== "idle") {
+					return;
+				}
+
+				setPending(undefined);
+				if (data === undefined || data === lastDataRef.current) {
+					return;
+				}
+				lastDataRef.current = data;
+
+				const page = data as InfinitePage<TInfo>;
+
+				if (!pending) {
+					// React Router revalidated the last loaded page
+					setLoaded((current) => {
+						const index = current.pageParams.indexOf(
+							lastPageParamRef.current as InfinitePageParam<TInfo>,
+						);
+						if (index === -1) {
+							return current;
+						}
+						const updated = [...current.pages];
+						updated[index] = page;
+						return { ...current, pages: updated };
+					});
+					return;
+				}
+
+				setLoaded((current) => {
+					if (pending.direction === "initial" || current.url !== pending.url) {
+						return {
+							url: pending.url,
+							pages: [page],
+							pageParams: [pending.pageParam],
+						};
+					}
+					return pending.direction === "next"
+						? {
+								url: current.url,
+								pages: [...current.pages, page],
+								pageParams: [...current.pageParams, pending.pageParam],
+							}
+						: {
+								url: current.url,
+								pages: [page, ...current.pages],
+								pageParams: [pending.pageParam, ...current.pageParams],
+							};
+				});
+			},
+			[data, pending],
+		),
+	);
+
+	const nextPageParam =
+		pages.length > 0
+			? options.getNextPageParam(pages[pages.length - 1], pages)
+			: undefined;
+	const previousPageParam =
+		pages.length > 0
+			? options.getPreviousPageParam?.(pages[0], pages)
+			: undefined;
+
+	const hasNextPage = nextPageParam !== undefined && nextPageParam !== null;
+	const hasPreviousPage =
+		previousPageParam !== undefined && previousPageParam !== null;
+
+	const fetchNextPage = useCallback(() => {
+		if (hasNextPage && !pending) {
+			loadPage("next", url, nextPageParam ?? undefined);
+		}
+	}, [hasNextPage, pending, loadPage, url, nextPageParam]);
+
+	const fetchPreviousPage = useCallback(() => {
+		if (hasPreviousPage && !pending) {
+			loadPage("previous", url, previousPageParam ?? undefined);
+		}
+	}, [hasPreviousPage, pending, loadPage, url, previousPageParam]);
+
+	return {
+		pages,
+		pageParams,
+		hasNextPage,
+		hasPreviousPage,
+		fetchNextPage,
+		fetchPreviousPage,
+		isLoading: pending?.direction === "initial" || loaded.url !== url,
+		isFetchingNextPage: pending?.direction === "next",
+		isFetchingPreviousPage: pending?.direction === "previous",
+		state: fetcher.state,
+	};
+};
@@ -0,0 +1,52 @@
+import { useCallback, useRef } from "react";
+import type { useFetcher } from "react-router";
+import { type FetchCache, useFetchCache } from "./fetchCache";
+import { useFetcherStateChanged } from "./useFetcherStateChanged";
+
+/**
+ * Invalidates cached fetch data whenever a submission succeeds.
+ *
+ * Pass a submitter (or fetcher) that submits to a `formAction`; once it settles with a
+ * MaybeError success, `invalidate` is called with the fetch cache.
+ *
+ * @example
+ * ```tsx
+ * const submitter = useDynamicSubmitter<typeof import("./users.$id")>("/users/:id", { id });
+ *
+ * useInvalidateOnSuccess(submitter, (cache) => {
+ *   cache.invalidate("/users/:id", { id });
+ *   cache.invalidatePrefix("/users");
+ * });
+ * ```
+ *
+ * @param submitter - The submitter or fetcher to track
+ * @param invalidate - Invalidates the cached data affected by the action
+ */
+export const useInvalidateOnSuccess = (
+	submitter: Pick<ReturnType<typeof useFetcher>, "state" | "data">,
+	invalidate: (cache: FetchCache) => void,
+) => {
+	const cache = useFetchCache();
+
+	// Keep the latest callback without resubscribing, so it can be an inline function
+	const invalidateRef = useRef(invalidate);
+	invalidateRef.current = invalidate;
+
+	const { data } = submitter;
+
+	useFetcherStateChanged(
+		submitter,
+		useCallback(
+			(lastState, newState) => {
+				if (
+					lastState !== "idle" &&
+					newState === "idle" &&
+					(data as { success?: boolean } | undefined)?.success === true
+				) {
+					invalidateRef.current(cache);
+				}
+			},
+			[cache, data],
+		),
+	);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, expectTypeOf, it } from "bun:test";
+import { fail, type MaybeError, success } from "@firtoz/maybe-error";
+import { renderHook } from "@testing-library/react";
+import { useOptimisticSubmission } from "./useOptimisticSubmission";
+
+type Todo = { id: number; title: string };
+
+type Pending =
+	| { method: "POST"; target: { title: string } }
+	| { method: "DELETE"; target: { id: number } };
+
+type Result = MaybeError<Todo, { type: "handler"; error: "duplicate" }>;
+
+type Submitter = {
+	state: "idle" | "loading" | "submitting";
+	pendingSubmission: Pending | undefined;
+	data: Result | null;
+};
+
+const todos: Todo[] = [{ id: 1, title: "Buy milk" }];
+
+const reducer = (current: Todo[], pending: Pending): Todo[] => {
+	switch (pending.method) {
+		case "POST":
+			return [...current, { id: -1, title: pending.target.title }];
+		case "DELETE":
+			return current.filter((todo) => todo.id !== pending.target.id);
+	}
+};
+
+const renderOptimistic = (submitter: Submitter) =>
+	renderHook(
+		(props: Submitter) => useOptimisticSubmission(props, todos, reducer),
+		{ initialProps: submitter },
+	);
+
+describe("useOptimisticSubmission", () => {
+	it("should apply the pending submission while it is in flight", () => {
+		const { result, rerender } = renderOptimistic({
+			state: "submitting",
+			pendingSubmission: { method: "POST", target: { title: "Walk dog" } },
+			data: null,
+		});
+
+		expect(result.current.isPending).toBe(true);
+		expect(result.current.data).toEqual([
+			...todos,
+			{ id: -1, title: "Walk dog" },
+		]);
+
+		rerender({
+			state: "loading",
+			pendingSubmission: { method: "DELETE", target: { id: 1 } },
+			data: null,
+		});
+
+		expect(result.current.data).toEqual([]);
+	});
+
+	it("should roll back and expose the typed failure when the action fails", () => {
+		const { result } = renderOptimistic({
+			state: "idle",
+			pendingSubmission: undefined,
+			data: fail({ type: "handler", error: "duplicate" }),
+		});
+
+		expect(result.current.isPending).toBe(false);
+		expect(result.current.data).toBe(todos);
+		expect(result.current.failure).toEqual({
+			type: "handler",
+			error: "duplicate",
+		});
+		expectTypeOf(result.current.failure).toEqualTypeOf<
+			{ type: "handler"; error: "duplicate" } | undefined
+		>();
+	});
+
+	it("should hide the previous failure while a new submission is in flight", () => {
+		const { result } = renderOptimistic({
+			state: "submitting",
+			pendingSubmission: { method: "POST", target: { title: "Retry" } },
+			data: fail({ type: "handler", error: "duplicate" }),
+		});
+
+		expect(result.current.failure).toBeUndefined();
+	});
+
+	it("should use the current data after a successful submission", () => {
+		const { result } = renderOptimistic({
+			state: "idle",
+			pendingSubmission: undefined,
+			data: success({ id: 2, title: "Walk dog" }),
+		});
+
+		expect(result.current.data).toBe(todos);
+		expect(result.current.failure).toBeUndefined();
+	});
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Optimistic UI state for useDynamicSubmitter
+ *
+ * While a submission is in flight, the caller's reducer applies the typed submit target to
+ * the current data. Once the submission settles the hook falls back to the current data,
+ * which rolls back the optimistic change when the action returned a failure.
+ *
+ * @example
+ * ```tsx
+ * const { todos } = useLoaderData<typeof loader>();
+ * const submitter = useDynamicSubmitter<typeof import("./todos")>("/todos");
+ *
+ * const optimistic = useOptimisticSubmission(submitter, todos, (current, pending) =>
+ *   pending.method === "POST" ? [...current, { id: "new", title: pending.target.title }] : current,
+ * );
+ *
+ * // Render optimistic.data, and optimistic.failure when the action failed
+ * ```
+ */
+
+/**
+ * The error of a failed MaybeError result
+ */
+export type SubmissionFailure<TResult> = TResult extends {
+	success: false;
+	error: infer TError;
+}
+	? TError
+	: never;
+
+/**
+ * The parts of a submitter used by {@link useOptimisticSubmission}
+ */
+export type OptimisticSubmitter<TPending, TResult> = {
+	state: "idle" | "loading" | "submitting";
+	pendingSubmission: TPending | undefined;
+	data: TResult;
+};
+
+/**
+ * Return value of useOptimisticSubmission
+ */
+export type OptimisticSubmission<TData, TResult> = {
+	/**
+	 * The current data, with the pending submission applied while it is in flight
+	 */
+	data: TData;
+	/**
+	 * Whether the optimistic change is being shown
+	 */
+	isPending: boolean;
+	/**
+	 * The error of the last submission when it failed, hidden while a new one is in flight
+	 */
+	failure: SubmissionFailure<TResult> | undefined;
+};
+
+/**
+ * Derives optimistic data from the submission of a {@link useDynamicSubmitter} in flight.
+ *
+ * `data` should be the source of truth that the action updates, such as loader data, so
+ * that it reflects the change once React Router revalidates after a successful submission.
+ * When the action returns a MaybeError failure, the optimistic change is dropped and the
+ * typed error is exposed as `failure`.
+ *
+ * Only submissions made with `submitter.submit()` carry a typed target; `submitter.Form`
+ * submissions leave the data unchanged.
+ *
+ * @template TData - The type of the data being updated
+ * @template TPending - The submitter's pending submission type
+ * @template TResult - The submitter's action result type
+ *
+ * @param submitter - The submitter returned by useDynamicSubmitter
+ * @param data - The current data
+ * @param reducer - Applies a pending submission to the current data
+ * @returns The optimistic data, whether it is pending, and the failure of the last submission
+ */
+export const useOptimisticSubmission = <TData, TPending, TResult>(
+	submitter: OptimisticSubmitter<TPending, TResult>,
+	data: TData,
+	reducer: (current: TData, pending: TPending) => TData,
+): OptimisticSubmission<TData, TResult> => {
+	const { state, pendingSubmission, data: result } = submitter;
+	const isPending = pendingSubmission !== undefined;
+
+	const lastResult = result as { success?: boolean; error?: unknown } | null;
+	const failure =
+		state === "idle" && lastResult?.success === false
+			? (lastResult.error as SubmissionFailure<TResult>)
+			: undefined;
+
+	return {
+		data: isPending ? reducer(data, pendingSubmission) : data,
+		isPending,
+		failure,
+	};
+};
@@ -0,0 +1,362 @@
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	mock,
+} from "bun:test";
+import { fail, type MaybeError, success } from "@firtoz/maybe-error";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type React from "react";
+import * as ReactRouter from "react-router";
+
+const mockUseFetcher = mock(() => ({
+	submit: mock(() => Promise.resolve()),
+	Form: () => null,
+	state: "idle",
+	data: undefined,
+	formData: null,
+	json: null,
+	text: null,
+}));
+
+const mockRevalidate = mock(() => Promise.resolve());
+const revalidator = { revalidate: mockRevalidate, state: "idle" };
+
+mock.module("react-router", () => ({
+	...ReactRouter,
+	useFetcher: mockUseFetcher,
+	useRevalidator: () => revalidator,
+	href: (path: string) => path,
+}));
+
+// Import after mocking
+
+import type { z } from "zod";
+import {
+	createSubmissionQueue,
+	memorySubmissionStorage,
+	type SubmissionQueue,
+} from "./submissionQueue";
+import {
+	SubmissionQueueContext,
+	useQueuedSubmitter,
+} from "./useQueuedSubmitter";
+
+type VisitsModule = {
+	route: "/visits";
+	action: () => Promise<MaybeError<number, { type: "handler"; error: string }>>;
+	formSchema: z.ZodType<{ notes: string }>;
+};
+
+// Responds to each request with the next result: data to send as JSON, a Response, or
+// an error to reject with
+let responses: unknown[] = [];
+const mockFetch = mock(async (_url: string, _init: RequestInit) => {
+	const next = responses.shift();
+	if (next instanceof Error) {
+		throw next;
+	}
+	return next instanceof Response ? next : Response.json(next);
+});
+
+const originalFetch = globalThis.fetch;
+
+const networkError = () => new TypeError("Failed to fetch");
+
+const sentNotes = () =>
+	mockFetch.mock.calls.map(([, init]) => (init.body as FormData).get("notes"));
+
+let online = true;
+Object.defineProperty(navigator, "onLine", {
+	configurable: true,
+	get: () => online,
+});
+afterAll(() => {
+	online = true;
+});
+
+const setOnline = (value: boolean) => {
+	online = value;
+	act(() => {
+		window.dispatchEvent(new window.Event(value ? "online" : "offline"));
+	});
+};
+
+const renderSubmitter = (queue: SubmissionQueue) =>
+	renderHook(() => useQueuedSubmitter<VisitsModule>("/visits"), {
+		wrapper: ({ children }: { children: React.ReactNode }) => (
+			<SubmissionQueueContext.Provider value={queue}>
+				{children}
+			</SubmissionQueueContext.Provider>
+		),
+	});
+
+describe("useQueuedSubmitter", () => {
+	beforeEach(() => {
+		online = true;
+		responses = [];
+		globalThis.fetch = mockFetch as unknown as typeof fetch;
+		mockFetch.mockClear();
+		mockRevalidate.mockClear();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("should submit to the action and revalidate while online", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const { result } = renderSubmitter(queue);
+
+		responses = [success(1)];
+		await act(() => result.current.submit({ notes: "Hi" }, { method: "POST" }));
+
+		const [url, init] = mockFetch.mock.calls[0];
+		expect(url).toBe("/visits.data");
+		expect(init.method).toBe("POST");
+		expect(sentNotes()).toEqual(["Hi"]);
+
+		expect(result.current.data).toEqual(success(1));
+		expect(result.current.state).toBe("idle");
+		expect(mockRevalidate).toHaveBeenCalledTimes(1);
+		expect(await queue.list("/visits")).toEqual([]);
+	});
+
+	it("should queue submissions while offline and replay them in order", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const { result } = renderSubmitter(queue);
+
+		setOnline(false);
+		expect(result.current.isOnline).toBe(false);
+
+		await act(() =>
+			result.current.submit({ notes: "First" }, { method: "post" }),
+		);
+		await act(() =>
+			result.current.submit({ notes: "Second" }, { method: "post" }),
+		);
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		await waitFor(() =>
+			expect(
+				result.current.queue.map(({ entries, method, status }) => ({
+					entries,
+					method,
+					status,
+				})),
+			).toEqual([
+				{ entries: [["notes", "First"]], method: "POST", status: "queued" },
+				{ entries: [["notes", "Second"]], method: "POST", status: "queued" },
+			]),
+		);
+
+		responses = [
+			fail({ type: "handler", error: "Duplicate visit" }),
+			success(2),
+		];
+		setOnline(true);
+
+		await waitFor(() =>
+			expect(
+				result.current.queue.map(({ status, result }) => ({ status, result })),
+			).toEqual([
+				{
+					status: "failed",
+					result: fail({ type: "handler", error: "Duplicate visit" }),
+				},
+				{ status: "succeeded", result: success(2) },
+			]),
+		);
+		expect(sentNotes()).toEqual(["First", "Second"]);
+		await waitFor(() => expect(mockRevalidate).toHaveBeenCalledTimes(1));
+
+		await act(() => result.current.dismiss(result.current.queue[0]));
+		expect(result.current.queue).toHaveLength(1);
+	});
+
+	it("should treat results that are not a MaybeError as successes", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		await queue.enqueue("/visits", "POST", [["notes", "Queued"]]);
+
+		responses = [null, { saved: true }];
+		const { result } = renderSubmitter(queue);
+
+		await waitFor(() =>
+			expect(
+				result.current.queue.map(({ status, result }) => ({
+					status,
+					result: result as unknown,
+				})),
+			).toEqual([{ status: "succeeded", result: null }]),
+		);
+
+		await act(() =>
+			result.current.submit({ notes: "Direct" }, { method: "POST" }),
+		);
+		expect(result.current.data as unknown).toEqual({ saved: true });
+		expect(result.current.queue).toHaveLength(1);
+	});
+
+	it("should queue submissions that do not reach the action", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const { result } = renderSubmitter(queue);
+
+		responses = [networkError()];
+		await act(() =>
+			result.current.submit({ notes: "Lost" }, { method: "post" }),
+		);
+
+		await waitFor(() =>
+			expect(
+				result.current.queue.map(({ entries, method, status }) => ({
+					entries,
+					method,
+					status,
+				})),
+			).toEqual([
+				{ entries: [["notes", "Lost"]], method: "POST", status: "queued" },
+			]),
+		);
+		expect(result.current.data).toBeUndefined();
+
+		// Not retried until reconnected
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+
+		responses = [success(1)];
+		setOnline(false);
+		setOnline(true);
+
+		await waitFor(() =>
+			expect(result.current.queue.map(({ status }) => status)).toEqual([
+				"succeeded",
+			]),
+		);
+		expect(sentNotes()).toEqual(["Lost", "Lost"]);
+	});
+
+	it("should give up on replays that never reach the action", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		await queue.enqueue("/visits", "POST", [["notes", "Unreachable"]]);
+
+		responses = Array.from({ length: 6 }, networkError);
+		const { result } = renderSubmitter(queue);
+
+		for (let attempt = 1; attempt < 5; attempt++) {
+			await waitFor(() =>
+				expect(result.current.queue[0]?.attempts).toBe(attempt),
+			);
+			expect(result.current.queue[0]?.status).toBe("queued");
+			setOnline(false);
+			setOnline(true);
+		}
+
+		await waitFor(() =>
+			expect(
+				result.current.queue.map(({ attempts, status }) => ({
+					attempts,
+					status,
+				})),
+			).toEqual([{ attempts: 5, status: "failed" }]),
+		);
+
+		setOnline(false);
+		setOnline(true);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(mockFetch).toHaveBeenCalledTimes(5);
+	});
+
+	it("should not queue submissions that return a failure or an error", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const { result } = renderSubmitter(queue);
+
+		responses = [
+			fail({ type: "handler", error: "Invalid visit" }),
+			new Response(null, { status: 500 }),
+		];
+		await act(() =>
+			result.current.submit({ notes: "Invalid" }, { method: "post" }),
+		);
+		expect(result.current.data).toEqual(
+			fail({ type: "handler", error: "Invalid visit" }),
+		);
+
+		await act(() =>
+			expect(
+				result.current.submit({ notes: "Crash" }, { method: "post" }),
+			).rejects.toThrow("HTTP error! Status: 500"),
+		);
+
+		expect(await queue.list("/visits")).toEqual([]);
+	});
+
+	it("should reject submissions that cannot be queued", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		queue.enqueue = mock(() => Promise.reject(new Error("Quota exceeded")));
+		const { result } = renderSubmitter(queue);
+
+		responses = [networkError()];
+		await act(() =>
+			expect(
+				result.current.submit({ notes: "Lost" }, { method: "post" }),
+			).rejects.toThrow("Quota exceeded"),
+		);
+
+		setOnline(false);
+		await act(() =>
+			expect(
+				result.current.submit({ notes: "Offline" }, { method: "post" }),
+			).rejects.toThrow("Quota exceeded"),
+		);
+	});
+
+	it("should replay each submission once across submitters", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		await queue.enqueue("/visits", "POST", [["notes", "Once"]]);
+
+		responses = [success(1)];
+		const first = renderSubmitter(queue);
+		const second = renderSubmitter(queue);
+
+		await waitFor(() =>
+			expect(second.result.current.queue.map(({ status }) => status)).toEqual([
+				"succeeded",
+			]),
+		);
+
+		// Replays finish after their submitter unmounts
+		await queue.enqueue("/visits", "POST", [["notes", "After unmount"]]);
+		responses = [success(2)];
+		await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+		first.unmount();
+
+		await waitFor(() =>
+			expect(second.result.current.queue.map(({ status }) => status)).toEqual([
+				"succeeded",
+				"succeeded",
+			]),
+		);
+		expect(sentNotes()).toEqual(["Once", "After unmount"]);
+	});
+
+	it("should replay submissions interrupted by a reload", async () => {
+		const queue = createSubmissionQueue(memorySubmissionStorage());
+		const submission = await queue.enqueue("/visits", "POST", [
+			["notes", "Before reload"],
+		]);
+		await queue.update({ ...submission, status: "replaying" });
+
+		responses = [success(1)];
+		const { result } = renderSubmitter(queue);
+
+		await waitFor(() =>
+			expect(result.current.queue.map(({ status }) => status)).toEqual([
+				"succeeded",
+			]),
+		);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,424 @@
+/**
+ * @fileoverview Offline submission queue for useDynamicSubmitter
+ *
+ * Submissions made while offline, or that fail to reach their action, are stored in a
+ * persistent queue keyed by the action URL, and replayed in order once back online.
+ * Submissions are sent to the action's single fetch `.data` URL with `fetch`, so that a
+ * request that never reached the action can be told apart from an action's result, and
+ * active routes are revalidated afterwards, as after a fetcher submission.
+ *
+ * @example
+ * ```tsx
+ * const submitter = useQueuedSubmitter<typeof import("./visits")>("/visits");
+ *
+ * submitter.submit({ notes: "Checked meter" }, { method: "POST" });
+ *
+ * submitter.queue.map((submission) => (
+ *   <li key={submission.id}>{submission.status}</li>
+ * ));
+ * ```
+ */
+
+import {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	useSyncExternalStore,
+} from "react";
+import { href, type SubmitTarget, useRevalidator } from "react-router";
+import { isFormElement } from "./isFormElement";
+import { isMaybeError } from "./isMaybeError";
+import { readSingleFetchActionData, singleFetchUrl } from "./singleFetch";
+import {
+	createSubmissionQueue,
+	type QueuedSubmission,
+	type SubmissionQueue,
+} from "./submissionQueue";
+import type { HrefArgs } from "./types/HrefArgs";
+import {
+	type DynamicSubmitter,
+	type RouteModule,
+	useDynamicSubmitter,
+} from "./useDynamicSubmitter";
+
+/**
+ * Provides the submission queue used by useQueuedSubmitter. Without a provider, a
+ * queue backed by IndexedDB is used.
+ */
+export const SubmissionQueueContext = createContext<
+	SubmissionQueue | undefined
+>(undefined);
+
+let defaultQueue: SubmissionQueue | undefined;
+
+const getDefaultQueue = () => {
+	if (!defaultQueue) {
+		defaultQueue = createSubmissionQueue();
+	}
+	return defaultQueue;
+};
+
+/**
+ * How many times a submission is sent before it is marked `"failed"`, when it does not
+ * reach the action
+ */
+const maxAttempts = 5;
+
+// The URLs whose queue is being replayed, so that each queue is replayed by one submitter
+const replaying = new Set<string>();
+
+// The URLs whose last request did not reach the action, which are not replayed again
+// until the browser reconnects or a submitter mounts
+const unreachable = new Set<string>();
+
+const subscribeToOnlineStatus = (listener: () => void) => {
+	window.addEventListener("online", listener);
+	window.addEventListener("offline", listener);
+	return () => {
+		window.removeEventListener("online", listener);
+		window.removeEventListener("offline", listener);
+	};
+};
+
+/**
+ * Converts a submit target to form data entries, the way React Router encodes
+ * targets for `multipart/form-data` submissions.
+ */
+const toFormDataEntries = (
+	target: SubmitTarget,
+): [string, FormDataEntryValue][] => {
+	if (target === null || typeof target !== "object") {
+		return [];
+	}
+
+	if (target instanceof FormData || target instanceof URLSearchParams) {
+		return Array.from(target.entries());
+	}
+
+	if (isFormElement(target)) {
+		return Array.from(new FormData(target).entries());
+	}
+
+	return Object.entries(target).map(([name, value]) => [
+		name,
+		value instanceof File
+			? value
+			: value instanceof Blob
+				? new File([value], "blob", { type: value.type })
+				: String(value),
+	]);
+};
+
+type SendResult = { reached: true; data: unknown } | { reached: false };
+
+/**
+ * Sends a submission to the action. Requests that fail before a response is received,
+ * such as after a network error, did not reach the action. Error responses and
+ * redirects are thrown.
+ */
+const sendSubmission = async (
+	url: string,
+	method: string,
+	entries: [string, FormDataEntryValue][],
+): Promise<SendResult> => {
+	const body = new FormData();
+	for (const [name, value] of entries) {
+		body.append(name, value);
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(singleFetchUrl(url), { method, body });
+	} catch {
+		return { reached: false };
+	}
+
+	return { reached: true, data: await readSingleFetchActionData(response) };
+};
+
+/**
+ * Sends a queued submission and saves its outcome.
+ *
+ * @returns Whether the submission reached the action
+ */
+const replaySubmission = async (
+	queue: SubmissionQueue,
+	submission: QueuedSubmission,
+) => {
+	await queue.update({ ...submission, status: "replaying" });
+
+	let sent: SendResult;
+	try {
+		sent = await sendSubmission(
+			submission.key,
+			submission.method,
+			submission.entries,
+		);
+	} catch {
+		await queue.update({ ...submission, status: "failed" });
+		return true;
+	}
+
+	if (!sent.reached) {
+		const attempts = submission.attempts + 1;
+		await queue.update({
+			...submission,
+			attempts,
+			status: attempts < maxAttempts ? "queued" : "failed",
+		});
+		return false;
+	}
+
+	await queue.update({
+		...submission,
+		status:
+			isMaybeError(sent.data) && !sent.data.success ? "failed" : "succeeded",
+		result: sent.data,
+	});
+	return true;
+};
+
+const isPending = (submission: QueuedSubmission) =>
+	submission.status === "queued" || submission.status === "replaying";
+
+/**
+ * Replays the queued submissions for a URL in order, until the queue is empty or a
+ * submission does not reach the action. Does nothing while the queue is being replayed.
+ *
+ * @returns Whether any submission reached the action
+ */
+const replayQueue = async (
+	queue: SubmissionQueue,
+	url: string,
+): Promise<boolean> => {
+	if (replaying.has(url)) {
+		return false;
+	}
+	replaying.add(url);
+
+	let reachedAny = false;
+	try {
+		// The list is read again after each replay, to include submissions queued meanwhile.
+		// "replaying" submissions were interrupted by a reload.
+		for (
+			let next = (await queue.list(url)).find(isPending);
+			next;
+			next = (await queue.list(url)).find(isPending)
+		) {
+			if (!(await replaySubmission(queue, next))) {
+				unreachable.add(url);
+				return reachedAny;
+			}
+			reachedAny = true;
+		}
+	} finally {
+		replaying.delete(url);
+	}
+
+	// Submissions queued while the last list was read were not replayed by their submitter
+	if ((await queue.list(url)).some(isPending)) {
+		return (await replayQueue(queue, url)) || reachedAny;
+	}
+	return reachedAny;
+};
+
+/**
+ * The value returned by {@link useQueuedSubmitter}.
+ */
+export type QueuedSubmitter<TInfo extends RouteModule> =
+	DynamicSubmitter<TInfo> & {
+		/**
+		 * Whether the browser is online
+		 */
+		isOnline: boolean;
+		/**
+		 * The queued submissions for this route, in replay order
+		 */
+		queue: QueuedSubmission<NonNullable<DynamicSubmitter<TInfo>["data"]>>[];
+		/**
+		 * Removes a submission from the queue, such as after showing its result
+		 */
+		dismiss: (submission: QueuedSubmission) => Promise<void>;
+	};
+
+/**
+ * Like {@link useDynamicSubmitter}, but queues submissions made while offline.
+ *
+ * `submit()` sends submissions with `fetch` to the route's single fetch `.data` URL, and
+ * revalidates the active routes once the action has returned, like a fetcher. `state`,
+ * `data` and `pendingSubmission` follow these submissions, and `Form` submissions, which
+ * go through the fetcher and are never queued.
+ *
+ * Submissions are queued when `navigator.onLine` is false at the time of `submit()`, or
+ * when the request fails before reaching the action, such as after a network error.
+ * Queued submissions are persisted (in IndexedDB by default), survive reloads, and are
+ * replayed in order once online. Each submission keeps its status and, once replayed, the
+ * action's result, until it is dismissed. A replay that does not reach the action stays
+ * queued and is retried once the browser reconnects or a submitter for the route mounts,
+ * up to 5 attempts, after which it is marked `"failed"`.
+ *
+ * Error responses and redirects are not queued: `submit()` rejects with them, and replays
+ * are marked `"failed"` without a result. `submit()` also rejects when the submission
+ * cannot be stored in the queue.
+ *
+ * @template TInfo - The route module type
+ *
+ * @param path - The route path
+ * @param args - Route parameters, as for `href`
+ * @returns The submitter, with the online status and the queued submissions
+ */
+export const useQueuedSubmitter = <TInfo extends RouteModule>(
+	path: TInfo["route"],
+	...args: TInfo["route"] extends "undefined"
+		? HrefArgs<"/">
+		: HrefArgs<TInfo["route"]>
+): QueuedSubmitter<TInfo> => {
+	type Result = NonNullable<DynamicSubmitter<TInfo>["data"]>;
+
+	const submitter = useDynamicSubmitter<TInfo>(path, ...args);
+
+	const url = useMemo(() => {
+		// biome-ignore lint/suspicious/noExplicitAny: Intentional
+		return href(path, ...(args as any));
+	}, [path, args]);
+
+	const queue = useContext(SubmissionQueueContext) ?? getDefaultQueue();
+	const { revalidate } = useRevalidator();
+
+	const isOnline = useSyncExternalStore(
+		subscribeToOnlineStatus,
+		() => navigator.onLine,
+		() => true,
+	);
+
+	const [submissions, setSubmissions] = useState<QueuedSubmission<Result>[]>(
+		[],
+	);
+
+	useEffect(() => {
+		let version = 0;
+
+		const load = async () => {
+			const loadVersion = ++version;
+			const list = await queue.list(url);
+			// Ignore lists that were loaded before a more recent change
+			if (loadVersion === version) {
+				setSubmissions(list as QueuedSubmission<Result>[]);
+			}
+		};
+
+		load();
+		const unsubscribe = queue.subscribe(url, load);
+
+		return () => {
+			version = -1;
+			unsubscribe();
+		};
+	}, [queue, url]);
+
+	// Retry unreachable actions when reconnected, or when mounted
+	useEffect(() => {
+		unreachable.delete(url);
+
+		const reconnect = () => unreachable.delete(url);
+		window.addEventListener("online", reconnect);
+		return () => window.removeEventListener("online", reconnect);
+	}, [url]);
+
+	const hasPending = submissions.some(isPending);
+
+	useEffect(() => {
+		if (!hasPending || !isOnline || unreachable.has(url)) {
+			return;
+		}
+
+		replayQueue(queue, url)
+			.then((reachedAny) => {
+				if (reachedAny) {
+					revalidate();
+				}
+			})
+			.catch((error: unknown) => {
+				// The queue's storage failed, such as IndexedDB being unavailable
+				console.error("Unexpected error in useQueuedSubmitter:", error);
+			});
+	}, [hasPending, isOnline, queue, revalidate, url]);
+
+	// The submit() call in flight, and the result of the last one
+	const [sending, setSending] = useState<{
+		state: "submitting" | "loading";
+		submission: DynamicSubmitter<TInfo>["pendingSubmission"];
+	}>();
+	const [sent, setSent] = useState<{ data: unknown }>();
+	const lastSendRef = useRef(0);
+
+	// Form submissions go through the fetcher, and replace the last result
+	const { data: fetcherData } = submitter;
+	useEffect(() => {
+		if (fetcherData !== undefined) {
+			setSent(undefined);
+		}
+	}, [fetcherData]);
+
+	const submit: DynamicSubmitter<TInfo>["submit"] = useCallback(
+		async (target, options) => {
+			const method = options.method.toUpperCase();
+			const entries = toFormDataEntries(target);
+
+			if (!navigator.onLine) {
+				await queue.enqueue(url, method, entries);
+				return;
+			}
+
+			const send = ++lastSendRef.current;
+			const isLast = () => send === lastSendRef.current;
+
+			setSending({
+				state: "submitting",
+				submission: { method: options.method, target } as NonNullable<
+					DynamicSubmitter<TInfo>["pendingSubmission"]
+				>,
+			});
+
+			try {
+				const result = await sendSubmission(url, method, entries);
+				if (!result.reached) {
+					unreachable.add(url);
+					await queue.enqueue(url, method, entries);
+					return;
+				}
+
+				if (isLast()) {
+					setSent({ data: result.data });
+					setSending((current) => current && { ...current, state: "loading" });
+				}
+				await revalidate();
+			} finally {
+				if (isLast()) {
+					setSending(undefined);
+				}
+			}
+		},
+		[queue, revalidate, url],
+	);
+
+	const dismiss = useCallback(
+		(submission: QueuedSubmission) => queue.remove(submission),
+		[queue],
+	);
+
+	return {
+		...submitter,
+		state: sending?.state ?? submitter.state,
+		data: sent ? (sent.data as DynamicSubmitter<TInfo>["data"]) : fetcherData,
+		pendingSubmission: sending?.submission ?? submitter.pendingSubmission,
+		submit,
+		isOnline,
+		queue: submissions,
+		dismiss,
+	};
+};
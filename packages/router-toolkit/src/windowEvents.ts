@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Window events that trigger refetching
+ */
+
+/**
+ * Calls the listener when the window regains focus or the page becomes visible again.
+ *
+ * @returns A function that removes the listeners
+ */
+export const subscribeToFocus = (listener: () => void) => {
+	const onVisibilityChange = () => {
+		if (document.visibilityState === "visible") {
+			listener();
+		}
+	};
+
+	window.addEventListener("focus", listener);
+	document.addEventListener("visibilitychange", onVisibilityChange);
+	return () => {
+		window.removeEventListener("focus", listener);
+		document.removeEventListener("visibilitychange", onVisibilityChange);
+	};
+};
+
+/**
+ * Calls the listener when the browser reconnects.
+ *
+ * @returns A function that removes the listener
+ */
+export const subscribeToReconnect = (listener: () => void) => {
+	window.addEventListener("online", listener);
+	return () => {
+		window.removeEventListener("online", listener);
+	};
+};
@@ -0,0 +1,6 @@
+// Shared helpers for the tests in src
+import type { ActionFunctionArgs } from "react-router";
+
+// The arguments React Router passes to an action for a request
+export const actionArgs = (request: Request) =>
+	({ request, params: {}, context: {} }) as unknown as ActionFunctionArgs;